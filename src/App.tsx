@@ -1,17 +1,193 @@
-import React, { useMemo, useState, useEffect } from 'react';
+import React, { useMemo, useState, useEffect, useCallback, useRef } from 'react';
 import jsPDF from 'jspdf';
 import { saveIntakeCloud, saveRepairCloud, listenIntakes, listenRepairs } from './firebase';
+import { saveHoldReviewCloud, listenHoldReviews, saveUnitEventCloud, listenUnitEvents } from './firebase';
+import { saveQcCheckCloud, listenQcChecks, saveBurnInSessionCloud, listenBurnInSessions } from './firebase';
+import { saveStockMoveCloud, listenStockMoves, saveHarvestCloud, listenHarvests } from './firebase';
+import { signIn, signOutUser, onUserChanged, actorFromUser } from './firebase';
+import { ensureUserProfile, listenUserProfile, listenUsers, setUserRoles } from './firebase';
+import { listenSetting, saveSettingCloud } from './firebase';
 import { testWrite, debugProject } from "./firebase";
-import { submitRepairViaFlow } from "./lib/submitRepair";
+import { RepairPayloadForFlow, resubmitRepairViaFlow } from "./lib/submitRepair";
+import { hasIndexedDB } from './lib/idb';
+import { RecordKind, PageQuery, Page, getAllRecords, putRecords, revisionOf, deleteRecords, readPage, pageArray } from './lib/recordStore';
+import { enqueue, flushOutbox, listOutbox, recordKey, OutboxEntry, OutboxKind, SyncStatus } from './lib/outbox';
+import { newRecordId } from './lib/ids';
+import { mergeSnapshot } from './lib/merge';
+import {
+  Actor,
+  BurnInSession,
+  Harvest,
+  HarvestBoardType,
+  HarvestGrade,
+  HARVEST_BOARD_TYPES,
+  HARVEST_GRADES,
+  Intake,
+  Repair,
+  HoldDecision,
+  HoldReview,
+  PartUsage,
+  PART_SOURCES,
+  PartSource,
+  StockMove,
+  UnitEvent,
+  UnitStatus,
+  QcCheck,
+  QcResult,
+  QcStepKey,
+  RepairDisposition,
+  CombinedRecord,
+  REPAIR_DISPOSITIONS,
+  SCHEMA_VERSION,
+  Decoded,
+  decodeAll,
+  decodeIntake,
+  decodeRepair,
+  decodeHoldReview,
+  decodeUnitEvent,
+  decodeQcCheck,
+  decodeBurnInSession,
+  decodeStockMove,
+  decodeHarvest,
+  qcResultOf,
+  CHECKLIST_STATUSES,
+  ChecklistStatus,
+} from './lib/domain';
+import { migrateIntake, migrateRepair } from './lib/migrations';
+import { Role, ROLES, ROLE_LABELS, UserProfile, can } from './lib/roles';
+import { SettingDef, ADMIN_LISTS, cacheSetting, loadCachedSetting } from './lib/settings';
+import { CatalogCode, CodeCatalog, CodeStatus, CODE_CATALOG, codesFor, describeCode, normalizeCode } from './lib/codes';
+import {
+  ChecklistItemDef,
+  ChecklistTemplate,
+  ChecklistTemplates,
+  CHECKLIST_TEMPLATES,
+  activeItems,
+  checklistRows,
+  currentTemplate,
+  initialChecklist,
+  itemKeyFromLabel,
+  missingEvidence,
+  needsEvidence,
+  publishTemplate,
+  templateFor,
+} from './lib/checklist';
+import {
+  BlockerRule,
+  BlockerRules,
+  BLOCKER_RULES,
+  HOLD_LABEL,
+  UnitHold,
+  evaluateHold,
+  holdOf,
+  repairBlockReason,
+  unitHolds,
+} from './lib/holds';
+import {
+  EventBase,
+  MANUAL_TRANSITIONS,
+  currentStatus,
+  eventsBySerial,
+  inferStatus,
+  intakeRefusal,
+  intakeTargets,
+  planTransitions,
+  qcTargets,
+  repairRefusal,
+  repairTargets,
+  reviewTargets,
+} from './lib/lifecycle';
+import { QC_STEPS, qcStepLabel } from './lib/qc';
+import { normalizePartNumber, partsCsvRows, partsUsageByFailure, partText } from './lib/parts';
+import {
+  CatalogPart,
+  PartsCatalog,
+  PARTS_CATALOG,
+  StockLevel,
+  catalogCsvRows,
+  consumeMoves,
+  importCatalogRows,
+  lowStock,
+  onHandByPart,
+  partsFor,
+  stockLevels,
+} from './lib/inventory';
+import { parseCSV } from './lib/csv';
+import {
+  LaborRow,
+  RepairTimer,
+  TimerState,
+  averageLabor,
+  formatMinutes,
+  keepBenchTimer,
+  loadBenchTimer,
+  pauseTimer,
+  repairLabor,
+  resumeTimer,
+  startTimer,
+  stopTimer,
+  timerMs,
+  timerPauses,
+  timerState,
+} from './lib/labor';
+import { HarvestLink, availableBoards, boardTag, harvestLinks, harvestMoves, isHarvestable, isStocked, traceFor } from './lib/harvest';
+import {
+  BurnInSettings,
+  BurnInState,
+  BURN_IN,
+  SessionChange,
+  burnInState,
+  endSession,
+  failSession,
+  interruptSession,
+  isActive,
+  minimumMinutes,
+  qcSignOffBlock,
+  resumeSession,
+  sessionFor,
+  soakMinutes,
+} from './lib/burnIn';
+import {
+  PHOTO_SETTINGS,
+  PhotoSettings,
+  PreparedPhoto,
+  addPhoto,
+  isAnnotated,
+  photoIndexesFor,
+  preparePhoto,
+  removePhotoAt,
+  setAnnotated,
+  shownOf,
+  thumbOf,
+  thumbnailOf,
+  withoutPhotoData,
+} from './lib/photos';
+import { blobToDataUrl, dataUrlToBlob, drawOnImage, loadImageData } from './lib/images';
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_TOOLS,
+  Annotation,
+  AnnotationTool,
+  Point,
+  drawAnnotation,
+  isMeaningful,
+  strokeWidth,
+} from './lib/annotate';
 
 /**********************************************
  * ROKU 1PTV Repair – Full App (Firestore + Offline)
  * Tabs:
  *  • Intake – pre-repair checklist (cosmetics & accessories) + photos
- *  • Repair – standardized dropdowns (failure/actions + custom) + photos
- *  • Dashboard – KPIs, weekly throughput, Pareto, recent repairs
+ *  • Repair – standardized dropdowns (failure/actions + custom) + photos,
+ *             bench timer (touch time vs wall time)
+ *  • Dashboard – KPIs, weekly throughput, Pareto, labor, recent repairs
  *  • History – search by Serial, combined viewer, CSV/PDF export
- *  • Admin – pass-key settings for sizes/sources/reasons
+ *  • QE Hold – held units; QE releases or rejects to scrap
+ *  • Parts – inventory on hand, receive / adjust stock (lead or admin),
+ *            boards harvested from Scrap / BER units and where they went
+ *  • QC – burn-in soak + post-repair functional test; a pass finalizes Repaired
+ *  • Admin – sizes/sources/reasons, codes, parts catalog, user roles (admin role);
+ *            checklist templates (QE or admin)
  **********************************************/
 
 // ===== Theme =====
@@ -88,209 +264,294 @@ const chip: React.CSSProperties = {
 
 const isBrowser = typeof window !== 'undefined';
 
-// ===== Types =====
-type ChecklistStatus = 'Pass' | 'Conditional' | 'Fail' | 'N/A';
+// ===== Defaults =====
+// ===== IndexedDB record store hooks =====
+// The working set stays in memory; every change is persisted per record
+// (only the rows whose revision changed are put/deleted) and bumps `revision`.
+// `trim` lightens rows once they are stored, e.g. drops full-size photo data.
+function useRecordStore<T extends { id: string; updatedAt?: string; syncedAt?: string }>(
+  kind: RecordKind,
+  load: (rows: unknown[]) => T[],
+  trim: (row: T) => T = (row) => row
+): [T[], React.Dispatch<React.SetStateAction<T[]>>, number] {
+  const [records, setRecords] = useState<T[]>([]);
+  const [revision, setRevision] = useState(0);
+  const persistedRef = useRef<T[] | null>(null); // null until the initial load finished
+  const loadRef = useRef(load);
+  const trimRef = useRef(trim);
 
-type Intake = {
-  serial: string;
-  family: string;
-  model: string;
-  sizeIn: number | '';
-  mac?: string;
-  returnSource: string;
-  returnReason: string;
-  conditionIn: string;
-  notes?: string;
-  checklist: {
-    labels_match: ChecklistStatus;
-    safety_ok: ChecklistStatus;
-    ports_intact: ChecklistStatus;
-    power_symptom: ChecklistStatus;
-    esd_ok: Exclude<ChecklistStatus, 'Conditional' | 'N/A'>;
-    cosmetic_backcover: ChecklistStatus;
-    cosmetic_screen: ChecklistStatus;
-    cosmetic_bezel: ChecklistStatus;
-    cosmetic_base: ChecklistStatus;
-    accessory_remote: ChecklistStatus;
-    accessory_stand: ChecklistStatus;
-    accessory_powercord: ChecklistStatus;
-    accessory_screws: ChecklistStatus;
-  };
-  photos: string[];
-  createdAt: string;
-};
+  useEffect(() => {
+    if (!hasIndexedDB()) return;
+    getAllRecords(kind)
+      .then((rows) => {
+        const stored = loadRef.current(rows).map(trimRef.current);
+        persistedRef.current = stored;
+        // A snapshot may have landed first; its rows win over the stored copies
+        setRecords((current) => {
+          if (!current.length) return stored;
+          const ids = new Set(current.map((r) => r.id));
+          return [...stored.filter((r) => !ids.has(r.id)), ...current];
+        });
+      })
+      .catch((e) => console.error(`Loading ${kind} records failed`, e));
+  }, [kind]);
 
-type RepairDisposition = 'Repaired' | 'Scrap' | 'NTF' | 'BER';
+  useEffect(() => {
+    const prev = persistedRef.current;
+    if (!prev || prev === records) return;
+    persistedRef.current = records;
+    const prevById = new Map(prev.map((r) => [r.id, r]));
+    const nextIds = new Set(records.map((r) => r.id));
+    const changed = records.filter((r) => {
+      const old = prevById.get(r.id);
+      return old !== r && (!old || revisionOf(old) !== revisionOf(r));
+    });
+    const removed = prev.filter((r) => !nextIds.has(r.id)).map((r) => r.id);
+    if (!changed.length && !removed.length) return;
+    Promise.all([putRecords(kind, changed), deleteRecords(kind, removed)])
+      .then(() => {
+        setRevision((n) => n + 1);
+        // Same revision, so swapping in the trimmed rows writes nothing
+        const stored = new Set(changed.map((r) => r.id));
+        setRecords((current) => {
+          const next = current.map((r) => (stored.has(r.id) ? trimRef.current(r) : r));
+          return next.some((r, i) => r !== current[i]) ? next : current;
+        });
+      })
+      .catch((e) => console.error(`Saving ${kind} records failed`, e));
+  }, [kind, records]);
 
-type Repair = {
-  serial: string;
-  startAt: string;
-  endAt?: string;
-  technician?: string;
-  failureCode: string;
-  actions: string[];
-  disposition: RepairDisposition;
-  notes?: string;
-  photos: string[];
-};
+  return [records, setRecords, revision];
+}
 
-type CombinedRecord = { serial: string; intake?: Intake; repairs: Repair[] };
+// Paged read through an IndexedDB index, decoded with the same `load` as the
+// record store; falls back to the in-memory list
+function usePagedRecords<T>(
+  kind: RecordKind,
+  load: (rows: unknown[]) => T[],
+  query: PageQuery,
+  revision: number,
+  fallback: T[],
+  field: (row: T) => string | undefined
+): Page<T> {
+  const [page, setPage] = useState<Page<T>>({ rows: [], total: 0 });
+  const { index, equals, from, direction, offset, limit } = query;
+  const fallbackRef = useRef({ fallback, field });
+  fallbackRef.current = { fallback, field };
+  const loadRef = useRef(load);
 
-// ===== Defaults =====
-const DEFAULT_TV_SIZES: number[] = [
-  24, 28, 32, 39, 40, 42, 43, 48, 49, 50, 55, 58, 60, 65, 70, 75, 77, 82, 83, 85, 86, 98,
-];
-const DEFAULT_RETURN_SOURCE_SUGGESTIONS = [
-  'Retail Return – Best Buy',
-  'Retail Return – Costco',
-  'Retail Return – Walmart',
-  'Amazon',
-  'Direct RMA',
-  'Rev-Log',
-  'TPV Service',
-  'Other',
-];
-const DEFAULT_RETURN_REASON_SUGGESTIONS = [
-  'No power',
-  'Boot loop',
-  'No image',
-  'No backlight',
-  'Lines on screen',
-  'Damaged screen',
-  'No sound',
-  'HDMI not working',
-  'Wi-Fi weak',
-  'Cosmetic damage',
-  'Remote missing',
-  'Stand missing',
-  'Other',
-];
-const FAILURE_CODES = [
-  'PSU_NO_POWER',
-  'PSU_CYCLING',
-  'MB_NO_BOOT',
-  'TCON_NO_IMAGE',
-  'PANEL_LINES',
-  'WIFI_WEAK',
-  'HDMI_FAIL',
-  'AUDIO_NO_SOUND',
-  'OTHER',
-];
-const ACTION_CODES = [
-  'RESEAT_FFC',
-  'REPLACE_CAPS',
-  'REPLACE_MB',
-  'REPLACE_PSU',
-  'REPLACE_TCON',
-  'FW_REFLASH',
-  'CLEAN_CONNECTOR',
-  'REWORK_SOLDER',
-];
-
-// ===== Criteria text =====
-const CRITERIA: Record<string, { title: string; bullets: string[] }> = {
-  labels_match: {
-    title: 'Labels match',
-    bullets: [
-      'Carton/rear/RMA match model/size/market; serial readable.',
-      'Regulatory marks present (UL/FCC/ICES/RCM).',
-      'Mismatch → Conditional; missing/altered → Fail.',
-    ],
-  },
-  safety_ok: {
-    title: 'Safety',
-    bullets: [
-      'Cord insulation intact; ground prong present.',
-      'Rear cover fully seated; EMI shields in place.',
-      'Any safety defect → Fail.',
-    ],
-  },
-  ports_intact: {
-    title: 'Ports',
-    bullets: [
-      'HDMI/USB/Coax/Optical aligned; no bent pins.',
-      'Minor scuff → Conditional; cracked/bent → Fail.',
-    ],
-  },
-  power_symptom: {
-    title: 'Power symptom',
-    bullets: [
-      'Reproduce symptom; log LED/boot code if any.',
-      'Not reproducible after 2 cycles → N/A note.',
-    ],
-  },
-  esd_ok: { title: 'ESD setup', bullets: ['Wrist strap verified; mat ground <10MΩ.', 'Any breach → Fail.'] },
-  cosmetic_backcover: {
-    title: 'Cosmetic – Back cover',
-    bullets: ['No cracks/dents; tabs not broken.', 'Scratch ≤30mm → Conditional; cracks/gouges → Fail.'],
-  },
-  cosmetic_screen: {
-    title: 'Cosmetic – Screen',
-    bullets: ['No cracks, lines, pressure mura.', 'Hairline scratch ≤10mm outside AA → Conditional.'],
-  },
-  cosmetic_bezel: {
-    title: 'Cosmetic – Bezel',
-    bullets: ['No cracks/chips; light scuffs okay.', 'Gaps >1.5mm/deformation → Fail.'],
-  },
-  cosmetic_base: {
-    title: 'Cosmetic – Base/Stand',
-    bullets: ['Stable; no cracks; scuffs okay → Conditional.', 'Structural damage → Fail.'],
-  },
-  accessory_remote: {
-    title: 'Accessory – Remote',
-    bullets: ['Correct model; housing intact; battery door present.', 'Missing → Fail; wrong model → Conditional.'],
-  },
-  accessory_stand: {
-    title: 'Accessory – Stand parts',
-    bullets: ['All legs/feet/trims present; fits firmly.', 'Missing structural piece → Fail.'],
-  },
-  accessory_powercord: {
-    title: 'Accessory – Power cord',
-    bullets: ['OEM spec; no cuts; strain relief OK.', 'Non-OEM but compatible → Conditional; damage → Fail.'],
-  },
-  accessory_screws: {
-    title: 'Accessory – Screws',
-    bullets: ['Correct count/thread; heads not stripped.', 'Missing critical screw(s) → Fail.'],
-  },
-};
+  useEffect(() => {
+    const q: PageQuery = { index, equals, from, direction, offset, limit };
+    if (!hasIndexedDB()) {
+      setPage(pageArray(fallbackRef.current.fallback, q, fallbackRef.current.field));
+      return;
+    }
+    let cancelled = false;
+    readPage(kind, q, loadRef.current)
+      .then((p) => { if (!cancelled) setPage(p); })
+      .catch((e) => console.error(`Reading ${kind} page failed`, e));
+    return () => { cancelled = true; };
+  }, [kind, index, equals, from, direction, offset, limit, revision]);
+
+  return page;
+}
+
+function Pager({ offset, limit, total, onChange }: { offset: number; limit: number; total: number; onChange: (offset: number) => void }) {
+  if (total <= limit) return null;
+  return (
+    <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'flex-end', marginTop: 8, fontSize: 12 }}>
+      <button style={btnGhost} disabled={offset === 0} onClick={() => onChange(Math.max(0, offset - limit))}>
+        Prev
+      </button>
+      <span style={{ color: theme.subtext }}>
+        {offset + 1}–{Math.min(offset + limit, total)} of {total}
+      </span>
+      <button style={btnGhost} disabled={offset + limit >= total} onClick={() => onChange(offset + limit)}>
+        Next
+      </button>
+    </div>
+  );
+}
 
-// ===== IndexedDB hook =====
-function useIndexedDB<T>(
-  key: string,
-  initial: T[]
-): [T[], React.Dispatch<React.SetStateAction<T[]>>] {
-  const [data, setData] = useState<T[]>(initial);
+const loadIntakes = (rows: unknown[]) => decodeAll(rows.map((r) => migrateIntake(r)), (r) => decodeIntake(r), 'intake');
+const loadRepairs = (rows: unknown[]) => decodeAll(rows.map((r) => migrateRepair(r)), (r) => decodeRepair(r), 'repair');
+const loadHoldReviews = (rows: unknown[]) => decodeAll(rows, (r) => decodeHoldReview(r), 'hold review');
+const loadUnitEvents = (rows: unknown[]) => decodeAll(rows, (r) => decodeUnitEvent(r), 'unit event');
+const loadQcChecks = (rows: unknown[]) => decodeAll(rows, (r) => decodeQcCheck(r), 'QC check');
+const loadBurnInSessions = (rows: unknown[]) => decodeAll(rows, (r) => decodeBurnInSession(r), 'burn-in session');
+const loadStockMoves = (rows: unknown[]) => decodeAll(rows, (r) => decodeStockMove(r), 'stock move');
+const loadHarvests = (rows: unknown[]) => decodeAll(rows, (r) => decodeHarvest(r), 'harvest');
+
+// ===== Admin settings hook =====
+// Cached copy first (works offline), then the live Firestore doc wins.
+function useSetting<T extends object>(def: SettingDef<T>, enabled: boolean): [T, (value: T) => Promise<void>] {
+  const [value, setValue] = useState<T>(def.defaults);
+  const defRef = useRef(def);
 
   useEffect(() => {
-    if (!isBrowser || !('indexedDB' in window)) return;
-    const req = indexedDB.open('RokuRepairDB', 1);
-    req.onupgradeneeded = () => req.result.createObjectStore('data', { keyPath: 'key' });
-    req.onsuccess = () => {
-      try {
-        const db = req.result;
-        const tx = db.transaction('data', 'readonly');
-        const store = tx.objectStore('data');
-        const getReq = store.get(key);
-        getReq.onsuccess = () => {
-          if (getReq.result) setData(getReq.result.value);
-        };
-      } catch {}
-    };
-  }, [key]);
+    let fromCloud = false;
+    loadCachedSetting(defRef.current)
+      .then((cached) => { if (cached && !fromCloud) setValue(cached); })
+      .catch(() => {});
+    if (!enabled) return;
+    return listenSetting(defRef.current, (cloud) => {
+      if (!cloud) return;
+      fromCloud = true;
+      setValue(cloud);
+      cacheSetting(defRef.current, cloud).catch(() => {});
+    });
+  }, [enabled]);
+
+  // Firestore applies the write locally at once but only resolves once the server has it,
+  // which never happens offline; the save counts as done once it is cached
+  const save = useCallback(async (next: T) => {
+    setValue(next);
+    await cacheSetting(defRef.current, next);
+    saveSettingCloud(defRef.current, next).catch((e) => {
+      console.error(`Cloud ${defRef.current.name} settings save failed`, e);
+      alert(`Saving ${defRef.current.name} settings to the cloud failed: ${e?.message || e}`);
+    });
+  }, []);
+
+  return [value, save];
+}
+
+// ===== Admin form drafts =====
+// Edit state seeded from a saved setting. A new saved value (e.g. a snapshot)
+// re-seeds it only while there are no unsaved edits; call `markSaved` after saving.
+function useDraft<T>(saved: T): [T, React.Dispatch<React.SetStateAction<T>>, () => void] {
+  const [draft, setDraft] = useState<T>(saved);
+  const [dirty, setDirty] = useState(false);
+  useEffect(() => {
+    if (!dirty) setDraft(saved);
+  }, [saved, dirty]);
+  const edit = useCallback((next: React.SetStateAction<T>) => {
+    setDirty(true);
+    setDraft(next);
+  }, []);
+  const markSaved = useCallback(() => setDirty(false), []);
+  return [draft, edit, markSaved];
+}
+
+// ===== Clock hook =====
+// Re-renders running timers; the value is epoch ms.
+function useNow(intervalMs: number): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+}
+
+// ===== Cloud outbox hook =====
+const OUTBOX_POLL_MS = 15000;
+
+// A payload that does not decode never will, so the outbox fails it at once instead of retrying
+function unwrapDecoded<T>(res: Decoded<T>): T {
+  if (!res.ok) throw Object.assign(new Error(res.error), { retryable: false });
+  return res.value;
+}
+
+// Queued payloads may predate the current schema; upgrade them before sending
+function sendOutboxEntry(entry: OutboxEntry) {
+  switch (entry.kind) {
+    case 'intake':
+      return saveIntakeCloud(unwrapDecoded(decodeIntake(migrateIntake(entry.payload))));
+    case 'repair':
+      return saveRepairCloud(unwrapDecoded(decodeRepair(migrateRepair(entry.payload))));
+    case 'holdReview':
+      return saveHoldReviewCloud(unwrapDecoded(decodeHoldReview(entry.payload)));
+    case 'unitEvent':
+      return saveUnitEventCloud(unwrapDecoded(decodeUnitEvent(entry.payload)));
+    case 'qcCheck':
+      return saveQcCheckCloud(unwrapDecoded(decodeQcCheck(entry.payload)));
+    case 'burnInSession':
+      return saveBurnInSessionCloud(unwrapDecoded(decodeBurnInSession(entry.payload)));
+    case 'stockMove':
+      return saveStockMoveCloud(unwrapDecoded(decodeStockMove(entry.payload)));
+    case 'harvest':
+      return saveHarvestCloud(unwrapDecoded(decodeHarvest(entry.payload)));
+    case 'flowSubmission':
+      return resubmitRepairViaFlow(entry.payload as RepairPayloadForFlow);
+  }
+}
+
+// Flushes only while signed in, and only the signed-in user's entries (see flushOutbox)
+function useOutbox(actor: Actor | null) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const actorRef = useRef(actor);
+  actorRef.current = actor;
+  const uid = actor?.uid;
+  // Snapshots are merged only once the queued keys are known, or unsynced rows would look deleted
+  const [ready, setReady] = useState(!hasIndexedDB());
+  // Mirrors for the snapshot listeners, which must not resubscribe on every outbox change
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const enqueuingRef = useRef<Set<string>>(new Set());
+
+  const refresh = useCallback(async () => {
+    try {
+      const list = await listOutbox();
+      entriesRef.current = list;
+      setEntries(list);
+    } catch {}
+    setReady(true);
+  }, []);
+
+  const flush = useCallback(async (force = false) => {
+    if (!hasIndexedDB()) return;
+    if (isBrowser && navigator.onLine === false) return;
+    if (!actorRef.current) return;
+    try { await flushOutbox(sendOutboxEntry, force, actorRef.current); } catch (e) { console.error('Outbox flush failed', e); }
+    await refresh();
+  }, [refresh]);
 
   useEffect(() => {
-    if (!isBrowser || !('indexedDB' in window)) return;
-    const req = indexedDB.open('RokuRepairDB', 1);
-    req.onsuccess = () => {
-      try {
-        const db = req.result;
-        const tx = db.transaction('data', 'readwrite');
-        tx.objectStore('data').put({ key, value: data });
-      } catch {}
+    if (!isBrowser) return;
+    refresh().then(() => flush());
+    const onOnline = () => { flush(true); };
+    window.addEventListener('online', onOnline);
+    const timer = window.setInterval(() => { flush(); }, OUTBOX_POLL_MS);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.clearInterval(timer);
     };
-  }, [data, key]);
+  }, [refresh, flush]);
+
+  // Entries held for this user go out as soon as they sign in
+  useEffect(() => {
+    if (uid) flush();
+  }, [uid, flush]);
+
+  // Write-ahead: queue first, then try to send, so a reload mid-save loses nothing
+  const queueSave = useCallback(async (kind: OutboxKind, payload: any) => {
+    if (!hasIndexedDB()) {
+      try { await sendOutboxEntry({ kind, payload } as OutboxEntry); } catch (e) { console.error(`Cloud ${kind} save failed`, e); }
+      return;
+    }
+    const key = recordKey(kind, payload);
+    enqueuingRef.current.add(key);
+    try {
+      await enqueue(kind, payload);
+      await refresh();
+    } finally {
+      enqueuingRef.current.delete(key);
+    }
+    await flush();
+  }, [refresh, flush]);
+
+  const isUnsynced = useCallback((kind: OutboxKind, rec: any) => {
+    const key = recordKey(kind, rec);
+    return enqueuingRef.current.has(key) || entriesRef.current.some((e) => e.key === key);
+  }, []);
+
+  const statusOf = useCallback((kind: OutboxKind, rec: any): SyncStatus => {
+    const key = recordKey(kind, rec);
+    const entry = entries.find((e) => e.key === key);
+    return entry ? entry.status : 'synced';
+  }, [entries]);
 
-  return [data, setData];
+  return { ready, queueSave, statusOf, isUnsynced, retry: () => flush(true) };
 }
 
 // ===== Utilities =====
@@ -316,9 +577,70 @@ function isRepairRecord(x: any): x is Repair {
   return x && typeof x === 'object' && 'failureCode' in x && 'disposition' in x;
 }
 
+// Codes render through the catalog so retired/custom ones still read correctly
+const failureText = (catalog: CodeCatalog, code: string) => describeCode(catalog.failureCodes, code);
+const actionsText = (catalog: CodeCatalog, actions: string[] = []) =>
+  actions.map((a) => describeCode(catalog.actionCodes, a)).join(', ');
+
+// Intakes render against the template version they were filled in
+const laborText = (r: Repair) => {
+  const labor = repairLabor(r);
+  return labor ? `${formatMinutes(labor.touchMinutes)} touch / ${formatMinutes(labor.wallMinutes)} wall` : null;
+};
+const intakeChecklist = (checklists: ChecklistTemplates, i: Intake) =>
+  checklistRows(templateFor(checklists, i.checklistVersion), i.checklist);
+
 // ===== PDF single/combined =====
-function downloadPDF(record: any) {
+type PdfImage = { dataUrl: string; width: number; height: number };
+
+// Evidence photos by checklist item; thumbnails are enough at PDF size. Unreadable ones (offline, CORS) are skipped.
+async function loadEvidence(i: Intake): Promise<Map<string, PdfImage[]>> {
+  const out = new Map<string, PdfImage[]>();
+  for (let idx = 0; idx < i.photos.length; idx++) {
+    const key = i.photoItems?.[idx];
+    if (!key) continue;
+    try {
+      const img = await loadImageData(thumbOf(i, idx));
+      out.set(key, [...(out.get(key) || []), img]);
+    } catch (err) {
+      console.warn(`Evidence photo ${idx + 1} of ${i.serial} left out of the PDF`, err);
+    }
+  }
+  return out;
+}
+
+const PDF_EVIDENCE_MM = 24;
+
+// A row of evidence photos under the current line, wrapping and breaking pages like line()
+function pdfImages(doc: jsPDF, images: PdfImage[] = []) {
+  if (!images.length) return;
+  const x0 = 16;
+  const h = PDF_EVIDENCE_MM;
+  let y = (doc as any)._cursorY || 20;
+  let x = x0;
+  const fit = () => {
+    if (y + h > 285) {
+      doc.addPage();
+      y = 10;
+    }
+  };
+  fit();
+  images.forEach((img) => {
+    const w = Math.min(h * 2, (h * img.width) / (img.height || 1));
+    if (x + w > 200) {
+      x = x0;
+      y += h + 3;
+      fit();
+    }
+    doc.addImage(img.dataUrl, img.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG', x, y - 3, w, h);
+    x += w + 3;
+  });
+  (doc as any)._cursorY = y + h + 4;
+}
+
+async function downloadPDF(record: any, catalog: CodeCatalog, checklists: ChecklistTemplates) {
   try {
+    const evidence = isIntakeRecord(record) ? await loadEvidence(record) : new Map<string, PdfImage[]>();
     const doc = new jsPDF();
     const line = (t: string, x = 10, y?: number) => {
       const c = (doc as any)._cursorY || 20;
@@ -341,24 +663,35 @@ function downloadPDF(record: any) {
     if (isIntakeRecord(record)) {
       const i = record as Intake;
       line('— Intake');
+      if (i.id) line(`Record ID: ${i.id}`);
       line(`Serial: ${i.serial}`);
       line(`Family/Model/Size: ${i.family} / ${i.model} / ${i.sizeIn}"`);
       line(`Return: ${i.returnSource} — ${i.returnReason}`);
       line(`Incoming condition: ${i.conditionIn}`);
       line(`Created: ${new Date(i.createdAt).toLocaleString()}`);
-      line('Checklist:');
-      Object.entries(i.checklist).forEach(([k, v]) => line(`  • ${k}: ${v}`));
+      if (i.createdBy) line(`Created by: ${i.createdBy.name}`);
+      line(`Checklist (template v${i.checklistVersion}):`);
+      intakeChecklist(checklists, i).forEach((row) => {
+        line(`  • ${row.label}: ${row.status || '—'}`);
+        pdfImages(doc, evidence.get(row.key));
+      });
       if (i.notes) line(`Notes: ${i.notes}`);
     } else if (isRepairRecord(record)) {
       const r = record as Repair;
       line('— Repair');
+      if (r.id) line(`Record ID: ${r.id}`);
       line(`Serial: ${r.serial}`);
-      line(`Failure: ${r.failureCode}`);
-      line(`Actions: ${(r.actions || []).join(', ')}`);
+      line(`Failure: ${failureText(catalog, r.failureCode)}`);
+      line(`Actions: ${actionsText(catalog, r.actions)}`);
       line(`Disposition: ${r.disposition}`);
+      if (r.parts.length) {
+        line('Parts:');
+        r.parts.forEach((p) => line(`  • ${partText(p)}`));
+      }
       if (r.technician) line(`Technician: ${r.technician}`);
       if (r.startAt) line(`Start: ${new Date(r.startAt).toLocaleString()}`);
       if (r.endAt) line(`End: ${new Date(r.endAt).toLocaleString()}`);
+      if (laborText(r)) line(`Labor: ${laborText(r)}`);
       if (r.notes) line(`Notes: ${r.notes}`);
     } else {
       line('Unknown record type');
@@ -371,8 +704,9 @@ function downloadPDF(record: any) {
   }
 }
 
-function downloadCombinedPDF(rec: CombinedRecord) {
+async function downloadCombinedPDF(rec: CombinedRecord, catalog: CodeCatalog, checklists: ChecklistTemplates) {
   try {
+    const evidence = rec.intake ? await loadEvidence(rec.intake) : new Map<string, PdfImage[]>();
     const doc = new jsPDF();
     const line = (t: string, x = 10, y?: number) => {
       const c = (doc as any)._cursorY || 20;
@@ -395,13 +729,18 @@ function downloadCombinedPDF(rec: CombinedRecord) {
     if (rec.intake) {
       const i = rec.intake;
       line('— Intake');
+      if (i.id) line(`Record ID: ${i.id}`);
       line(`Serial: ${i.serial}`);
       line(`Family/Model/Size: ${i.family} / ${i.model} / ${i.sizeIn}"`);
       line(`Return: ${i.returnSource} — ${i.returnReason}`);
       line(`Incoming condition: ${i.conditionIn}`);
       line(`Created: ${new Date(i.createdAt).toLocaleString()}`);
-      line('Checklist:');
-      Object.entries(i.checklist).forEach(([k, v]) => line(`  • ${k}: ${v}`));
+      if (i.createdBy) line(`Created by: ${i.createdBy.name}`);
+      line(`Checklist (template v${i.checklistVersion}):`);
+      intakeChecklist(checklists, i).forEach((row) => {
+        line(`  • ${row.label}: ${row.status || '—'}`);
+        pdfImages(doc, evidence.get(row.key));
+      });
       if (i.notes) line(`Notes: ${i.notes}`);
     } else {
       line('No intake record.');
@@ -411,12 +750,18 @@ function downloadCombinedPDF(rec: CombinedRecord) {
       rec.repairs.forEach((r, idx) => {
         doc.addPage();
         header(`Repair #${idx + 1}`);
+        if (r.id) line(`Record ID: ${r.id}`);
         line(`Serial: ${r.serial}`);
         line(`Start: ${new Date(r.startAt).toLocaleString()}`);
         if (r.endAt) line(`End: ${new Date(r.endAt).toLocaleString()}`);
-        line(`Failure: ${r.failureCode}`);
-        line(`Actions: ${(r.actions || []).join(', ')}`);
+        if (laborText(r)) line(`Labor: ${laborText(r)}`);
+        line(`Failure: ${failureText(catalog, r.failureCode)}`);
+        line(`Actions: ${actionsText(catalog, r.actions)}`);
         line(`Disposition: ${r.disposition}`);
+        if (r.parts.length) {
+          line('Parts:');
+          r.parts.forEach((p) => line(`  • ${partText(p)}`));
+        }
         if (r.technician) line(`Technician: ${r.technician}`);
         if (r.notes) line(`Notes: ${r.notes}`);
       });
@@ -426,6 +771,16 @@ function downloadCombinedPDF(rec: CombinedRecord) {
       line('No repairs recorded.');
     }
 
+    (rec.qcChecks || []).forEach((c, idx) => {
+      doc.addPage();
+      header(`QC #${idx + 1} – ${c.result}`);
+      if (c.id) line(`Record ID: ${c.id}`);
+      line(`Tested: ${new Date(c.createdAt).toLocaleString()} by ${c.createdBy.name}`);
+      line(`Burn-in: ${c.burnInMinutes} min`);
+      QC_STEPS.forEach((st) => line(`  • ${st.label}: ${c.steps[st.key]}`));
+      if (c.notes) line(`Notes: ${c.notes}`);
+    });
+
     doc.save(`${rec.serial}_combined.pdf`);
   } catch (err) {
     console.error(err);
@@ -439,12 +794,14 @@ function UiSelect({
   onChange,
   placeholder,
   options,
+  labels,
   required,
 }: {
   value: string;
   onChange: (v: string) => void;
   placeholder?: string;
   options: string[];
+  labels?: Record<string, string>;
   required?: boolean;
 }) {
   const showPlaceholder = placeholder && (value === '' || !options.includes(value));
@@ -458,7 +815,7 @@ function UiSelect({
       {placeholder ? <option value="" disabled>{placeholder}</option> : null}
       {options.map((opt) => (
         <option key={opt} value={opt}>
-          {opt}
+          {labels?.[opt] ?? opt}
         </option>
       ))}
     </select>
@@ -471,12 +828,16 @@ function UiCombo({
   options,
   placeholder,
   allowCustomLabel = 'Custom…',
+  labels,
+  normalize,
 }: {
   value: string;
   setValue: (v: string) => void;
   options: string[];
   placeholder?: string;
   allowCustomLabel?: string;
+  labels?: (opt: string) => string;
+  normalize?: (v: string) => string;
 }) {
   const [isCustom, setIsCustom] = useState<boolean>(() => value !== '' && !options.includes(value));
   useEffect(() => {
@@ -499,7 +860,7 @@ function UiCombo({
         {placeholder ? <option value="" disabled>{placeholder}</option> : null}
         {options.map((opt) => (
           <option key={opt} value={opt}>
-            {opt}
+            {labels ? labels(opt) : opt}
           </option>
         ))}
         <option value={CUSTOM}>{allowCustomLabel}</option>
@@ -509,6 +870,7 @@ function UiCombo({
           style={fieldStyle}
           value={value}
           onChange={(e) => setValue(e.target.value)}
+          onBlur={() => normalize && setValue(normalize(value))}
           placeholder="Type custom value"
         />
       )}
@@ -521,11 +883,15 @@ function UiMultiCombo({
   setValue,
   options,
   placeholder = 'Select actions…',
+  labels,
+  normalize,
 }: {
   value: string[];
   setValue: (v: string[]) => void;
   options: string[];
   placeholder?: string;
+  labels?: (opt: string) => string;
+  normalize?: (v: string) => string;
 }) {
   const CUSTOM = '__custom__';
   const available = options.filter((o) => !value.includes(o));
@@ -542,7 +908,7 @@ function UiMultiCombo({
     setChoice('');
   }
   function addCustom() {
-    const v = custom.trim();
+    const v = normalize ? normalize(custom) : custom.trim();
     if (!v) return;
     if (!value.includes(v)) setValue([...value, v]);
     setCustom('');
@@ -558,7 +924,7 @@ function UiMultiCombo({
         <option value="">{placeholder}</option>
         {available.map((opt) => (
           <option key={opt} value={opt}>
-            {opt}
+            {labels ? labels(opt) : opt}
           </option>
         ))}
         <option value={CUSTOM}>Custom…</option>
@@ -579,7 +945,7 @@ function UiMultiCombo({
       {value.length > 0 && (
         <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
           {value.map((v) => (
-            <span key={v} style={{ ...chip, display: 'inline-flex', alignItems: 'center', gap: 6 }}>
+            <span key={v} title={labels ? labels(v) : undefined} style={{ ...chip, display: 'inline-flex', alignItems: 'center', gap: 6 }}>
               {v}
               <button type="button" onClick={() => remove(v)} style={{ ...btnGhost, padding: '2px 6px' }}>
                 ×
@@ -600,6 +966,29 @@ function KpiCard({ label, value }: { label: string; value: string | number }) {
     </div>
   );
 }
+const SYNC_COLORS: Record<SyncStatus, string> = {
+  pending: '#F2C94C',
+  synced: '#BFE5C8',
+  failed: '#F4B4B4',
+};
+function SyncBadge({ status }: { status: SyncStatus }) {
+  return <span style={{ ...chip, background: SYNC_COLORS[status] }}>{status}</span>;
+}
+const UNIT_STATUS_COLORS: Record<UnitStatus, string> = {
+  Received: '#E0E0E0',
+  Hold: '#F4B4B4',
+  'In Repair': '#F2C94C',
+  QC: '#D9C2EC',
+  Repaired: '#BFE5C8',
+  Scrap: '#9E9E9E',
+  NTF: '#BBDEFB',
+  BER: '#FFCC80',
+  Shipped: '#8FD19E',
+};
+function UnitChip({ status }: { status: UnitStatus | null | undefined }) {
+  if (!status) return null;
+  return <span style={{ ...chip, background: UNIT_STATUS_COLORS[status], whiteSpace: 'nowrap' }}>{status}</span>;
+}
 function smallBar(value: number, max: number) {
   const pct = max ? Math.round((value / max) * 100) : 0;
   return (
@@ -609,70 +998,410 @@ function smallBar(value: number, max: number) {
   );
 }
 
-function PhotoPicker({ onPick }: { onPick: (dataUrl: string) => void }) {
+// Phones and tablets get the native camera (capture attribute); desktops with a webcam a live preview
+const hasLiveCamera = () =>
+  isBrowser && !!navigator.mediaDevices?.getUserMedia && !window.matchMedia?.('(pointer: coarse)').matches;
+
+// Photos are resized, turned upright and stripped of EXIF (GPS) before they reach form state
+function PhotoPicker({
+  settings,
+  onPick,
+  compact,
+}: {
+  settings: PhotoSettings;
+  onPick: (photo: PreparedPhoto) => void;
+  compact?: boolean;
+}) {
+  const [busy, setBusy] = useState(false);
+  const [camera, setCamera] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const captureRef = useRef<HTMLInputElement>(null);
+  async function add(photo: Blob, name: string) {
+    setBusy(true);
+    try {
+      onPick(await preparePhoto(photo, settings));
+    } catch (err: any) {
+      alert(`Could not add ${name}: ${err?.message || err}`);
+    } finally {
+      setBusy(false);
+    }
+  }
   function onChange(e: React.ChangeEvent<HTMLInputElement>) {
     const f = e.target.files?.[0];
-    if (!f) return;
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (typeof reader.result === 'string') onPick(reader.result);
-    };
-    reader.readAsDataURL(f);
     e.currentTarget.value = '';
+    if (f) add(f, f.name);
+  }
+  const btn: React.CSSProperties = compact ? { ...btnGhost, padding: '4px 8px' } : btnGhost;
+  return (
+    <span style={{ display: 'inline-flex', gap: 6, alignItems: 'center' }}>
+      <input ref={fileRef} type="file" accept="image/*" style={{ display: 'none' }} onChange={onChange} />
+      <input ref={captureRef} type="file" accept="image/*" capture="environment" style={{ display: 'none' }} onChange={onChange} />
+      <button
+        type="button"
+        style={btn}
+        disabled={busy}
+        onClick={() => (hasLiveCamera() ? setCamera(true) : captureRef.current?.click())}
+      >
+        📷 {compact ? 'Take photo' : 'Camera'}
+      </button>
+      <button type="button" style={btn} disabled={busy} onClick={() => fileRef.current?.click()}>
+        {busy ? 'Processing…' : compact ? 'Upload' : 'Upload photo'}
+      </button>
+      {camera && (
+        <CameraCapture
+          onClose={() => setCamera(false)}
+          onCapture={(photo) => {
+            setCamera(false);
+            add(photo, 'camera photo');
+          }}
+        />
+      )}
+    </span>
+  );
+}
+
+function CameraCapture({ onCapture, onClose }: { onCapture: (photo: Blob) => void; onClose: () => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let closed = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then((s) => {
+        if (closed) return s.getTracks().forEach((t) => t.stop());
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          videoRef.current.play().catch(() => {});
+        }
+      })
+      .catch((e) => setError(`Camera unavailable: ${e?.message || e}`));
+    return () => {
+      closed = true;
+      stream?.getTracks().forEach((t) => t.stop());
+    };
+  }, []);
+
+  function snap() {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    // Full quality here; preparePhoto resizes and re-encodes
+    canvas.toBlob((b) => (b ? onCapture(b) : setError('Could not capture the frame')), 'image/jpeg', 0.95);
+  }
+
+  return (
+    <div
+      style={{
+        position: 'fixed', inset: 0, zIndex: 50, background: 'rgba(0,0,0,0.85)',
+        display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: 12,
+      }}
+    >
+      {error ? (
+        <div style={{ color: '#fff' }}>{error}</div>
+      ) : (
+        <video ref={videoRef} playsInline muted style={{ maxWidth: '90vw', maxHeight: '75vh', borderRadius: 12 }} />
+      )}
+      <div style={{ display: 'flex', gap: 8 }}>
+        {!error && (
+          <button type="button" style={btnStyle} onClick={snap}>
+            Take photo
+          </button>
+        )}
+        <button type="button" style={btnGhost} onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Thumbnails of some of a record's photos, each linking to the photo as shown
+ * (annotated copy first). In forms onOpen opens the annotation editor instead
+ * and onRemove adds a remove button.
+ */
+function PhotoThumbs({
+  record,
+  indexes,
+  size = 48,
+  onRemove,
+  onOpen,
+}: {
+  record: { photos: string[]; thumbs?: string[]; annotated?: string[] };
+  indexes: number[];
+  size?: number;
+  onRemove?: (idx: number) => void;
+  onOpen?: (idx: number) => void;
+}) {
+  return (
+    <span style={{ display: 'inline-flex', gap: 6, flexWrap: 'wrap', verticalAlign: 'middle' }}>
+      {indexes.map((idx) => (
+        <span key={idx} style={{ position: 'relative' }}>
+          {onOpen ? (
+            <img
+              src={thumbOf(record, idx)}
+              alt={`#${idx + 1}`}
+              title="Annotate"
+              onClick={() => onOpen(idx)}
+              style={{ width: size, height: size, objectFit: 'cover', borderRadius: 6, border: `1px solid ${theme.border}`, cursor: 'pointer' }}
+            />
+          ) : (
+            <a href={shownOf(record, idx)} target="_blank" rel="noreferrer">
+              <img
+                src={thumbOf(record, idx)}
+                alt={`#${idx + 1}`}
+                style={{ width: size, height: size, objectFit: 'cover', borderRadius: 6, border: `1px solid ${theme.border}` }}
+              />
+            </a>
+          )}
+          {isAnnotated(record, idx) && <AnnotatedBadge />}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(idx)}
+              title="Remove"
+              style={{
+                position: 'absolute', top: -6, right: -6, width: 16, height: 16, padding: 0, fontSize: 11,
+                borderRadius: 999, border: 'none', background: '#d00', color: '#fff', cursor: 'pointer', fontWeight: 800
+              }}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+const AnnotatedBadge = () => (
+  <span
+    title="Annotated"
+    style={{ position: 'absolute', left: 2, bottom: 2, ...chip, padding: '0 4px', fontSize: 10, background: '#FFEA00', pointerEvents: 'none' }}
+  >
+    ✎
+  </span>
+);
+
+// ===== Photo annotation =====
+// Marks are kept in image pixels; the preview canvas shows the photo scaled to fit the screen
+function PhotoAnnotator({
+  original,
+  current,
+  settings,
+  onSave,
+  onClose,
+}: {
+  original: string;
+  current: string;             // annotated copy when there is one, so new marks add to the old ones
+  settings: PhotoSettings;
+  onSave: (copy: PreparedPhoto | null, originalThumb?: string) => void;
+  onClose: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [img, setImg] = useState<HTMLImageElement | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [shapes, setShapes] = useState<Annotation[]>([]);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const i = new Image();
+    i.onload = () => setImg(i);
+    i.onerror = () => alert('Could not open the photo');
+    i.src = current;
+  }, [current]);
+
+  const scale = img
+    ? Math.min(1, (window.innerWidth * 0.9) / img.naturalWidth, (window.innerHeight * 0.7) / img.naturalHeight)
+    : 1;
+  const lineWidth = img ? strokeWidth(img.naturalWidth, img.naturalHeight) : 3;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !img) return;
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.drawImage(img, 0, 0);
+    (draft ? [...shapes, draft] : shapes).forEach((a) => drawAnnotation(ctx, a, lineWidth));
+  }, [img, scale, lineWidth, shapes, draft]);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const r = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - r.left) / scale, y: (e.clientY - r.top) / scale };
+  };
+  function onDown(e: React.PointerEvent<HTMLCanvasElement>) {
+    const at = pointAt(e);
+    if (tool === 'text') {
+      const text = window.prompt('Label')?.trim();
+      if (text) setShapes((prev) => [...prev, { kind: 'text', at, text, color }]);
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === 'freehand' ? { kind: 'freehand', points: [at], color } : { kind: tool, from: at, to: at, color });
+  }
+  function onMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (!draft) return;
+    const p = pointAt(e);
+    setDraft((d) => (!d || d.kind === 'text' ? d : d.kind === 'freehand' ? { ...d, points: [...d.points, p] } : { ...d, to: p }));
+  }
+  function onUp() {
+    if (draft && isMeaningful(draft, lineWidth)) setShapes((prev) => [...prev, draft]);
+    setDraft(null);
+  }
+
+  const blobOf = async (src: string) => (src.startsWith('data:') ? dataUrlToBlob(src) : (await fetch(src)).blob());
+
+  async function save() {
+    if (!shapes.length) return onClose();
+    setSaving(true);
+    try {
+      const flat = await drawOnImage(await blobOf(current), (ctx) => shapes.forEach((a) => drawAnnotation(ctx, a, lineWidth)), settings.quality);
+      onSave({ photo: await blobToDataUrl(flat), thumb: await thumbnailOf(flat, settings) });
+    } catch (e: any) {
+      alert(`Saving the annotation failed: ${e?.message || e}`);
+      setSaving(false);
+    }
+  }
+  async function removeMarks() {
+    setSaving(true);
+    try {
+      onSave(null, await thumbnailOf(await blobOf(original), settings));
+    } catch (e: any) {
+      alert(`Removing the annotation failed: ${e?.message || e}`);
+      setSaving(false);
+    }
   }
-  return <input type="file" accept="image/*" onChange={onChange} />;
+
+  const toolLabels: Record<AnnotationTool, string> = { arrow: '➜ Arrow', circle: '◯ Circle', freehand: '✎ Draw', text: 'T Text' };
+  const toolBtn = (active: boolean): React.CSSProperties => ({
+    ...btnGhost,
+    padding: '4px 10px',
+    background: active ? theme.chipBg : '#fff',
+    borderColor: active ? theme.primary : theme.border,
+  });
+  return (
+    <div
+      style={{
+        position: 'fixed', inset: 0, zIndex: 50, background: 'rgba(0,0,0,0.85)',
+        display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', gap: 12,
+      }}
+    >
+      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {ANNOTATION_TOOLS.map((t) => (
+          <button key={t} type="button" style={toolBtn(tool === t)} onClick={() => setTool(t)}>
+            {toolLabels[t]}
+          </button>
+        ))}
+        {ANNOTATION_COLORS.map((c) => (
+          <button
+            key={c}
+            type="button"
+            title={c}
+            onClick={() => setColor(c)}
+            style={{
+              width: 28, height: 28, borderRadius: 999, background: c, cursor: 'pointer',
+              border: color === c ? `3px solid ${theme.primary}` : '1px solid #888',
+            }}
+          />
+        ))}
+        <button type="button" style={toolBtn(false)} disabled={!shapes.length} onClick={() => setShapes((prev) => prev.slice(0, -1))}>
+          Undo
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        onPointerDown={onDown}
+        onPointerMove={onMove}
+        onPointerUp={onUp}
+        onPointerCancel={onUp}
+        style={{ touchAction: 'none', cursor: tool === 'text' ? 'text' : 'crosshair', borderRadius: 8, background: '#222' }}
+      />
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button type="button" style={btnStyle} disabled={saving || !img} onClick={save}>
+          {saving ? 'Saving…' : 'Save annotated copy'}
+        </button>
+        {current !== original && (
+          <button type="button" style={btnGhost} disabled={saving} onClick={removeMarks}>
+            Remove all marks
+          </button>
+        )}
+        <button type="button" style={btnGhost} disabled={saving} onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+      <div style={{ color: '#ddd', fontSize: 12 }}>The original photo is kept; the annotated copy is saved alongside it.</div>
+    </div>
+  );
 }
 
 // ===== Record viewers =====
-function RecordViewer({ record }: { record: any }) {
+function RecordViewer({
+  record,
+  catalog,
+  checklists,
+  unitStatus,
+}: {
+  record: any;
+  catalog: CodeCatalog;
+  checklists: ChecklistTemplates;
+  unitStatus?: UnitStatus | null;
+}) {
   if (isIntakeRecord(record)) {
     const i = record as Intake;
     return (
       <div>
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Intake</div>
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
-          <div><b>Serial:</b> {i.serial}</div>
+          <div><b>Serial:</b> {i.serial} <UnitChip status={unitStatus} /></div>
           <div><b>Created:</b> {new Date(i.createdAt).toLocaleString()}</div>
+          {i.id ? <div style={{ gridColumn: '1 / -1' }}><b>Record ID:</b> {i.id}</div> : null}
           <div><b>Family:</b> {i.family}</div>
           <div><b>Model:</b> {i.model}</div>
           <div><b>Size:</b> {i.sizeIn}"</div>
           <div><b>Return:</b> {i.returnSource} — {i.returnReason}</div>
           <div><b>Incoming condition:</b> {i.conditionIn}</div>
           {i.mac ? <div><b>MAC:</b> {i.mac}</div> : null}
+          {i.createdBy ? <div><b>Created by:</b> {i.createdBy.name}</div> : null}
         </div>
         <div style={{ marginTop: 12 }}>
-          <div style={{ fontWeight: 600, marginBottom: 6 }}>Checklist</div>
+          <div style={{ fontWeight: 600, marginBottom: 6 }}>
+            Checklist <span style={{ fontWeight: 400, fontSize: 12, color: theme.subtext }}>template v{i.checklistVersion}</span>
+          </div>
           <table style={{ width: '100%', borderCollapse: 'collapse' }}>
             <thead>
               <tr>
                 <th style={{ textAlign: 'left', padding: 6 }}>Item</th>
                 <th style={{ textAlign: 'left', padding: 6 }}>Status</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Evidence</th>
               </tr>
             </thead>
             <tbody>
-              {Object.entries(i.checklist).map(([k, v]) => (
-                <tr key={k}>
-                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{k.replace(/_/g, ' ')}</td>
-                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{v}</td>
+              {intakeChecklist(checklists, i).map((row) => (
+                <tr key={row.key}>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{row.label}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{row.status || '—'}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>
+                    <PhotoThumbs record={i} indexes={photoIndexesFor(i, row.key)} />
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
         </div>
         {i.notes ? <div style={{ marginTop: 12 }}><b>Notes:</b> {i.notes}</div> : null}
-        {i.photos?.length ? (
+        {photoIndexesFor(i, '').length ? (
           <div style={{ marginTop: 12 }}>
             <div style={{ fontWeight: 600, marginBottom: 6 }}>Photos</div>
-            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-              {i.photos.map((p, idx) => (
-                <img
-                  key={idx}
-                  src={p}
-                  alt={`i${idx}`}
-                  style={{ width: 96, height: 96, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}` }}
-                />
-              ))}
-            </div>
+            <PhotoThumbs record={i} indexes={photoIndexesFor(i, '')} size={96} />
           </div>
         ) : null}
       </div>
@@ -684,28 +1413,51 @@ function RecordViewer({ record }: { record: any }) {
       <div>
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Repair</div>
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
-          <div><b>Serial:</b> {r.serial}</div>
+          <div><b>Serial:</b> {r.serial} <UnitChip status={unitStatus} /></div>
           <div><b>Start:</b> {new Date(r.startAt).toLocaleString()}</div>
+          {r.id ? <div style={{ gridColumn: '1 / -1' }}><b>Record ID:</b> {r.id}</div> : null}
           {r.endAt ? <div><b>End:</b> {new Date(r.endAt).toLocaleString()}</div> : null}
-          <div><b>Failure:</b> {r.failureCode}</div>
-          <div><b>Actions:</b> {r.actions.join(', ')}</div>
+          {laborText(r) ? <div><b>Labor:</b> {laborText(r)}</div> : null}
+          <div><b>Failure:</b> {failureText(catalog, r.failureCode)}</div>
+          <div><b>Actions:</b> {actionsText(catalog, r.actions)}</div>
           <div><b>Disposition:</b> {r.disposition}</div>
           {r.technician ? <div><b>Technician:</b> {r.technician}</div> : null}
         </div>
+        {r.parts.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ fontWeight: 600, marginBottom: 6 }}>Parts</div>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+              <thead>
+                <tr>
+                  <th style={{ textAlign: 'left', padding: 4 }}>Part #</th>
+                  <th style={{ textAlign: 'left', padding: 4 }}>Description</th>
+                  <th style={{ textAlign: 'left', padding: 4 }}>Qty</th>
+                  <th style={{ textAlign: 'left', padding: 4 }}>Source</th>
+                  <th style={{ textAlign: 'left', padding: 4 }}>Removed board S/N</th>
+                </tr>
+              </thead>
+              <tbody>
+                {r.parts.map((p, idx) => (
+                  <tr key={idx}>
+                    <td style={{ padding: 4, borderTop: `1px solid ${theme.border}` }}>{p.partNumber}</td>
+                    <td style={{ padding: 4, borderTop: `1px solid ${theme.border}` }}>{p.description || '—'}</td>
+                    <td style={{ padding: 4, borderTop: `1px solid ${theme.border}` }}>{p.qty}</td>
+                    <td style={{ padding: 4, borderTop: `1px solid ${theme.border}` }}>
+                      {p.source}
+                      {p.harvestTag ? ` – ${p.harvestTag}${p.donorSerial ? ` from ${p.donorSerial}` : ''}` : ''}
+                    </td>
+                    <td style={{ padding: 4, borderTop: `1px solid ${theme.border}` }}>{p.removedSerial || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
         {r.notes ? <div style={{ marginTop: 12 }}><b>Notes:</b> {r.notes}</div> : null}
         {r.photos?.length ? (
           <div style={{ marginTop: 12 }}>
             <div style={{ fontWeight: 600, marginBottom: 6 }}>Photos</div>
-            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-              {r.photos.map((p, idx) => (
-                <img
-                  key={idx}
-                  src={p}
-                  alt={`r${idx}`}
-                  style={{ width: 96, height: 96, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}` }}
-                />
-              ))}
-            </div>
+            <PhotoThumbs record={r} indexes={r.photos.map((_, idx) => idx)} size={96} />
           </div>
         ) : null}
       </div>
@@ -714,13 +1466,23 @@ function RecordViewer({ record }: { record: any }) {
   return <div>Unknown record type</div>;
 }
 
-function CombinedViewer({ rec }: { rec: CombinedRecord }) {
+function CombinedViewer({
+  rec,
+  catalog,
+  checklists,
+  unitStatus,
+}: {
+  rec: CombinedRecord;
+  catalog: CodeCatalog;
+  checklists: ChecklistTemplates;
+  unitStatus?: UnitStatus | null;
+}) {
   return (
     <div style={{ display: 'grid', gap: 12 }}>
       {rec.intake ? (
         <div style={card}>
           <div style={{ fontWeight: 600, marginBottom: 8 }}>Intake</div>
-          <RecordViewer record={rec.intake} />
+          <RecordViewer record={rec.intake} catalog={catalog} checklists={checklists} unitStatus={unitStatus} />
         </div>
       ) : (
         <div style={{ ...card, color: theme.subtext, fontSize: 12 }}>No intake record stored for this serial.</div>
@@ -730,29 +1492,74 @@ function CombinedViewer({ rec }: { rec: CombinedRecord }) {
         ? rec.repairs
             .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime())
             .map((r, idx) => (
-              <div key={idx} style={card}>
+              <div key={r.id || idx} style={card}>
                 <div style={{ fontWeight: 600, marginBottom: 8 }}>Repair #{idx + 1}</div>
-                <RecordViewer record={r} />
+                <RecordViewer record={r} catalog={catalog} checklists={checklists} unitStatus={unitStatus} />
               </div>
             ))
         : <div style={{ ...card, color: theme.subtext, fontSize: 12 }}>No repairs recorded yet.</div>}
+
+      {(rec.qcChecks || []).map((c, idx) => (
+        <div key={c.id} style={card}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>QC #{idx + 1}</div>
+          <QcCheckViewer check={c} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function QcCheckViewer({ check }: { check: QcCheck }) {
+  return (
+    <div style={{ fontSize: 13 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+        <div><b>Result:</b> <span style={{ color: check.result === 'Pass' ? '#0a7a32' : '#c00', fontWeight: 600 }}>{check.result}</span></div>
+        <div><b>Tested:</b> {new Date(check.createdAt).toLocaleString()} by {check.createdBy.name}</div>
+        <div><b>Burn-in:</b> {check.burnInMinutes} min</div>
+        <div style={{ fontSize: 11, color: theme.subtext }}>ID: {check.id}</div>
+      </div>
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+        <tbody>
+          {QC_STEPS.map((st) => (
+            <tr key={st.key}>
+              <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{st.label}</td>
+              <td style={{ padding: 6, borderTop: `1px solid ${theme.border}`, color: check.steps[st.key] === 'Pass' ? undefined : '#c00' }}>
+                {check.steps[st.key]}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {check.notes ? <div style={{ marginTop: 8 }}><b>Notes:</b> {check.notes}</div> : null}
     </div>
   );
 }
 
 // ===== Intake Form =====
 function IntakeForm({
+  actor,
   onSaved,
   sizes,
   sources,
   reasons,
+  template,
+  blockerRules,
+  unitStatusOf,
+  photoSettings,
 }: {
+  actor: Actor;
   onSaved: (intake: Intake) => void;
   sizes: number[];
   sources: string[];
   reasons: string[];
+  template: ChecklistTemplate;
+  blockerRules: BlockerRules;
+  unitStatusOf: (serial: string) => UnitStatus | null;
+  photoSettings: PhotoSettings;
 }) {
-  const [v, setV] = useState<Intake>({
+  const [v, setV] = useState<Intake>(() => ({
+    id: newRecordId(),
+    schemaVersion: SCHEMA_VERSION,
     serial: '',
     family: '',
     model: '',
@@ -762,50 +1569,51 @@ function IntakeForm({
     returnReason: '',
     conditionIn: '',
     notes: '',
-    checklist: {
-      labels_match: 'Pass',
-      safety_ok: 'Pass',
-      ports_intact: 'Pass',
-      power_symptom: 'Pass',
-      esd_ok: 'Pass',
-      cosmetic_backcover: 'Pass',
-      cosmetic_screen: 'Pass',
-      cosmetic_bezel: 'Pass',
-      cosmetic_base: 'Pass',
-      accessory_remote: 'Pass',
-      accessory_stand: 'Pass',
-      accessory_powercord: 'Pass',
-      accessory_screws: 'Pass',
-    },
+    checklist: initialChecklist(template),
+    checklistVersion: template.version,
     photos: [],
+    thumbs: [],
+    photoItems: [],
     createdAt: new Date().toISOString(),
-  });
+  }));
+  // A newly published template replaces the items; answers to surviving items are kept
+  useEffect(() => {
+    setV((prev) =>
+      prev.checklistVersion === template.version
+        ? prev
+        : { ...prev, checklist: initialChecklist(template, prev.checklist), checklistVersion: template.version }
+    );
+  }, [template]);
   const [openHelp, setOpenHelp] = useState<Record<string, boolean>>({});
   const [saving, setSaving] = useState(false);
   const toggleHelp = (k: string) => setOpenHelp((prev) => ({ ...prev, [k]: !prev[k] }));
   const set = <K extends keyof Intake>(k: K, val: Intake[K]) => setV((prev) => ({ ...prev, [k]: val }));
-  const setC = <K extends keyof Intake['checklist']>(
-    k: K,
-    val: Intake['checklist'][K]
-  ) => setV((prev) => ({ ...prev, checklist: { ...prev.checklist, [k]: val } }));
-
-  const blockers =
-    v.checklist.labels_match === 'Fail' ||
-    v.checklist.safety_ok === 'Fail' ||
-    v.checklist.ports_intact === 'Fail' ||
-    v.checklist.power_symptom === 'Fail' ||
-    v.checklist.esd_ok === 'Fail';
+  const setC = (k: string, val: ChecklistStatus) =>
+    setV((prev) => ({ ...prev, checklist: { ...prev.checklist, [k]: val } }));
+
+  const hold = evaluateHold(blockerRules, v.checklist);
+  const holdItems = hold.hits
+    .map((h) => `${template.items.find((i) => i.key === h.itemKey)?.label || h.itemKey}: ${h.status}`)
+    .join(', ');
+  const unitStatus = v.serial.trim() ? unitStatusOf(v.serial.trim()) : null;
+  const refused = intakeRefusal(unitStatus);
+  const missing = missingEvidence(template, v.checklist, v.photoItems);
+  const [annotating, setAnnotating] = useState<number | null>(null);
 
   function onSubmit(e: React.FormEvent) {
     e.preventDefault();
+    if (refused) return alert(`Intake refused for ${v.serial}: ${refused}`);
+    if (missing.length) return alert(`Photo evidence required for: ${missing.map((i) => i.label).join(', ')}`);
     setSaving(true);
     try {
       const sizeInNormalized: Intake['sizeIn'] =
         v.sizeIn === '' ? ('' as const) : Number(v.sizeIn);
-      const payload: Intake = { ...v, sizeIn: sizeInNormalized };
+      const payload: Intake = { ...v, serial: v.serial.trim(), sizeIn: sizeInNormalized, createdBy: actor, hold };
       onSaved(payload);
-      alert(blockers ? 'Repair blocked: Hold – QE Review' : 'Intake saved. Proceed to Repair.');
+      alert(hold.held ? `Repair blocked: ${HOLD_LABEL} (${holdItems})` : 'Intake saved. Proceed to Repair.');
       setV({
+        id: newRecordId(),
+        schemaVersion: SCHEMA_VERSION,
         serial: '',
         family: '',
         model: '',
@@ -816,7 +1624,10 @@ function IntakeForm({
         conditionIn: '',
         notes: '',
         checklist: { ...v.checklist },
+        checklistVersion: v.checklistVersion,
         photos: [],
+        thumbs: [],
+        photoItems: [],
         createdAt: new Date().toISOString(),
       });
     } finally {
@@ -824,24 +1635,8 @@ function IntakeForm({
     }
   }
 
-  const checklistItems = [
-    ['labels_match', 'Labels match'],
-    ['safety_ok', 'Safety OK'],
-    ['ports_intact', 'Ports intact'],
-    ['power_symptom', 'Power symptom reproduced'],
-    ['esd_ok', 'ESD setup OK'],
-    ['cosmetic_backcover', 'Cosmetic – Back cover'],
-    ['cosmetic_screen', 'Cosmetic – Screen'],
-    ['cosmetic_bezel', 'Cosmetic – Bezel'],
-    ['cosmetic_base', 'Cosmetic – Base / Stand'],
-    ['accessory_remote', 'Accessory – Remote'],
-    ['accessory_stand', 'Accessory – Stand parts'],
-    ['accessory_powercord', 'Accessory – Power cord'],
-    ['accessory_screws', 'Accessory – Screws'],
-  ] as const;
-
   function removePhoto(idx: number) {
-    setV(prev => ({ ...prev, photos: prev.photos.filter((_, i) => i !== idx) }));
+    setV(prev => removePhotoAt(prev, idx));
   }
 
   return (
@@ -850,6 +1645,11 @@ function IntakeForm({
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Identification</div>
         <label style={{ fontSize: 12, color: theme.subtext }}>Serial Number</label>
         <input style={fieldStyle} value={v.serial} onChange={(e) => set('serial', e.target.value)} required />
+        {unitStatus && (
+          <div style={{ fontSize: 12, marginBottom: 8, color: refused ? '#c00' : theme.subtext }}>
+            Known unit: <UnitChip status={unitStatus} /> {refused ? `— ${refused}` : ''}
+          </div>
+        )}
         <label style={{ fontSize: 12, color: theme.subtext }}>Family</label>
         <input
           style={fieldStyle}
@@ -865,15 +1665,15 @@ function IntakeForm({
           value={String(v.sizeIn)}
           onChange={(val) => set('sizeIn', val === '' ? '' : (Number(val) as any))}
           placeholder="Select size…"
-          options={DEFAULT_TV_SIZES.map((s) => String(s))}
+          options={sizes.map((s) => String(s))}
           required
         />
         <label style={{ fontSize: 12, color: theme.subtext }}>MAC (optional)</label>
         <input style={fieldStyle} value={v.mac} onChange={(e) => set('mac', e.target.value)} placeholder="e.g., AA:BB:CC:DD:EE:FF" />
         <label style={{ fontSize: 12, color: theme.subtext }}>Return Source</label>
-        <UiCombo value={v.returnSource} setValue={(val) => set('returnSource', val)} options={DEFAULT_RETURN_SOURCE_SUGGESTIONS} placeholder="Select return source…" />
+        <UiCombo value={v.returnSource} setValue={(val) => set('returnSource', val)} options={sources} placeholder="Select return source…" />
         <label style={{ fontSize: 12, color: theme.subtext }}>Return Reason</label>
-        <UiCombo value={v.returnReason} setValue={(val) => set('returnReason', val)} options={DEFAULT_RETURN_REASON_SUGGESTIONS} placeholder="Select return reason…" />
+        <UiCombo value={v.returnReason} setValue={(val) => set('returnReason', val)} options={reasons} placeholder="Select return reason…" />
         <label style={{ fontSize: 12, color: theme.subtext }}>Incoming Condition</label>
         <UiSelect
           value={v.conditionIn}
@@ -888,24 +1688,31 @@ function IntakeForm({
 
       <div style={card}>
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Pre-Repair Checklist</div>
-        {checklistItems.map(([k, label]) => (
+        {activeItems(template).map(({ key: k, label, title, bullets, statuses }) => (
           <div key={k} style={{ marginBottom: 12 }}>
             <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
               <div style={{ width: 260, fontSize: 12, color: theme.text }}>{label}</div>
               <UiSelect
-                value={String(v.checklist[k])}
-                onChange={(val) => setC(k as any, val as any)}
-                options={['Pass', 'Conditional', 'Fail', 'N/A']}
+                value={String(v.checklist[k] ?? '')}
+                onChange={(val) => setC(k, val as ChecklistStatus)}
+                options={statuses}
               />
               <button type="button" onClick={() => toggleHelp(k)} style={{ ...btnGhost, padding: '4px 8px' }}>
                 {openHelp[k] ? 'Hide criteria' : 'View criteria'}
               </button>
             </div>
+            {(needsEvidence(v.checklist[k]) || photoIndexesFor(v, k).length > 0) && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 6, marginLeft: 268, flexWrap: 'wrap' }}>
+                <PhotoPicker compact settings={photoSettings} onPick={(p) => setV((prev) => addPhoto(prev, p, k))} />
+                <PhotoThumbs record={v} indexes={photoIndexesFor(v, k)} onRemove={removePhoto} onOpen={setAnnotating} />
+                {missing.some((i) => i.key === k) && <span style={{ fontSize: 12, color: '#c00' }}>Photo required</span>}
+              </div>
+            )}
             {openHelp[k] && (
               <div style={{ marginTop: 6, background: '#FFF', border: `1px dashed ${theme.border}`, padding: 8, borderRadius: 8 }}>
-                <div style={{ fontWeight: 600, marginBottom: 4 }}>{CRITERIA[k]?.title || label}</div>
+                <div style={{ fontWeight: 600, marginBottom: 4 }}>{title || label}</div>
                 <ul style={{ margin: 0, paddingLeft: 18 }}>
-                  {(CRITERIA[k]?.bullets || ['Define criteria']).map((b, i) => (
+                  {(bullets.length ? bullets : ['Define criteria']).map((b, i) => (
                     <li key={i} style={{ marginBottom: 4, fontSize: 12 }}>
                       {b}
                     </li>
@@ -917,17 +1724,20 @@ function IntakeForm({
         ))}
         <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
           <div style={{ fontWeight: 600 }}>Photos</div>
-          <div style={{ fontSize: 12, color: theme.subtext }}>{v.photos.length}</div>
+          <div style={{ fontSize: 12, color: theme.subtext }}>{photoIndexesFor(v, '').length}</div>
         </div>
         <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
-          <PhotoPicker onPick={(d) => setV((prev) => ({ ...prev, photos: [...prev.photos, d] }))} />
-          {v.photos.map((p, i) => (
+          <PhotoPicker settings={photoSettings} onPick={(p) => setV((prev) => addPhoto(prev, p))} />
+          {photoIndexesFor(v, '').map((i) => (
             <div key={i} style={{ position: 'relative' }}>
               <img
-                src={p}
+                src={thumbOf(v, i)}
                 alt={`p${i}`}
-                style={{ width: 72, height: 72, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}` }}
+                title="Annotate"
+                onClick={() => setAnnotating(i)}
+                style={{ width: 72, height: 72, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}`, cursor: 'pointer' }}
               />
+              {isAnnotated(v, i) && <AnnotatedBadge />}
               <button
                 type="button"
                 onClick={() => removePhoto(i)}
@@ -942,153 +1752,613 @@ function IntakeForm({
             </div>
           ))}
         </div>
+        {annotating !== null && v.photos[annotating] && (
+          <PhotoAnnotator
+            original={v.photos[annotating]}
+            current={shownOf(v, annotating)}
+            settings={photoSettings}
+            onClose={() => setAnnotating(null)}
+            onSave={(copy, originalThumb) => {
+              const idx = annotating;
+              setV((prev) => setAnnotated(prev, idx, copy, originalThumb));
+              setAnnotating(null);
+            }}
+          />
+        )}
       </div>
 
       <div style={{ display: 'flex', gap: 8 }}>
-        <button disabled={saving} style={btnStyle}>{saving ? 'Saving…' : 'Save Intake & Continue'}</button>
-        {blockers && <span style={{ fontSize: 12, color: '#c00', alignSelf: 'center' }}>Repair will be blocked (Hold – QE Review)</span>}
+        <button disabled={saving || !!refused} style={{ ...btnStyle, opacity: refused ? 0.5 : 1 }}>
+          {saving ? 'Saving…' : 'Save Intake & Continue'}
+        </button>
+        {hold.held && (
+          <span style={{ fontSize: 12, color: '#c00', alignSelf: 'center' }}>
+            Repair will be blocked ({HOLD_LABEL}): {holdItems}
+          </span>
+        )}
       </div>
     </form>
   );
 }
 
 // ===== Repair Form =====
-function RepairForm({ serials, onSaved }: { serials: string[]; onSaved: (repair: Repair) => void }) {
+function RepairForm({
+  actor,
+  serials,
+  familyOf,
+  modelOf,
+  blockReasonOf,
+  unitStatusOf,
+  catalog,
+  partsCatalog,
+  onHandOf,
+  burnInOf,
+  burnInMinimumOf,
+  burnInSyncStatus,
+  onSaveBurnIn,
+  harvestsOf,
+  harvestedBoards,
+  harvestSyncStatus,
+  onSaveHarvest,
+  repairCountOf,
+  photoSettings,
+  onSaved,
+}: {
+  actor: Actor;
+  serials: string[];
+  familyOf: (serial: string) => string | undefined;
+  modelOf: (serial: string) => string | undefined;
+  blockReasonOf: (serial: string) => string | null;
+  unitStatusOf: (serial: string) => UnitStatus | null;
+  catalog: CodeCatalog;
+  partsCatalog: PartsCatalog;
+  onHandOf: (partNumber: string) => number | undefined;
+  burnInOf: (serial: string) => BurnInSession | undefined;
+  burnInMinimumOf: (serial: string) => number;
+  burnInSyncStatus: (session: BurnInSession) => SyncStatus;
+  onSaveBurnIn: (session: BurnInSession) => Promise<void>;
+  harvestsOf: (serial: string) => Harvest[];
+  harvestedBoards: HarvestLink[];
+  harvestSyncStatus: (harvest: Harvest) => SyncStatus;
+  onSaveHarvest: (harvest: Harvest) => Promise<void>;
+  repairCountOf: (serial: string) => number;
+  photoSettings: PhotoSettings;
+  onSaved: (repair: Repair) => void;
+}) {
+  // Assigned when the form opens so a double submit or a retry reuses the same record ID
+  const [id, setId] = useState<string>(() => newRecordId());
   const [serial, setSerial] = useState('');
   const [startAt, setStartAt] = useState<string>(new Date().toISOString().slice(0, 16));
   const [endAt, setEndAt] = useState<string>('');
-  const [technician, setTechnician] = useState('');
+  // Bench timer; when used it sets startAt / endAt / pauses instead of the inputs
+  const [timer, setTimer] = useState<RepairTimer | null>(null);
+  const [timerRestored, setTimerRestored] = useState(false);
   const [failureCode, setFailureCode] = useState('');
   const [actions, setActions] = useState<string[]>([]);
   const [disposition, setDisposition] = useState<RepairDisposition>('Repaired');
   const [notes, setNotes] = useState('');
-  const [photos, setPhotos] = useState<string[]>([]);
+  const [parts, setParts] = useState<PartUsage[]>([]);
+  const [shots, setShots] = useState<Pick<Repair, 'photos' | 'thumbs' | 'annotated'>>({ photos: [], thumbs: [] });
+  const [annotating, setAnnotating] = useState<number | null>(null);
+  // Last unit saved as Repaired, offered for the soak rack
+  const [soak, setSoak] = useState<{ serial: string; repairId: string } | null>(null);
+  // Last unit saved as Scrap / BER, offered for harvesting
+  const [donor, setDonor] = useState<{ serial: string; repairId: string } | null>(null);
+
+  // Only active codes for this unit's family are offered; custom entries are normalized
+  const family = familyOf(serial);
+  const failureOptions = useMemo(() => codesFor(catalog.failureCodes, family).map((c) => c.code), [catalog, family]);
+  const actionOptions = useMemo(() => codesFor(catalog.actionCodes, family).map((c) => c.code), [catalog, family]);
+  const model = modelOf(serial);
+  const catalogParts = useMemo(() => partsFor(partsCatalog, family, model), [partsCatalog, family, model]);
+  const blocked = serial ? blockReasonOf(serial) : null;
+
+  // A timer left running (tab switch, reload) reopens with its unit
+  useEffect(() => {
+    loadBenchTimer()
+      .then((kept) => {
+        if (!kept) return;
+        setSerial(kept.serial);
+        setTimer(kept.timer);
+      })
+      .catch((e) => console.error('Bench timer restore failed', e))
+      .finally(() => setTimerRestored(true));
+  }, []);
+
+  useEffect(() => {
+    if (!timerRestored) return;
+    keepBenchTimer(timer ? { serial, timer } : null).catch((e) => console.error('Bench timer save failed', e));
+  }, [timerRestored, serial, timer]);
 
   function removePhoto(idx: number) {
-    setPhotos(prev => prev.filter((_, i) => i !== idx));
+    setShots(prev => removePhotoAt(prev, idx));
   }
 
   function save(e: React.FormEvent) {
     e.preventDefault();
     if (!serial) return alert('Serial is required');
+    if (blocked) return alert(`Repair refused for ${serial}: ${blocked}`);
+    const fitted = parts
+      .map((p) => ({ ...p, partNumber: normalizePartNumber(p.partNumber), description: p.description.trim() }))
+      .filter((p) => p.partNumber);
+    const badQty = fitted.find((p) => !Number.isInteger(p.qty) || p.qty < 1);
+    if (badQty) return alert(`Quantity for ${badQty.partNumber} must be a whole number of at least 1`);
+    const tags = fitted.filter((p) => p.source === 'Harvested' && p.harvestTag).map((p) => p.harvestTag!);
+    const twice = tags.find((t, i) => tags.indexOf(t) !== i);
+    if (twice) return alert(`Harvested board ${twice} is listed twice`);
+    // Saving ends the work on the unit
+    const timed = timer ? stopTimer(timer, new Date().toISOString()) : null;
     onSaved({
+      id,
+      schemaVersion: SCHEMA_VERSION,
       serial,
-      startAt: new Date(startAt).toISOString(),
-      endAt: endAt ? new Date(endAt).toISOString() : undefined,
-      technician: technician || undefined,
-      failureCode: failureCode || 'OTHER',
+      startAt: timed ? timed.startedAt : new Date(startAt).toISOString(),
+      endAt: timed ? timed.stoppedAt : endAt ? new Date(endAt).toISOString() : undefined,
+      technician: actor.name,
+      createdBy: actor,
+      failureCode: normalizeCode(failureCode) || 'OTHER',
       actions,
       disposition,
+      parts: fitted.map(({ removedSerial, harvestTag, donorSerial, ...p }) => ({
+        ...p,
+        ...(removedSerial?.trim() ? { removedSerial: removedSerial.trim() } : {}),
+        ...(p.source === 'Harvested' && harvestTag ? { harvestTag, qty: 1, ...(donorSerial ? { donorSerial } : {}) } : {}),
+      })),
+      pauses: timed ? timerPauses(timed) : [],
       notes: notes || undefined,
-      photos,
+      ...shots,
     });
+    setSoak(disposition === 'Repaired' ? { serial, repairId: id } : null);
+    setDonor(isHarvestable({ disposition }) ? { serial, repairId: id } : null);
+    setId(newRecordId());
     setSerial('');
     setStartAt(new Date().toISOString().slice(0, 16));
     setEndAt('');
-    setTechnician('');
+    setTimer(null);
     setFailureCode('');
     setActions([]);
     setDisposition('Repaired');
+    setParts([]);
     setNotes('');
-    setPhotos([]);
+    setShots({ photos: [], thumbs: [] });
   }
 
   return (
-    <form onSubmit={save} style={{ display: 'grid', gap: 16 }}>
-      <div style={card}>
-        <div style={{ fontWeight: 600, marginBottom: 8 }}>Repair – Identification</div>
-        <label style={{ fontSize: 12, color: theme.subtext }}>Serial</label>
-        <UiCombo value={serial} setValue={setSerial} options={serials} placeholder="Select or type serial…" />
-        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
-          <div>
-            <label style={{ fontSize: 12, color: theme.subtext }}>Start</label>
-            <input type="datetime-local" style={fieldStyle} value={startAt} onChange={(e) => setStartAt(e.target.value)} />
-          </div>
-          <div>
-            <label style={{ fontSize: 12, color: theme.subtext }}>End</label>
-            <input type="datetime-local" style={fieldStyle} value={endAt} onChange={(e) => setEndAt(e.target.value)} />
-          </div>
-        </div>
-        <label style={{ fontSize: 12, color: theme.subtext }}>Technician</label>
-        <input style={fieldStyle} value={technician} onChange={(e) => setTechnician(e.target.value)} placeholder="Tech name or ID" />
-      </div>
-
-      <div style={card}>
-        <div style={{ fontWeight: 600, marginBottom: 8 }}>Diagnosis & Actions</div>
-        <label style={{ fontSize: 12, color: theme.subtext }}>Failure Code</label>
-        <UiCombo value={failureCode} setValue={setFailureCode} options={FAILURE_CODES} placeholder="Select failure code…" />
-        <label style={{ fontSize: 12, color: theme.subtext }}>Actions</label>
-        <UiMultiCombo value={actions} setValue={setActions} options={ACTION_CODES} placeholder="Add actions…" />
-        <label style={{ fontSize: 12, color: theme.subtext }}>Disposition</label>
-        <UiSelect value={disposition} onChange={(val) => setDisposition(val as RepairDisposition)} options={['Repaired', 'Scrap', 'NTF', 'BER']} />
-        <label style={{ fontSize: 12, color: theme.subtext }}>Notes</label>
-        <textarea style={{ ...fieldStyle, height: 80 }} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Root cause, parts replaced, observations…" />
-        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
-          <div style={{ fontWeight: 600 }}>Photos</div>
-          <div style={{ fontSize: 12, color: theme.subtext }}>{photos.length}</div>
-        </div>
-        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
-          <PhotoPicker onPick={(d) => setPhotos((prev) => [...prev, d])} />
-          {photos.map((p, i) => (
-            <div key={i} style={{ position: 'relative' }}>
-              <img
-                src={p}
-                alt={`r${i}`}
-                style={{ width: 72, height: 72, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}` }}
-              />
-              <button
-                type="button"
-                onClick={() => removePhoto(i)}
-                title="Remove"
-                style={{
-                  position: 'absolute', top: -8, right: -8, width: 20, height: 20,
-                  borderRadius: 999, border: 'none', background: '#d00', color: '#fff', cursor: 'pointer', fontWeight: 800
-                }}
-              >
-                ×
-              </button>
+    <div style={{ display: 'grid', gap: 16 }}>
+      {soak && unitStatusOf(soak.serial) === 'QC' && (
+        <BurnInCard
+          actor={actor}
+          serial={soak.serial}
+          family={familyOf(soak.serial) || ''}
+          repairId={soak.repairId}
+          minMinutes={burnInMinimumOf(soak.serial)}
+          session={burnInOf(soak.serial)}
+          syncStatus={burnInSyncStatus}
+          onSave={onSaveBurnIn}
+        />
+      )}
+      {donor && (
+        <HarvestCard
+          actor={actor}
+          donorSerial={donor.serial}
+          repairId={donor.repairId}
+          family={familyOf(donor.serial) || ''}
+          model={modelOf(donor.serial) || ''}
+          catalogParts={partsFor(partsCatalog, familyOf(donor.serial), modelOf(donor.serial))}
+          harvests={harvestsOf(donor.serial)}
+          syncStatus={harvestSyncStatus}
+          onSave={onSaveHarvest}
+        />
+      )}
+      <form onSubmit={save} style={{ display: 'grid', gap: 16 }}>
+        <div style={card}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Repair – Identification</div>
+          <label style={{ fontSize: 12, color: theme.subtext }}>Serial</label>
+          <UiCombo value={serial} setValue={setSerial} options={serials} placeholder="Select or type serial…" />
+          {serial && unitStatusOf(serial) && (
+            <div style={{ fontSize: 12, marginBottom: 8 }}>
+              Unit status: <UnitChip status={unitStatusOf(serial)} />
             </div>
-          ))}
+          )}
+          {blocked && <div style={{ fontSize: 12, color: '#c00', marginBottom: 8 }}>Repair refused: {blocked}</div>}
+          {serial && repairCountOf(serial) > 0 && (
+            <div style={{ fontSize: 12, color: theme.subtext, marginBottom: 8 }}>
+              Repair attempt #{repairCountOf(serial) + 1} on this unit.
+            </div>
+          )}
+          <RepairTimerBar timer={timer} onChange={setTimer} />
+          {timer ? (
+            <div style={{ fontSize: 12, color: theme.subtext, marginBottom: 8 }}>
+              Started {new Date(timer.startedAt).toLocaleString()}
+              {timer.stoppedAt ? `, stopped ${new Date(timer.stoppedAt).toLocaleString()}` : '; saving stops the timer'}.
+            </div>
+          ) : (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 8 }}>
+              <div>
+                <label style={{ fontSize: 12, color: theme.subtext }}>Start</label>
+                <input type="datetime-local" style={fieldStyle} value={startAt} onChange={(e) => setStartAt(e.target.value)} />
+              </div>
+              <div>
+                <label style={{ fontSize: 12, color: theme.subtext }}>End</label>
+                <input type="datetime-local" style={fieldStyle} value={endAt} onChange={(e) => setEndAt(e.target.value)} />
+              </div>
+            </div>
+          )}
+          <label style={{ fontSize: 12, color: theme.subtext }}>Technician</label>
+          <input style={{ ...fieldStyle, background: theme.card }} value={actor.name} readOnly title="Signed-in user" />
         </div>
+
+        <div style={card}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Diagnosis & Actions</div>
+          <label style={{ fontSize: 12, color: theme.subtext }}>Failure Code</label>
+          <UiCombo
+            value={failureCode}
+            setValue={setFailureCode}
+            options={failureOptions}
+            labels={(c) => failureText(catalog, c)}
+            normalize={normalizeCode}
+            placeholder="Select failure code…"
+          />
+          <label style={{ fontSize: 12, color: theme.subtext }}>Actions</label>
+          <UiMultiCombo
+            value={actions}
+            setValue={setActions}
+            options={actionOptions}
+            labels={(c) => actionsText(catalog, [c])}
+            normalize={normalizeCode}
+            placeholder="Add actions…"
+          />
+          <label style={{ fontSize: 12, color: theme.subtext }}>Disposition</label>
+          <UiSelect value={disposition} onChange={(val) => setDisposition(val as RepairDisposition)} options={REPAIR_DISPOSITIONS} />
+          {disposition === 'Repaired' && (
+            <div style={{ fontSize: 12, color: theme.subtext, marginBottom: 8 }}>
+              The unit moves to QC; it is finalized as Repaired once the post-repair QC passes.
+            </div>
+          )}
+          <PartsEditor
+            parts={parts}
+            onChange={setParts}
+            catalogParts={catalogParts}
+            onHandOf={onHandOf}
+            harvestedBoards={harvestedBoards}
+          />
+          <label style={{ fontSize: 12, color: theme.subtext }}>Notes</label>
+          <textarea style={{ ...fieldStyle, height: 80 }} value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Root cause, parts replaced, observations…" />
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+            <div style={{ fontWeight: 600 }}>Photos</div>
+            <div style={{ fontSize: 12, color: theme.subtext }}>{shots.photos.length}</div>
+          </div>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
+            <PhotoPicker settings={photoSettings} onPick={(p) => setShots((prev) => addPhoto(prev, p))} />
+            {shots.photos.map((p, i) => (
+              <div key={i} style={{ position: 'relative' }}>
+                <img
+                  src={thumbOf(shots, i)}
+                  alt={`r${i}`}
+                  title="Annotate"
+                  onClick={() => setAnnotating(i)}
+                  style={{ width: 72, height: 72, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}`, cursor: 'pointer' }}
+                />
+                {isAnnotated(shots, i) && <AnnotatedBadge />}
+                <button
+                  type="button"
+                  onClick={() => removePhoto(i)}
+                  title="Remove"
+                  style={{
+                    position: 'absolute', top: -8, right: -8, width: 20, height: 20,
+                    borderRadius: 999, border: 'none', background: '#d00', color: '#fff', cursor: 'pointer', fontWeight: 800
+                  }}
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          {annotating !== null && shots.photos[annotating] && (
+            <PhotoAnnotator
+              original={shots.photos[annotating]}
+              current={shownOf(shots, annotating)}
+              settings={photoSettings}
+              onClose={() => setAnnotating(null)}
+              onSave={(copy, originalThumb) => {
+                const idx = annotating;
+                setShots((prev) => setAnnotated(prev, idx, copy, originalThumb));
+                setAnnotating(null);
+              }}
+            />
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button disabled={!!blocked} style={{ ...btnStyle, opacity: blocked ? 0.5 : 1 }}>Save Repair</button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+const TIMER_TICK_MS = 1000;
+
+const TIMER_STATE_COLORS: Record<TimerState, string> = {
+  running: '#BFE5C8',
+  paused: '#FFCC80',
+  stopped: '#E0E0E0',
+};
+
+const clockText = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 3600)}:${String(Math.floor(s / 60) % 60).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+};
+
+// Ticks on its own so the rest of the repair form does not re-render every second
+function RepairTimerBar({ timer, onChange }: { timer: RepairTimer | null; onChange: (timer: RepairTimer | null) => void }) {
+  const state = timer ? timerState(timer) : null;
+  const now = useNow(state === 'running' || state === 'paused' ? TIMER_TICK_MS : 60000);
+  const elapsed = timer ? timerMs(timer, now) : null;
+  const at = () => new Date().toISOString();
+  const small: React.CSSProperties = { ...btnGhost, padding: '2px 10px' };
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
+      <span style={{ fontSize: 12, color: theme.subtext }}>Bench timer</span>
+      {!timer && (
+        <button type="button" style={small} onClick={() => onChange(startTimer(at()))}>
+          Start
+        </button>
+      )}
+      {timer && state === 'running' && (
+        <button type="button" style={small} onClick={() => onChange(pauseTimer(timer, at()))}>
+          Pause
+        </button>
+      )}
+      {timer && state === 'paused' && (
+        <button type="button" style={small} onClick={() => onChange(resumeTimer(timer, at()))}>
+          Resume
+        </button>
+      )}
+      {timer && state !== 'stopped' && (
+        <button type="button" style={small} onClick={() => onChange(stopTimer(timer, at()))}>
+          Stop
+        </button>
+      )}
+      {timer && (
+        <button
+          type="button"
+          style={small}
+          onClick={() => window.confirm('Discard the timer and enter start / end times by hand?') && onChange(null)}
+        >
+          Reset
+        </button>
+      )}
+      {state && elapsed && (
+        <>
+          <span style={{ ...chip, background: TIMER_STATE_COLORS[state] }}>{state}</span>
+          <span style={{ fontSize: 13, fontFamily: 'monospace' }}>
+            Touch {clockText(elapsed.touch)} · Wall {clockText(elapsed.wall)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PartsEditor({
+  parts,
+  onChange,
+  catalogParts,
+  onHandOf,
+  harvestedBoards,
+}: {
+  parts: PartUsage[];
+  onChange: (parts: PartUsage[]) => void;
+  catalogParts: CatalogPart[];
+  onHandOf: (partNumber: string) => number | undefined;
+  harvestedBoards: HarvestLink[];
+}) {
+  const update = (idx: number, patch: Partial<PartUsage>) =>
+    onChange(parts.map((p, i) => (i === idx ? { ...p, ...patch } : p)));
+  // Picking a catalogued part number fills in its description
+  const setPartNumber = (idx: number, value: string) => {
+    const hit = catalogParts.find((c) => c.partNumber === normalizePartNumber(value));
+    update(idx, hit && !parts[idx].description ? { partNumber: value, description: hit.description } : { partNumber: value });
+  };
+  // Picking a harvested board fixes the part number and links the row to its donor
+  const setHarvestTag = (idx: number, tag: string) => {
+    const board = harvestedBoards.find((b) => b.tag === tag);
+    if (!board) return update(idx, { harvestTag: undefined, donorSerial: undefined });
+    const hit = catalogParts.find((c) => c.partNumber === board.partNumber);
+    update(idx, {
+      harvestTag: board.tag,
+      donorSerial: board.donorSerial,
+      partNumber: board.partNumber,
+      description: parts[idx].description || hit?.description || board.board,
+      qty: 1,
+    });
+  };
+  // Boards still on the shelf that no other row has taken, matching the row's part number when one is entered
+  const boardsFor = (idx: number) => {
+    const pn = normalizePartNumber(parts[idx].partNumber);
+    const taken = parts.filter((_, i) => i !== idx).map((p) => p.harvestTag);
+    return harvestedBoards.filter(
+      (b) => !taken.includes(b.tag) && (!pn || b.partNumber === pn || b.tag === parts[idx].harvestTag)
+    );
+  };
+  const cell: React.CSSProperties = { padding: '2px 4px' };
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <label style={{ fontSize: 12, color: theme.subtext }}>Parts used</label>
+        <button
+          type="button"
+          style={{ ...btnGhost, padding: '2px 8px' }}
+          onClick={() => onChange([...parts, { partNumber: '', description: '', qty: 1, source: 'New' }])}
+        >
+          Add part
+        </button>
       </div>
-      <div style={{ display: 'flex', gap: 8 }}>
-        <button style={btnStyle}>Save Repair</button>
-      </div>
-    </form>
+      {parts.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12, marginTop: 4 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', padding: 4 }}>Part #</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Description</th>
+              <th style={{ textAlign: 'left', padding: 4, width: 70 }}>Qty</th>
+              <th style={{ textAlign: 'left', padding: 4, width: 160 }}>Source</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Removed board S/N</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {parts.map((p, idx) => (
+              <tr key={idx}>
+                <td style={cell}>
+                  <input
+                    style={{ ...fieldStyle, margin: 0 }}
+                    list="parts-catalog"
+                    value={p.partNumber}
+                    onChange={(e) => setPartNumber(idx, e.target.value)}
+                  />
+                  {onHandOf(normalizePartNumber(p.partNumber)) !== undefined && (
+                    <div style={{ fontSize: 11, color: (onHandOf(normalizePartNumber(p.partNumber)) || 0) < p.qty ? '#c00' : theme.subtext }}>
+                      {onHandOf(normalizePartNumber(p.partNumber))} on hand
+                    </div>
+                  )}
+                </td>
+                <td style={cell}>
+                  <input style={{ ...fieldStyle, margin: 0 }} value={p.description} onChange={(e) => update(idx, { description: e.target.value })} />
+                </td>
+                <td style={cell}>
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    style={{ ...fieldStyle, margin: 0 }}
+                    value={p.qty || ''}
+                    onChange={(e) => update(idx, { qty: Number(e.target.value) })}
+                  />
+                </td>
+                <td style={cell}>
+                  <select
+                    style={{ ...fieldStyle, margin: 0 }}
+                    value={p.source}
+                    onChange={(e) => {
+                      const source = e.target.value as PartSource;
+                      update(idx, source === 'Harvested' ? { source } : { source, harvestTag: undefined, donorSerial: undefined });
+                    }}
+                  >
+                    {PART_SOURCES.map((src) => (
+                      <option key={src} value={src}>{src}</option>
+                    ))}
+                  </select>
+                  {p.source === 'Harvested' && (
+                    <select
+                      style={{ ...fieldStyle, margin: '4px 0 0' }}
+                      value={p.harvestTag || ''}
+                      onChange={(e) => setHarvestTag(idx, e.target.value)}
+                      title="Harvested board"
+                    >
+                      <option value="">Untagged board</option>
+                      {boardsFor(idx).map((b) => (
+                        <option key={b.tag} value={b.tag}>{`${b.tag} (grade ${b.grade})`}</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td style={cell}>
+                  <input
+                    style={{ ...fieldStyle, margin: 0 }}
+                    value={p.removedSerial || ''}
+                    onChange={(e) => update(idx, { removedSerial: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </td>
+                <td style={cell}>
+                  <button
+                    type="button"
+                    style={{ ...btnGhost, padding: '2px 8px' }}
+                    onClick={() => onChange(parts.filter((_, i) => i !== idx))}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <datalist id="parts-catalog">
+        {catalogParts.map((c) => (
+          <option key={c.partNumber} value={c.partNumber}>{c.description}</option>
+        ))}
+      </datalist>
+    </div>
   );
 }
 
 // ===== Dashboard =====
+const RECENT_PAGE_SIZE = 20;
+
 function Dashboard({
   intakes,
   repairs,
+  familyOf,
   onViewSerial,
+  syncStatus,
+  intakesRevision,
+  repairsRevision,
+  catalog,
+  holds,
+  unitStatusOf,
+  lowStockParts,
 }: {
-  intakes: Intake[];
+  intakes: Intake[];              // in-memory fallbacks when IndexedDB is unavailable
   repairs: Repair[];
+  familyOf: (serial: string) => string | undefined;
   onViewSerial: (serial: string) => void;
+  syncStatus: (kind: OutboxKind, rec: Intake | Repair) => SyncStatus;
+  intakesRevision: number;
+  repairsRevision: number;
+  catalog: CodeCatalog;
+  holds: UnitHold[];
+  unitStatusOf: (serial: string) => UnitStatus | null;
+  lowStockParts: StockLevel[];
 }) {
-  const todayStr = new Date().toDateString();
-  const processedToday = intakes.filter((i) => new Date(i.createdAt).toDateString() === todayStr).length;
-  const bySerialRepairs = repairs.reduce<Record<string, Repair[]>>((acc, r) => {
-    (acc[r.serial] ||= []).push(r);
+  const [recentOffset, setRecentOffset] = useState(0);
+  const recent = usePagedRecords(
+    'repair',
+    loadRepairs,
+    { index: 'startAt', direction: 'prev', offset: recentOffset, limit: RECENT_PAGE_SIZE },
+    repairsRevision,
+    repairs,
+    (r) => r.startAt
+  );
+  // KPIs read only the rows they cover through the indexes, not the whole history
+  const now = useNow(60000);
+  const todayStart = new Date(now);
+  todayStart.setHours(0, 0, 0, 0);
+  const processedToday = usePagedRecords(
+    'intake',
+    loadIntakes,
+    { index: 'createdAt', from: todayStart.toISOString(), limit: 0 },
+    intakesRevision,
+    intakes,
+    (i) => i.createdAt
+  ).total;
+  const last30 = usePagedRecords(
+    'repair',
+    loadRepairs,
+    { index: 'startAt', from: new Date(now - 30 * 24 * 3600 * 1000).toISOString(), limit: Infinity },
+    repairsRevision,
+    repairs,
+    (r) => r.startAt
+  ).rows;
+  const bySerialRepairs = last30.reduce<Record<string, number>>((acc, r) => {
+    acc[r.serial] = (acc[r.serial] || 0) + 1;
     return acc;
   }, {});
-  const repeatRepairs30d = Object.values(bySerialRepairs).filter(
-    (arr) => arr.filter((r) => Date.now() - new Date(r.startAt).getTime() <= 30 * 24 * 3600 * 1000).length > 1
-  ).length;
-  const last30 = repairs.filter((r) => Date.now() - new Date(r.startAt).getTime() <= 30 * 24 * 3600 * 1000);
+  const repeatRepairs30d = Object.values(bySerialRepairs).filter((n) => n > 1).length;
   const repaired = last30.filter((r) => r.disposition === 'Repaired').length;
   const scrapped = last30.filter((r) => r.disposition === 'Scrap').length;
   const yieldPct = repaired + scrapped ? Math.round((repaired / (repaired + scrapped)) * 100) : 0;
-  const openHolds = intakes.filter(
-    (v) =>
-      v.checklist.labels_match === 'Fail' ||
-      v.checklist.safety_ok === 'Fail' ||
-      v.checklist.ports_intact === 'Fail' ||
-      v.checklist.power_symptom === 'Fail' ||
-      v.checklist.esd_ok === 'Fail'
-  ).length;
+  const openHolds = holds.filter((h) => h.status === 'held').length;
 
   const days = [...Array(7)].map((_, d) => {
     const date = new Date();
@@ -1096,7 +2366,7 @@ function Dashboard({
     date.setDate(date.getDate() - (6 - d));
     const dayEnd = new Date(date);
     dayEnd.setDate(date.getDate() + 1);
-    const count = repairs.filter((r) => new Date(r.startAt) >= date && new Date(r.startAt) < dayEnd).length;
+    const count = last30.filter((r) => new Date(r.startAt) >= date && new Date(r.startAt) < dayEnd).length;
     return { label: date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }), count };
   });
   const maxCount = Math.max(0, ...days.map((d) => d.count));
@@ -1108,15 +2378,29 @@ function Dashboard({
   const pareto = Object.entries(failCount)
     .sort((a, b) => b[1] - a[1])
     .slice(0, 6);
+  const partsUsage = partsUsageByFailure(last30).slice(0, 10);
+
+  // Labor over finished repairs (with an end time) in the last 30 days
+  const touchTimes = last30.map((r) => repairLabor(r)?.touchMinutes).filter((m): m is number => m !== undefined);
+  const avgTouch = touchTimes.length ? touchTimes.reduce((a, m) => a + m, 0) / touchTimes.length : null;
+  const laborBy: Array<[string, LaborRow[]]> = [
+    ['Failure code', averageLabor(last30, (r) => r.failureCode)],
+    ['Family', averageLabor(last30, (r) => familyOf(r.serial) || 'Unknown')],
+    ['Technician', averageLabor(last30, (r) => r.createdBy?.name || r.technician || 'Unknown')],
+  ];
 
   return (
     <div style={{ display: 'grid', gap: 16 }}>
       <div style={{ fontSize: 20, fontWeight: 600 }}>Repair Dashboard</div>
-      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, minmax(0,1fr))', gap: 12 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(6, minmax(0,1fr))', gap: 12 }}>
         <KpiCard label="Processed Today" value={processedToday} />
         <KpiCard label="Repair Yield (30d)" value={`${yieldPct}%`} />
         <KpiCard label="Open Holds" value={openHolds} />
         <KpiCard label="Repeat Repairs (30d)" value={repeatRepairs30d} />
+        <div title={lowStockParts.map((l) => `${l.part.partNumber}: ${l.onHand} on hand`).join('\n')}>
+          <KpiCard label="Low-Stock Parts" value={lowStockParts.length} />
+        </div>
+        <KpiCard label="Avg Touch Time (30d)" value={avgTouch === null ? '—' : formatMinutes(avgTouch)} />
       </div>
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
         <div style={card}>
@@ -1139,7 +2423,7 @@ function Dashboard({
             <div style={{ display: 'grid', gap: 8 }}>
               {pareto.map(([code, count]) => (
                 <div key={code} style={{ display: 'flex', justifyContent: 'space-between', fontSize: 13 }}>
-                  <span style={chip}>{code}</span>
+                  <span style={chip} title={failureText(catalog, code)}>{code}</span>
                   <span>{count}</span>
                 </div>
               ))}
@@ -1148,6 +2432,53 @@ function Dashboard({
         </div>
       </div>
 
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Average Touch Time (30d)</div>
+        {touchTimes.length === 0 ? (
+          <div style={{ fontSize: 12, color: theme.subtext }}>No finished repairs with an end time yet</div>
+        ) : (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, minmax(0,1fr))', gap: 12 }}>
+            {laborBy.map(([title, rows]) => (
+              <LaborTable key={title} title={title} rows={rows.slice(0, 8)} />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Parts Usage by Failure Code (30d)</div>
+        {partsUsage.length === 0 ? (
+          <div style={{ fontSize: 12, color: theme.subtext }}>No parts recorded yet</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6, color: theme.subtext }}>Failure</th>
+                <th style={{ textAlign: 'left', padding: 6, color: theme.subtext }}>Part #</th>
+                <th style={{ textAlign: 'left', padding: 6, color: theme.subtext }}>Description</th>
+                <th style={{ textAlign: 'right', padding: 6, color: theme.subtext }}>Qty</th>
+                <th style={{ textAlign: 'right', padding: 6, color: theme.subtext }}>Harvested</th>
+                <th style={{ textAlign: 'right', padding: 6, color: theme.subtext }}>Repairs</th>
+              </tr>
+            </thead>
+            <tbody>
+              {partsUsage.map((u) => (
+                <tr key={`${u.failureCode}:${u.partNumber}`}>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>
+                    <span style={chip} title={failureText(catalog, u.failureCode)}>{u.failureCode}</span>
+                  </td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{u.partNumber}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{u.description || '—'}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}`, textAlign: 'right' }}>{u.qty}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}`, textAlign: 'right' }}>{u.harvested}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}`, textAlign: 'right' }}>{u.repairs}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
       <div style={card}>
         <div style={{ fontWeight: 600, marginBottom: 8 }}>Recent Repairs</div>
         <div style={{ overflow: 'auto' }}>
@@ -1159,72 +2490,130 @@ function Dashboard({
                 <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Actions</th>
                 <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Disposition</th>
                 <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Start</th>
+                <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Sync</th>
                 <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>View</th>
               </tr>
             </thead>
             <tbody>
-              {repairs
-                .slice()
-                .reverse()
-                .slice(0, 20)
-                .map((r, i) => (
-                  <tr key={i}>
-                    <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{r.serial}</td>
-                    <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{r.failureCode}</td>
-                    <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{r.actions.join(', ')}</td>
-                    <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{r.disposition}</td>
-                    <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{new Date(r.startAt).toLocaleString()}</td>
-                    <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>
-                      <button style={btnGhost} onClick={() => onViewSerial(r.serial)}>
-                        View
-                      </button>
-                    </td>
-                  </tr>
-                ))}
+              {recent.rows.map((r) => (
+                <tr key={r.id}>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>
+                    {r.serial} <UnitChip status={unitStatusOf(r.serial)} />
+                  </td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }} title={failureText(catalog, r.failureCode)}>{r.failureCode}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{r.actions.join(', ')}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{r.disposition}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>{new Date(r.startAt).toLocaleString()}</td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}><SyncBadge status={syncStatus('repair', r)} /></td>
+                  <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>
+                    <button style={btnGhost} onClick={() => onViewSerial(r.serial)}>
+                      View
+                    </button>
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
         </div>
+        <Pager offset={recentOffset} limit={RECENT_PAGE_SIZE} total={recent.total} onChange={setRecentOffset} />
       </div>
     </div>
   );
 }
 
+function LaborTable({ title, rows }: { title: string; rows: LaborRow[] }) {
+  const cell: React.CSSProperties = { padding: 4, borderTop: `1px solid ${theme.border}` };
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+      <thead>
+        <tr>
+          <th style={{ textAlign: 'left', padding: 4, color: theme.subtext }}>{title}</th>
+          <th style={{ textAlign: 'right', padding: 4, color: theme.subtext }}>Repairs</th>
+          <th style={{ textAlign: 'right', padding: 4, color: theme.subtext }} title="Average hands-on time">Touch</th>
+          <th style={{ textAlign: 'right', padding: 4, color: theme.subtext }} title="Average start-to-end time">Wall</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key}>
+            <td style={cell}>{row.key}</td>
+            <td style={{ ...cell, textAlign: 'right' }}>{row.repairs}</td>
+            <td style={{ ...cell, textAlign: 'right', fontWeight: 600 }}>{formatMinutes(row.avgTouchMinutes)}</td>
+            <td style={{ ...cell, textAlign: 'right' }}>{formatMinutes(row.avgWallMinutes)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
 // ===== History =====
+const SERIAL_LOOKUP_LIMIT = 200;
+
 function History({
   intakes,
   repairs,
   initialSerial,
+  syncStatus,
+  onRetrySync,
+  intakesRevision,
+  repairsRevision,
+  catalog,
+  checklists,
+  unitStatusOf,
+  unitHistoryOf,
+  onTransition,
+  qcChecks,
 }: {
   intakes: Intake[];
   repairs: Repair[];
+  qcChecks: QcCheck[];
   initialSerial?: string;
+  catalog: CodeCatalog;
+  checklists: ChecklistTemplates;
+  unitStatusOf: (serial: string) => UnitStatus | null;
+  unitHistoryOf: (serial: string) => UnitEvent[];
+  onTransition: (serial: string, to: UnitStatus, note: string) => Promise<void>;
+  syncStatus: (kind: OutboxKind, rec: Intake | Repair) => SyncStatus;
+  onRetrySync: () => void;
+  intakesRevision: number;
+  repairsRevision: number;
 }) {
   const [q, setQ] = useState(initialSerial || '');
   const [selected, setSelected] = useState<any | null>(null);
   const [showCombined, setShowCombined] = useState(false);
 
+  // Per-serial lookups go through the `serial` index instead of scanning every record
+  const serialQuery: PageQuery = { index: 'serial', equals: q.trim(), limit: SERIAL_LOOKUP_LIMIT };
+  const serialIntakes = usePagedRecords('intake', loadIntakes, serialQuery, intakesRevision, intakes, (i) => i.serial).rows;
+  const serialRepairs = usePagedRecords('repair', loadRepairs, serialQuery, repairsRevision, repairs, (r) => r.serial).rows;
+
   const list = useMemo(() => {
     const serial = q.trim();
     type Row = { type: 'intake' | 'repair'; when: string; data: Intake | Repair };
     if (!serial) return [] as Row[];
-    const a: Row[] = intakes.filter(i => i.serial === serial).map(i => ({ type: 'intake', when: i.createdAt, data: i }));
-    const b: Row[] = repairs.filter(r => r.serial === serial).map(r => ({ type: 'repair', when: r.startAt, data: r }));
+    const a: Row[] = serialIntakes.filter(i => i.serial === serial).map(i => ({ type: 'intake', when: i.createdAt, data: i }));
+    const b: Row[] = serialRepairs.filter(r => r.serial === serial).map(r => ({ type: 'repair', when: r.startAt, data: r }));
     return [...a, ...b].sort((x, y) => new Date(x.when).getTime() - new Date(y.when).getTime());
-  }, [q, intakes, repairs]);
+  }, [q, serialIntakes, serialRepairs]);
 
   const combinedRec: CombinedRecord | null = useMemo(() => {
     const serial = q.trim();
     if (!serial) return null;
-    const intake = intakes.slice().reverse().find(i => i.serial === serial);
-    const reps = repairs.filter(r => r.serial === serial).sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
-    return { serial, intake, repairs: reps };
-  }, [q, intakes, repairs]);
+    const intake = serialIntakes
+      .filter(i => i.serial === serial)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+    const reps = serialRepairs.filter(r => r.serial === serial).sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+    const qcs = qcChecks.filter((c) => c.serial === serial).sort((a, b) => (a.createdAt < b.createdAt ? -1 : 1));
+    return { serial, intake, repairs: reps, qcChecks: qcs };
+  }, [q, serialIntakes, serialRepairs, qcChecks]);
 
   function exportCsv() {
     const rows: Record<string, any>[] = [];
     intakes.forEach(i =>
       rows.push({
         kind: 'intake',
+        id: i.id || '',
         serial: i.serial,
         model: i.model,
         family: i.family,
@@ -1238,18 +2627,29 @@ function History({
     repairs.forEach(r =>
       rows.push({
         kind: 'repair',
+        id: r.id || '',
         serial: r.serial,
         failure: r.failureCode,
+        failureDescription: catalog.failureCodes.find((c) => c.code === r.failureCode)?.description || '',
         actions: r.actions.join('|'),
         disposition: r.disposition,
+        parts: r.parts.map(partText).join('|'),
         startAt: r.startAt,
         endAt: r.endAt || '',
+        touchMinutes: repairLabor(r)?.touchMinutes ?? '',
+        wallMinutes: repairLabor(r)?.wallMinutes ?? '',
         notes: r.notes || '',
       })
     );
     downloadCSV('repairs_history.csv', rows);
   }
 
+  function exportPartsCsv() {
+    const rows = partsCsvRows(repairs);
+    if (!rows.length) return alert('No parts recorded yet.');
+    downloadCSV('parts_usage.csv', rows);
+  }
+
   return (
     <div style={{ display: 'grid', gap: 16 }}>
       <div style={{ fontSize: 20, fontWeight: 600 }}>History Lookup</div>
@@ -1267,6 +2667,9 @@ function History({
         <button style={btnGhost} onClick={exportCsv}>
           Export CSV
         </button>
+        <button style={btnGhost} onClick={exportPartsCsv}>
+          Export Parts CSV
+        </button>
         <button
           style={{ ...btnStyle, background: showCombined ? theme.primaryDark : theme.primary }}
           disabled={!combinedRec}
@@ -1275,21 +2678,32 @@ function History({
           View Combined Report
         </button>
         {showCombined && combinedRec && (
-          <button style={btnGhost} onClick={() => downloadCombinedPDF(combinedRec)}>
+          <button style={btnGhost} onClick={() => downloadCombinedPDF(combinedRec, catalog, checklists)}>
             Export Combined PDF
           </button>
         )}
       </div>
 
+      {q.trim() && unitStatusOf(q.trim()) && (
+        <UnitStatusCard
+          serial={q.trim()}
+          status={unitStatusOf(q.trim())}
+          history={unitHistoryOf(q.trim())}
+          onTransition={onTransition}
+        />
+      )}
+
       {showCombined && combinedRec && (
         <div style={{ display: 'grid', gap: 12 }}>
           <div style={{ ...card, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-            <div style={{ fontWeight: 700 }}>Combined Record – {combinedRec.serial}</div>
-            <button style={btnGhost} onClick={() => downloadCombinedPDF(combinedRec)}>
+            <div style={{ fontWeight: 700 }}>
+              Combined Record – {combinedRec.serial} <UnitChip status={unitStatusOf(combinedRec.serial)} />
+            </div>
+            <button style={btnGhost} onClick={() => downloadCombinedPDF(combinedRec, catalog, checklists)}>
               Export PDF
             </button>
           </div>
-          <CombinedViewer rec={combinedRec} />
+          <CombinedViewer rec={combinedRec} catalog={catalog} checklists={checklists} unitStatus={unitStatusOf(combinedRec.serial)} />
         </div>
       )}
 
@@ -1297,11 +2711,11 @@ function History({
         <div style={card}>
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
             <div style={{ fontWeight: 600 }}>Record Detail</div>
-            <button style={btnGhost} onClick={() => downloadPDF(selected)}>
+            <button style={btnGhost} onClick={() => downloadPDF(selected, catalog, checklists)}>
               Export PDF
             </button>
           </div>
-          <RecordViewer record={selected} />
+          <RecordViewer record={selected} catalog={catalog} checklists={checklists} unitStatus={unitStatusOf(selected.serial)} />
         </div>
       )}
 
@@ -1309,16 +2723,23 @@ function History({
 
       <div style={{ display: 'grid', gap: 8 }}>
         {list.map((row, idx) => (
-          <div key={idx} style={card}>
+          <div key={row.data.id || idx} style={card}>
             <div style={{ display: 'flex', justifyContent: 'space-between' }}>
-              <div>
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
                 <span style={chip}>{row.type.toUpperCase()}</span>
+                <SyncBadge status={syncStatus(row.type, row.data)} />
+                {syncStatus(row.type, row.data) === 'failed' && (
+                  <button style={{ ...btnGhost, padding: '2px 8px' }} onClick={onRetrySync}>
+                    Retry sync
+                  </button>
+                )}
               </div>
               <div style={{ fontSize: 12, color: theme.subtext }}>{new Date(row.when).toLocaleString()}</div>
             </div>
             {row.type === 'intake' ? (
               <div style={{ fontSize: 13, marginTop: 8 }}>
-                <div><b>Serial:</b> {(row.data as Intake).serial}</div>
+                <div><b>Serial:</b> {(row.data as Intake).serial} <UnitChip status={unitStatusOf(row.data.serial)} /></div>
+                {row.data.id ? <div style={{ fontSize: 11, color: theme.subtext }}>ID: {row.data.id}</div> : null}
                 <div><b>Family/Model:</b> {(row.data as Intake).family} / {(row.data as Intake).model} — {(row.data as Intake).sizeIn}"</div>
                 <div><b>Return:</b> {(row.data as Intake).returnSource} – {(row.data as Intake).returnReason}</div>
                 {(row.data as Intake).notes ? (
@@ -1338,9 +2759,10 @@ function History({
               </div>
             ) : (
               <div style={{ fontSize: 13, marginTop: 8 }}>
-                <div><b>Serial:</b> {(row.data as Repair).serial}</div>
-                <div><b>Failure/Disp:</b> {(row.data as Repair).failureCode} / {(row.data as Repair).disposition}</div>
-                <div><b>Actions:</b> {(row.data as Repair).actions.join(', ')}</div>
+                <div><b>Serial:</b> {(row.data as Repair).serial} <UnitChip status={unitStatusOf(row.data.serial)} /></div>
+                {row.data.id ? <div style={{ fontSize: 11, color: theme.subtext }}>ID: {row.data.id}</div> : null}
+                <div><b>Failure/Disp:</b> {failureText(catalog, (row.data as Repair).failureCode)} / {(row.data as Repair).disposition}</div>
+                <div><b>Actions:</b> {actionsText(catalog, (row.data as Repair).actions)}</div>
                 {(row.data as Repair).notes ? (
                   <div><b>Notes:</b> {(row.data as Repair).notes}</div>
                 ) : null}
@@ -1364,147 +2786,2150 @@ function History({
   );
 }
 
-// ===== Admin Panel =====
-function AdminPanel({
-  sizes,
-  sources,
-  reasons,
+// ===== Burn-in / soak =====
+const BURN_IN_TICK_MS = 30000;
+
+const BURN_IN_STATE_COLORS: Record<BurnInState, string> = {
+  running: '#F2C94C',
+  paused: '#FFCC80',
+  completed: '#BFE5C8',
+  failed: '#F4B4B4',
+  stopped: '#E0E0E0',
+};
+
+function BurnInCard({
+  actor,
+  serial,
+  family,
+  repairId,
+  minMinutes,
+  session,
+  syncStatus,
   onSave,
 }: {
-  sizes: number[];
-  sources: string[];
-  reasons: string[];
-  onSave: (sizes: number[], sources: string[], reasons: string[]) => void;
+  actor: Actor;
+  serial: string;
+  family: string;
+  repairId?: string;
+  minMinutes: number;
+  session: BurnInSession | undefined;
+  syncStatus: (session: BurnInSession) => SyncStatus;
+  onSave: (session: BurnInSession) => Promise<void>;
 }) {
-  const [authorized, setAuthorized] = useState(false);
-  const [inputKey, setInputKey] = useState('');
-  const [szText, setSzText] = useState<string>(sizes.join(', '));
-  const [srcText, setSrcText] = useState<string>(sources.join('\n'));
-  const [reaText, setReaText] = useState<string>(reasons.join('\n'));
-  const PASS_KEY = 'RokuRepair2025';
-
-  function checkKey() {
-    if (inputKey === PASS_KEY) {
-      setAuthorized(true);
-    } else {
-      alert('Invalid key.');
+  const now = useNow(BURN_IN_TICK_MS);
+  const [note, setNote] = useState('');
+  const state = session ? burnInState(session) : null;
+  // A failed soak stands until the unit goes back through repair
+  const canStart = !session || session.outcome === 'Stopped';
+
+  async function apply(change: SessionChange) {
+    if (!change.ok) return alert(change.error);
+    try {
+      await onSave(change.session);
+      setNote('');
+    } catch (e: any) {
+      alert(`Saving burn-in failed: ${e?.message || e}`);
     }
   }
-  function parseSizes(t: string) {
-    return t
-      .split(/[ ,\n]+/)
-      .map((s) => parseInt(s, 10))
-      .filter((n) => !isNaN(n));
-  }
-  function parseList(t: string) {
-    return t.split(/\n+/).map((s) => s.trim()).filter(Boolean);
-  }
-  function save() {
-    onSave(parseSizes(szText), parseList(srcText), parseList(reaText));
-    alert('Admin lists saved');
-  }
 
-  if (!authorized) {
-    return (
-      <div style={card}>
-        <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 8 }}>Admin Access</div>
-        <p style={{ fontSize: 13, color: theme.subtext }}>Enter pass key to unlock settings:</p>
-        <input style={fieldStyle} type="password" value={inputKey} onChange={(e) => setInputKey(e.target.value)} />
-        <button style={btnStyle} onClick={checkKey}>
-          Enter
-        </button>
-      </div>
-    );
+  function start() {
+    const at = new Date().toISOString();
+    apply({
+      ok: true,
+      session: { id: newRecordId(), serial, repairId, family, minMinutes, startedAt: at, events: [], createdAt: at, createdBy: actor },
+    });
   }
 
+  const at = () => new Date().toISOString();
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
   return (
-    <div style={{ display: 'grid', gap: 16 }}>
-      <div style={{ fontSize: 18, fontWeight: 700 }}>Admin Settings</div>
-      <div style={card}>
-        <div style={{ fontWeight: 600, marginBottom: 8 }}>TV Sizes (inches)</div>
-        <small style={{ color: theme.subtext }}>Comma or line separated (e.g., 32, 43, 55, 65)</small>
-        <textarea style={{ ...fieldStyle, height: 90 }} value={szText} onChange={(e) => setSzText(e.target.value)} />
-      </div>
-      <div style={card}>
-        <div style={{ fontWeight: 600, marginBottom: 8 }}>Return Sources</div>
-        <small style={{ color: theme.subtext }}>One per line</small>
-        <textarea style={{ ...fieldStyle, height: 120 }} value={srcText} onChange={(e) => setSrcText(e.target.value)} />
-      </div>
-      <div style={card}>
-        <div style={{ fontWeight: 600, marginBottom: 8 }}>Return Reasons</div>
-        <small style={{ color: theme.subtext }}>One per line</small>
-        <textarea style={{ ...fieldStyle, height: 160 }} value={reaText} onChange={(e) => setReaText(e.target.value)} />
-      </div>
-      <div style={{ display: 'flex', gap: 8 }}>
-        <button style={btnStyle} onClick={save}>
-          Save
-        </button>
+    <div style={card}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+        <div style={{ fontWeight: 600 }}>Burn-in – {serial}</div>
+        {state && <span style={{ ...chip, background: BURN_IN_STATE_COLORS[state] }}>{state}</span>}
+        {session && <SyncBadge status={syncStatus(session)} />}
       </div>
+      {session && (
+        <div style={{ fontSize: 12, marginBottom: 8 }}>
+          <div style={{ marginBottom: 4 }}>
+            {soakMinutes(session, now)} of {session.minMinutes} min soaked · started {new Date(session.startedAt).toLocaleString()} by{' '}
+            {session.createdBy.name}
+            {session.endedAt && <> · ended {new Date(session.endedAt).toLocaleString()}</>}
+          </div>
+          {smallBar(Math.min(soakMinutes(session, now), session.minMinutes), session.minMinutes)}
+        </div>
+      )}
+      {session && isActive(session) && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+          <input
+            style={{ ...fieldStyle, margin: 0, maxWidth: 320 }}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="What happened (interruption / failure)"
+          />
+          {state === 'running' && (
+            <button type="button" style={btnGhost} onClick={() => apply(interruptSession(session, note, actor, at()))}>
+              Interrupt
+            </button>
+          )}
+          {state === 'paused' && (
+            <button type="button" style={btnGhost} onClick={() => apply(resumeSession(session, at()))}>
+              Resume
+            </button>
+          )}
+          <button type="button" style={btnGhost} onClick={() => apply(failSession(session, note, actor, at()))}>
+            Report failure
+          </button>
+          <button type="button" style={btnStyle} onClick={() => apply(endSession(session, at()))}>
+            End soak
+          </button>
+        </div>
+      )}
+      {canStart && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <button type="button" style={btnStyle} onClick={start}>
+            {session ? 'Restart soak' : 'Start soak'}
+          </button>
+          <span style={{ fontSize: 12, color: theme.subtext }}>
+            Minimum {minMinutes} min{family ? ` for ${family}` : ''}
+          </span>
+        </div>
+      )}
+      {session && session.events.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12, marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', padding: 6 }}>Event</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>When</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>Resumed</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>Note</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>By</th>
+            </tr>
+          </thead>
+          <tbody>
+            {session.events.map((e, idx) => (
+              <tr key={idx}>
+                <td style={cell}>{e.kind}</td>
+                <td style={cell}>{new Date(e.at).toLocaleString()}</td>
+                <td style={cell}>{e.resumedAt ? new Date(e.resumedAt).toLocaleString() : '—'}</td>
+                <td style={cell}>{e.note}</td>
+                <td style={cell}>{e.by.name}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 }
 
-// ===== Root App =====
-export default function App() {
-  const [tab, setTab] = useState<'intake' | 'repair' | 'dashboard' | 'history' | 'admin'>('intake');
-
-  const [intakes, setIntakes] = useIndexedDB<Intake>('intakes', []);
-  const [repairs, setRepairs] = useIndexedDB<Repair>('repairs', []);
-
-  // Live Firestore listeners (single block; no duplicates)
-  useEffect(() => {
-    const stopIntakes = listenIntakes((rows) => setIntakes(rows as any));
-    const stopRepairs = listenRepairs((rows) => setRepairs(rows as any));
-    return () => {
-      stopIntakes();
-      stopRepairs();
-    };
-  }, [setIntakes, setRepairs]);
-
-  // Admin lists -> localStorage seeds (using defaults in Intake form selects)
-  const [sizes, setSizes] = useState<number[]>(DEFAULT_TV_SIZES);
-  const [sources, setSources] = useState<string[]>(DEFAULT_RETURN_SOURCE_SUGGESTIONS);
-  const [reasons, setReasons] = useState<string[]>(DEFAULT_RETURN_REASON_SUGGESTIONS);
+// ===== Post-repair QC =====
+function QcPanel({
+  actor,
+  awaiting,
+  latestRepairOf,
+  checks,
+  unitStatusOf,
+  familyOf,
+  burnInSessions,
+  burnInOf,
+  burnInMinimumOf,
+  burnInSyncStatus,
+  onSaveBurnIn,
+  syncStatus,
+  onSaved,
+}: {
+  actor: Actor;
+  awaiting: string[];
+  latestRepairOf: (serial: string) => Repair | undefined;
+  checks: QcCheck[];
+  unitStatusOf: (serial: string) => UnitStatus | null;
+  familyOf: (serial: string) => string | undefined;
+  burnInSessions: BurnInSession[];
+  burnInOf: (serial: string) => BurnInSession | undefined;
+  burnInMinimumOf: (serial: string) => number;
+  burnInSyncStatus: (session: BurnInSession) => SyncStatus;
+  onSaveBurnIn: (session: BurnInSession) => Promise<void>;
+  syncStatus: (check: QcCheck) => SyncStatus;
+  onSaved: (check: QcCheck) => Promise<void>;
+}) {
+  const now = useNow(BURN_IN_TICK_MS);
+  const [serial, setSerial] = useState('');
+  const [steps, setSteps] = useState<Partial<Record<QcStepKey, QcResult>>>({});
+  const [notes, setNotes] = useState('');
+  const [id, setId] = useState<string>(() => newRecordId());
+  const status = serial ? unitStatusOf(serial) : null;
+  const repair = serial ? latestRepairOf(serial) : undefined;
+  const soak = serial ? burnInOf(serial) : undefined;
+  const soakBlock = qcSignOffBlock(soak, now);
+  const missing = QC_STEPS.filter((st) => !steps[st.key]);
+  const onRack = burnInSessions.filter(isActive).sort((a, b) => (a.startedAt < b.startedAt ? -1 : 1));
+  const recent = [...checks].sort((a, b) => (a.createdAt > b.createdAt ? -1 : 1)).slice(0, 20);
 
-  const serials = useMemo(() => Array.from(new Set(intakes.map((i) => i.serial))), [intakes]);
-  const [historySerial, setHistorySerial] = useState<string | undefined>(undefined);
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    if (status !== 'QC') return alert(`${serial || 'Serial'} is not waiting for QC.`);
+    if (missing.length) return alert(`Answer every step: ${missing.map((st) => st.label).join(', ')}`);
+    const complete = steps as Record<QcStepKey, QcResult>;
+    // Failing is always allowed; passing needs the soak minimum
+    if (qcResultOf(complete) === 'Pass' && soakBlock) return alert(`QC sign-off blocked: ${soakBlock}`);
+    try {
+      await onSaved({
+        id,
+        serial,
+        repairId: repair?.id,
+        steps: complete,
+        burnInMinutes: soak ? soakMinutes(soak, now) : 0,
+        burnInSessionId: soak?.id,
+        result: qcResultOf(complete),
+        notes: notes || undefined,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+      });
+      if (soak && isActive(soak)) {
+        const ended = endSession(soak, new Date().toISOString());
+        if (ended.ok) await onSaveBurnIn(ended.session);
+      }
+      alert(qcResultOf(complete) === 'Pass' ? `QC passed – ${serial} is Repaired.` : `QC failed – ${serial} goes back to repair.`);
+      setId(newRecordId());
+      setSerial('');
+      setSteps({});
+      setNotes('');
+    } catch (err: any) {
+      alert(`Saving QC failed: ${err?.message || err}`);
+    }
+  }
 
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
   return (
-    <div style={{ minHeight: '100vh', background: theme.bg, color: theme.text }}>
-      <header
-        style={{
-          position: 'sticky',
-          top: 0,
-          background: `linear-gradient(90deg,${theme.primaryDark},${theme.primary})`,
-          borderBottom: `1px solid ${theme.border}`,
-          zIndex: 10,
-        }}
-      >
-        <div style={{ maxWidth: 1100, margin: '0 auto', padding: 12, display: 'flex', alignItems: 'center', gap: 16 }}>
-          <div
-            style={{
-              fontWeight: 800,
-              letterSpacing: 0.3,
-              color: 'white',
-              fontSize: 20,
-              textShadow: '1px 1px 2px #000',
-            }}
-          >
-            ROKU 1PTV Repair
+    <div style={{ display: 'grid', gap: 16 }}>
+      <form onSubmit={save} style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Post-Repair QC</div>
+        <label style={{ fontSize: 12, color: theme.subtext }}>Serial ({awaiting.length} waiting for QC)</label>
+        <UiCombo value={serial} setValue={setSerial} options={awaiting} placeholder="Select serial in QC…" />
+        {serial && (
+          <div style={{ fontSize: 12, marginBottom: 8 }}>
+            Unit status: <UnitChip status={status} />
+            {status !== 'QC' && <span style={{ color: '#c00' }}> — only units in QC can be tested</span>}
+            {repair && (
+              <span style={{ color: theme.subtext }}>
+                {' '}· repair {new Date(repair.startAt).toLocaleString()} by {repair.technician || '—'}
+              </span>
+            )}
           </div>
-          <nav style={{ display: 'flex', gap: 8, fontSize: 14, marginLeft: 12 }}>
-            {(['intake', 'repair', 'dashboard', 'history', 'admin'] as const).map((t) => (
-              <button
-                key={t}
-                onClick={() => setTab(t)}
-                style={{ ...btnStyle, background: tab === t ? theme.primaryDark : theme.primary }}
+        )}
+        {QC_STEPS.map((st) => (
+          <div key={st.key} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <div style={{ width: 200, fontSize: 12 }} title={st.hint}>{st.label}</div>
+            <div style={{ width: 160 }}>
+              <UiSelect
+                value={steps[st.key] || ''}
+                onChange={(val) => setSteps((prev) => ({ ...prev, [st.key]: val as QcResult }))}
+                placeholder="—"
+                options={['Pass', 'Fail']}
+              />
+            </div>
+            <div style={{ fontSize: 11, color: theme.subtext }}>{st.hint}</div>
+          </div>
+        ))}
+        {serial && (
+          <div style={{ fontSize: 12, margin: '8px 0', color: soakBlock ? '#c00' : '#0a7a32' }}>
+            Burn-in: {soakBlock || `${soak ? soakMinutes(soak, now) : 0} min soaked – minimum met`}
+          </div>
+        )}
+        <label style={{ fontSize: 12, color: theme.subtext }}>Notes</label>
+        <textarea style={{ ...fieldStyle, height: 60 }} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+          <button style={btnStyle} disabled={status !== 'QC'}>
+            Save QC
+          </button>
+          {!missing.length && (
+            <span style={{ fontSize: 12, fontWeight: 600, color: qcResultOf(steps) === 'Pass' ? '#0a7a32' : '#c00' }}>
+              Result: {qcResultOf(steps)}
+            </span>
+          )}
+          {!missing.length && qcResultOf(steps) === 'Pass' && soakBlock && (
+            <span style={{ fontSize: 12, color: '#c00' }}>Sign-off blocked until the burn-in minimum is met</span>
+          )}
+        </div>
+      </form>
+
+      {serial && status === 'QC' && (
+        <BurnInCard
+          actor={actor}
+          serial={serial}
+          family={familyOf(serial) || ''}
+          repairId={repair?.id}
+          minMinutes={burnInMinimumOf(serial)}
+          session={soak}
+          syncStatus={burnInSyncStatus}
+          onSave={onSaveBurnIn}
+        />
+      )}
+
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Soak Rack ({onRack.length})</div>
+        {onRack.length === 0 && <div style={{ fontSize: 12, color: theme.subtext }}>No units soaking.</div>}
+        {onRack.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6 }}>Serial</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Family</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>State</th>
+                <th style={{ textAlign: 'left', padding: 6, width: 200 }}>Soaked</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Started</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {onRack.map((b) => (
+                <tr key={b.id}>
+                  <td style={cell}>{b.serial}</td>
+                  <td style={cell}>{b.family || '—'}</td>
+                  <td style={cell}>
+                    <span style={{ ...chip, background: BURN_IN_STATE_COLORS[burnInState(b)] }}>{burnInState(b)}</span>
+                  </td>
+                  <td style={cell}>
+                    {soakMinutes(b, now)} / {b.minMinutes} min
+                    {smallBar(Math.min(soakMinutes(b, now), b.minMinutes), b.minMinutes)}
+                  </td>
+                  <td style={cell}>{new Date(b.startedAt).toLocaleString()}</td>
+                  <td style={cell}>
+                    <button type="button" style={{ ...btnGhost, padding: '2px 8px' }} onClick={() => setSerial(b.serial)}>
+                      Open
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Recent QC</div>
+        {recent.length === 0 && <div style={{ fontSize: 12, color: theme.subtext }}>No QC checks recorded yet.</div>}
+        {recent.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6 }}>Serial</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Result</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Failed steps</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Burn-in</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Tester</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>When</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Sync</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((c) => (
+                <tr key={c.id}>
+                  <td style={cell}>
+                    {c.serial} <UnitChip status={unitStatusOf(c.serial)} />
+                  </td>
+                  <td style={cell}>{c.result}</td>
+                  <td style={cell}>
+                    {QC_STEPS.filter((st) => c.steps[st.key] !== 'Pass').map((st) => qcStepLabel(st.key)).join(', ') || '—'}
+                  </td>
+                  <td style={cell}>{c.burnInMinutes} min</td>
+                  <td style={cell}>{c.createdBy.name}</td>
+                  <td style={cell}>{new Date(c.createdAt).toLocaleString()}</td>
+                  <td style={cell}><SyncBadge status={syncStatus(c)} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ===== Unit lifecycle =====
+function UnitStatusCard({
+  serial,
+  status,
+  history,
+  onTransition,
+}: {
+  serial: string;
+  status: UnitStatus | null;
+  history: UnitEvent[];
+  onTransition: (serial: string, to: UnitStatus, note: string) => Promise<void>;
+}) {
+  const [note, setNote] = useState('');
+  const targets = (status && MANUAL_TRANSITIONS[status]) || [];
+
+  async function move(to: UnitStatus) {
+    try {
+      await onTransition(serial, to, note.trim());
+      setNote('');
+    } catch (e: any) {
+      alert(`Status change failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
+  return (
+    <div style={card}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+        <div style={{ fontWeight: 600 }}>Unit status</div>
+        <UnitChip status={status} />
+        {!history.length && <span style={{ fontSize: 12, color: theme.subtext }}>(inferred from records)</span>}
+        {status === 'QC' && <span style={{ fontSize: 12, color: theme.subtext }}>Record the post-repair QC on the QC tab.</span>}
+      </div>
+      {targets.length > 0 && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8 }}>
+          <input
+            style={{ ...fieldStyle, margin: 0, maxWidth: 360 }}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+          />
+          {targets.map((to) => (
+            <button key={to} type="button" style={btnGhost} onClick={() => move(to)}>
+              Move to {to}
+            </button>
+          ))}
+        </div>
+      )}
+      {history.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', padding: 6 }}>When</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>Transition</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>By</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>Cause</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((e) => (
+              <tr key={e.id}>
+                <td style={cell}>{new Date(e.createdAt).toLocaleString()}</td>
+                <td style={cell}>
+                  {e.from || '—'} → <b>{e.to}</b>
+                  {e.note ? <span style={{ color: theme.subtext }}> — {e.note}</span> : null}
+                </td>
+                <td style={cell}>{e.createdBy.name}</td>
+                <td style={cell}>{e.cause}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// ===== QE Hold queue =====
+function HoldQueue({
+  actor,
+  holds,
+  canReview,
+  checklists,
+  syncStatus,
+  onViewSerial,
+  onReview,
+  unitStatusOf,
+}: {
+  actor: Actor;
+  holds: UnitHold[];
+  unitStatusOf: (serial: string) => UnitStatus | null;
+  canReview: boolean;
+  checklists: ChecklistTemplates;
+  syncStatus: (review: HoldReview) => SyncStatus;
+  onViewSerial: (serial: string) => void;
+  onReview: (review: HoldReview) => Promise<void>;
+}) {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const open = holds
+    .filter((h) => h.status === 'held')
+    .sort((a, b) => (a.intake.createdAt < b.intake.createdAt ? -1 : 1));
+  const decided = holds
+    .filter((h): h is UnitHold & { review: HoldReview } => !!h.review)
+    .sort((a, b) => (a.review.createdAt > b.review.createdAt ? -1 : 1))
+    .slice(0, 20);
+
+  async function decide(h: UnitHold, decision: HoldDecision) {
+    const note = (notes[h.intake.id] || '').trim();
+    if (!note) return alert('A QE note is required.');
+    if (decision === 'rejected' && !window.confirm(`Reject ${h.serial} to scrap?`)) return;
+    try {
+      await onReview({
+        id: newRecordId(),
+        intakeId: h.intake.id,
+        serial: h.serial,
+        decision,
+        note,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+      });
+      setNotes((prev) => ({ ...prev, [h.intake.id]: '' }));
+    } catch (e: any) {
+      alert(`Saving QE decision failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div style={{ fontSize: 18, fontWeight: 700 }}>
+        {HOLD_LABEL} <span style={{ fontSize: 14, color: theme.subtext }}>({open.length} open)</span>
+      </div>
+      {!canReview && (
+        <div style={{ ...card, fontSize: 12, color: theme.subtext }}>Releasing or rejecting a hold requires the QE role.</div>
+      )}
+      {open.length === 0 && <div style={{ ...card, fontSize: 12, color: theme.subtext }}>No units on hold.</div>}
+      {open.map((h) => {
+        const labels = templateFor(checklists, h.intake.checklistVersion).items;
+        const labelOf = (key: string) => labels.find((i) => i.key === key)?.label || key.replace(/_/g, ' ');
+        return (
+          <div key={h.intake.id} style={card}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+              <button style={{ ...btnGhost, padding: '2px 8px', fontWeight: 600 }} onClick={() => onViewSerial(h.serial)}>
+                {h.serial}
+              </button>
+              <UnitChip status={unitStatusOf(h.serial)} />
+              <span style={{ fontSize: 12, color: theme.subtext }}>
+                {h.intake.family} / {h.intake.model} · received {new Date(h.intake.createdAt).toLocaleString()}
+                {h.intake.createdBy ? ` by ${h.intake.createdBy.name}` : ''}
+              </span>
+            </div>
+            <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>Failing items</div>
+            <ul style={{ margin: 0, paddingLeft: 18, fontSize: 12 }}>
+              {h.hits.map((hit) => (
+                <li key={hit.itemKey}>
+                  {labelOf(hit.itemKey)}: <b style={{ color: '#c00' }}>{hit.status}</b>
+                  {hit.note ? <span style={{ color: theme.subtext }}> — {hit.note}</span> : null}{' '}
+                  <PhotoThumbs record={h.intake} indexes={photoIndexesFor(h.intake, hit.itemKey)} size={40} />
+                </li>
+              ))}
+            </ul>
+            {h.intake.notes ? <div style={{ fontSize: 12, marginTop: 6 }}><b>Intake notes:</b> {h.intake.notes}</div> : null}
+            {h.intake.photos.length ? (
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
+                {h.intake.photos.map((p, idx) => (
+                  <a key={idx} href={shownOf(h.intake, idx)} target="_blank" rel="noreferrer">
+                    <img
+                      src={thumbOf(h.intake, idx)}
+                      alt={`${h.serial} ${idx + 1}`}
+                      style={{ width: 96, height: 96, objectFit: 'cover', borderRadius: 8, border: `1px solid ${theme.border}` }}
+                    />
+                  </a>
+                ))}
+              </div>
+            ) : null}
+            {canReview && (
+              <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+                <input
+                  style={{ ...fieldStyle, margin: 0 }}
+                  value={notes[h.intake.id] || ''}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [h.intake.id]: e.target.value }))}
+                  placeholder="QE note (required)"
+                />
+                <button type="button" style={btnStyle} onClick={() => decide(h, 'released')}>
+                  Release
+                </button>
+                <button type="button" style={{ ...btnGhost, color: '#c00' }} onClick={() => decide(h, 'rejected')}>
+                  Reject to scrap
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {decided.length > 0 && (
+        <div style={card}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Recent decisions</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6 }}>Serial</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Decision</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Note</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>QE</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>When</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Sync</th>
+              </tr>
+            </thead>
+            <tbody>
+              {decided.map(({ serial, review }) => (
+                <tr key={review.id}>
+                  <td style={cell}>
+                    {serial} <UnitChip status={unitStatusOf(serial)} />
+                  </td>
+                  <td style={cell}>{review.decision === 'released' ? 'Released' : 'Rejected to scrap'}</td>
+                  <td style={cell}>{review.note}</td>
+                  <td style={cell}>{review.createdBy.name}</td>
+                  <td style={cell}>{new Date(review.createdAt).toLocaleString()}</td>
+                  <td style={cell}><SyncBadge status={syncStatus(review)} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===== Harvest =====
+type HarvestRow = { pulled: boolean; partNumber: string; grade: HarvestGrade; boardSerial: string; note: string };
+
+const emptyHarvestRows = (): Record<HarvestBoardType, HarvestRow> =>
+  Object.fromEntries(
+    HARVEST_BOARD_TYPES.map((b) => [b, { pulled: false, partNumber: '', grade: 'A', boardSerial: '', note: '' }])
+  ) as Record<HarvestBoardType, HarvestRow>;
+
+const HARVEST_GRADE_LABELS: Record<HarvestGrade, string> = { A: 'A – like new', B: 'B – working, cosmetic wear', Reject: 'Reject – not stocked' };
+
+function HarvestCard({
+  actor,
+  donorSerial,
+  repairId,
+  family,
+  model,
+  catalogParts,
+  harvests,
+  syncStatus,
+  onSave,
+}: {
+  actor: Actor;
+  donorSerial: string;
+  repairId?: string;
+  family: string;
+  model: string;
+  catalogParts: CatalogPart[];
+  harvests: Harvest[];
+  syncStatus: (harvest: Harvest) => SyncStatus;
+  onSave: (harvest: Harvest) => Promise<void>;
+}) {
+  const [rows, setRows] = useState(emptyHarvestRows);
+  useEffect(() => setRows(emptyHarvestRows()), [donorSerial]);
+  const update = (board: HarvestBoardType, patch: Partial<HarvestRow>) =>
+    setRows((prev) => ({ ...prev, [board]: { ...prev[board], ...patch } }));
+
+  async function save() {
+    const pulled = HARVEST_BOARD_TYPES.filter((b) => rows[b].pulled);
+    if (!pulled.length) return alert('Tick the boards that were pulled');
+    const missing = pulled.find((b) => !normalizePartNumber(rows[b].partNumber));
+    if (missing) return alert(`Part number is required for the ${missing}`);
+    const taken = harvests.flatMap((h) => h.boards.map((b) => b.tag));
+    const boards = pulled.map((board) => {
+      const r = rows[board];
+      const tag = boardTag(donorSerial, board, taken);
+      taken.push(tag);
+      return {
+        tag,
+        board,
+        partNumber: normalizePartNumber(r.partNumber),
+        grade: r.grade,
+        boardSerial: r.boardSerial.trim() || undefined,
+        note: r.note.trim() || undefined,
+      };
+    });
+    try {
+      await onSave({
+        id: newRecordId(),
+        donorSerial,
+        repairId,
+        family,
+        model,
+        boards,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+      });
+      setRows(emptyHarvestRows());
+    } catch (e: any) {
+      alert(`Saving harvest failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: '2px 4px', borderTop: `1px solid ${theme.border}` };
+  const pulledBoards = harvests.flatMap((h) => h.boards.map((b) => ({ ...b, harvest: h })));
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 4 }}>Harvest – {donorSerial}</div>
+      <div style={{ fontSize: 12, color: theme.subtext, marginBottom: 8 }}>
+        {[family, model].filter(Boolean).join(' · ') || 'Unknown family / model'}. Record the boards pulled from this unit; grade A
+        and B boards go into parts stock. Label each board with its tag.
+      </div>
+      {pulledBoards.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12, marginBottom: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', padding: 4 }}>Tag</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Board</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Part #</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Grade</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Board S/N</th>
+              <th style={{ textAlign: 'left', padding: 4 }}>Sync</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pulledBoards.map((b) => (
+              <tr key={b.tag}>
+                <td style={{ ...cell, fontFamily: 'monospace' }}>{b.tag}</td>
+                <td style={cell}>{b.board}</td>
+                <td style={{ ...cell, fontFamily: 'monospace' }}>{b.partNumber}</td>
+                <td style={cell}>{isStocked(b) ? b.grade : <span style={{ color: '#c00' }}>Reject</span>}</td>
+                <td style={cell}>{b.boardSerial || '—'}</td>
+                <td style={cell}><SyncBadge status={syncStatus(b.harvest)} /></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left', padding: 4 }}>Pulled</th>
+            <th style={{ textAlign: 'left', padding: 4 }}>Part #</th>
+            <th style={{ textAlign: 'left', padding: 4, width: 190 }}>Grade</th>
+            <th style={{ textAlign: 'left', padding: 4 }}>Board S/N</th>
+            <th style={{ textAlign: 'left', padding: 4 }}>Note</th>
+          </tr>
+        </thead>
+        <tbody>
+          {HARVEST_BOARD_TYPES.map((board) => {
+            const r = rows[board];
+            return (
+              <tr key={board} style={{ opacity: r.pulled ? 1 : 0.6 }}>
+                <td style={cell}>
+                  <label>
+                    <input type="checkbox" checked={r.pulled} onChange={(e) => update(board, { pulled: e.target.checked })} /> {board}
+                  </label>
+                </td>
+                <td style={cell}>
+                  <input
+                    style={{ ...fieldStyle, margin: 0 }}
+                    list="harvest-parts"
+                    value={r.partNumber}
+                    disabled={!r.pulled}
+                    onChange={(e) => update(board, { partNumber: e.target.value })}
+                  />
+                </td>
+                <td style={cell}>
+                  <select
+                    style={{ ...fieldStyle, margin: 0 }}
+                    value={r.grade}
+                    disabled={!r.pulled}
+                    onChange={(e) => update(board, { grade: e.target.value as HarvestGrade })}
+                  >
+                    {HARVEST_GRADES.map((g) => (
+                      <option key={g} value={g}>{HARVEST_GRADE_LABELS[g]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td style={cell}>
+                  <input
+                    style={{ ...fieldStyle, margin: 0 }}
+                    value={r.boardSerial}
+                    disabled={!r.pulled}
+                    onChange={(e) => update(board, { boardSerial: e.target.value })}
+                    placeholder="Optional"
+                  />
+                </td>
+                <td style={cell}>
+                  <input
+                    style={{ ...fieldStyle, margin: 0 }}
+                    value={r.note}
+                    disabled={!r.pulled}
+                    onChange={(e) => update(board, { note: e.target.value })}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <datalist id="harvest-parts">
+        {catalogParts.map((c) => (
+          <option key={c.partNumber} value={c.partNumber}>{c.description}</option>
+        ))}
+      </datalist>
+      <button type="button" style={{ ...btnStyle, marginTop: 8 }} onClick={save}>
+        Save Harvest
+      </button>
+    </div>
+  );
+}
+
+const harvestLinkState = (l: HarvestLink) =>
+  l.fitted ? `Fitted to ${l.fitted.serial} (${new Date(l.fitted.at).toLocaleDateString()})` : isStocked(l) ? 'In stock' : 'Rejected';
+
+function HarvestPanel({
+  actor,
+  donors,
+  familyOf,
+  modelOf,
+  partsCatalog,
+  harvests,
+  links,
+  syncStatus,
+  onSave,
+}: {
+  actor: Actor;
+  donors: Repair[];
+  familyOf: (serial: string) => string | undefined;
+  modelOf: (serial: string) => string | undefined;
+  partsCatalog: PartsCatalog;
+  harvests: Harvest[];
+  links: HarvestLink[];
+  syncStatus: (harvest: Harvest) => SyncStatus;
+  onSave: (harvest: Harvest) => Promise<void>;
+}) {
+  const [donorRepairId, setDonorRepairId] = useState('');
+  const [traceSerial, setTraceSerial] = useState('');
+  const donor = donors.find((r) => r.id === donorRepairId);
+  const harvested = new Set(harvests.map((h) => h.donorSerial));
+  const trace = traceSerial.trim() ? traceFor(links, traceSerial) : null;
+  const shown = trace ? [...trace.donated, ...trace.received.filter((l) => !trace.donated.includes(l))] : links.slice(0, 20);
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
+
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Harvest from Scrap / BER Unit</div>
+        {donors.length === 0 ? (
+          <div style={{ fontSize: 12, color: theme.subtext }}>No Scrap or BER repairs yet.</div>
+        ) : (
+          <UiSelect
+            value={donorRepairId}
+            onChange={setDonorRepairId}
+            placeholder="Select donor unit…"
+            options={donors.map((r) => r.id)}
+            labels={Object.fromEntries(
+              donors.map((r) => [
+                r.id,
+                `${r.serial} – ${r.disposition} ${new Date(r.startAt).toLocaleDateString()}${harvested.has(r.serial) ? ' (harvested)' : ''}`,
+              ])
+            )}
+          />
+        )}
+      </div>
+      {donor && (
+        <HarvestCard
+          actor={actor}
+          donorSerial={donor.serial}
+          repairId={donor.id}
+          family={familyOf(donor.serial) || ''}
+          model={modelOf(donor.serial) || ''}
+          catalogParts={partsFor(partsCatalog, familyOf(donor.serial), modelOf(donor.serial))}
+          harvests={harvests.filter((h) => h.donorSerial === donor.serial)}
+          syncStatus={syncStatus}
+          onSave={onSave}
+        />
+      )}
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Harvested Board Traceability</div>
+        <input
+          style={{ ...fieldStyle, maxWidth: 320 }}
+          value={traceSerial}
+          onChange={(e) => setTraceSerial(e.target.value)}
+          placeholder="Donor or receiving serial (blank = latest boards)"
+        />
+        {shown.length === 0 ? (
+          <div style={{ fontSize: 12, color: theme.subtext }}>{trace ? 'No harvested boards for this serial.' : 'No boards harvested yet.'}</div>
+        ) : (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6 }}>Tag</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Board</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Part #</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Grade</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Donor</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Harvested</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Where it went</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((l) => (
+                <tr key={l.tag}>
+                  <td style={{ ...cell, fontFamily: 'monospace' }}>{l.tag}</td>
+                  <td style={cell}>{l.board}</td>
+                  <td style={{ ...cell, fontFamily: 'monospace' }}>{l.partNumber}</td>
+                  <td style={cell}>{l.grade}</td>
+                  <td style={cell}>{l.donorSerial}</td>
+                  <td style={cell}>{new Date(l.harvestedAt).toLocaleDateString()} · {l.harvestedBy.name}</td>
+                  <td style={cell}>{harvestLinkState(l)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ===== Parts inventory =====
+type StockMoveKind = 'receive' | 'adjust';
+
+function PartsInventory({
+  actor,
+  levels,
+  moves,
+  canManage,
+  syncStatus,
+  onMove,
+}: {
+  actor: Actor;
+  levels: StockLevel[];
+  moves: StockMove[];
+  canManage: boolean;
+  syncStatus: (move: StockMove) => SyncStatus;
+  onMove: (move: StockMove) => Promise<void>;
+}) {
+  const [partNumber, setPartNumber] = useState('');
+  const [kind, setKind] = useState<StockMoveKind>('receive');
+  const [qty, setQty] = useState('');
+  const [note, setNote] = useState('');
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? levels : levels.filter((l) => l.low);
+  const recent = [...moves].sort((a, b) => (a.createdAt > b.createdAt ? -1 : 1)).slice(0, 30);
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    const delta = Number(qty);
+    if (!partNumber) return alert('Pick a part');
+    if (!Number.isInteger(delta) || delta === 0) return alert('Quantity must be a whole number other than 0');
+    if (kind === 'receive' && delta < 0) return alert('Received quantity must be positive; use Adjust to remove stock');
+    if (kind === 'adjust' && !note.trim()) return alert('Give a reason for the adjustment');
+    try {
+      await onMove({
+        id: newRecordId(),
+        partNumber,
+        delta,
+        reason: kind,
+        note: note.trim() || undefined,
+        createdAt: new Date().toISOString(),
+        createdBy: actor,
+      });
+      setQty('');
+      setNote('');
+    } catch (err: any) {
+      alert(`Saving stock change failed: ${err?.message || err}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
+  const fits = (p: CatalogPart) => [p.families.join(', ') || 'All families', p.models.join(', ')].filter(Boolean).join(' · ');
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div style={{ fontSize: 20, fontWeight: 600 }}>Parts Inventory</div>
+      <div style={card}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 8 }}>
+          <div style={{ fontWeight: 600 }}>Stock on Hand</div>
+          <label style={{ fontSize: 12 }}>
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} /> Show all parts (
+            {levels.length})
+          </label>
+        </div>
+        {levels.length === 0 && (
+          <div style={{ fontSize: 12, color: theme.subtext }}>No parts in the catalog yet. An admin adds them under Admin → Parts Catalog.</div>
+        )}
+        {levels.length > 0 && shown.length === 0 && <div style={{ fontSize: 12, color: theme.subtext }}>Nothing is low on stock.</div>}
+        {shown.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6 }}>Part #</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Description</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Fits</th>
+                <th style={{ textAlign: 'right', padding: 6 }}>On hand</th>
+                <th style={{ textAlign: 'right', padding: 6 }}>Reorder at</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((l) => (
+                <tr key={l.part.partNumber}>
+                  <td style={{ ...cell, fontFamily: 'monospace' }}>{l.part.partNumber}</td>
+                  <td style={cell}>{l.part.description || '—'}</td>
+                  <td style={cell}>{fits(l.part)}</td>
+                  <td style={{ ...cell, textAlign: 'right', fontWeight: 600 }}>{l.onHand}</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{l.part.reorderPoint}</td>
+                  <td style={cell}>{l.low && <span style={{ ...chip, background: '#F4B4B4' }}>Low</span>}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canManage && levels.length > 0 && (
+        <form onSubmit={save} style={card}>
+          <div style={{ fontWeight: 600, marginBottom: 8 }}>Receive / Adjust Stock</div>
+          <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr 1fr', gap: 8 }}>
+            <div>
+              <label style={{ fontSize: 12, color: theme.subtext }}>Part</label>
+              <UiSelect
+                value={partNumber}
+                onChange={setPartNumber}
+                placeholder="Select part…"
+                options={levels.map((l) => l.part.partNumber)}
+                labels={Object.fromEntries(levels.map((l) => [l.part.partNumber, `${l.part.partNumber} – ${l.part.description} (${l.onHand})`]))}
+              />
+            </div>
+            <div>
+              <label style={{ fontSize: 12, color: theme.subtext }}>Type</label>
+              <UiSelect
+                value={kind}
+                onChange={(v) => setKind(v as StockMoveKind)}
+                options={['receive', 'adjust']}
+                labels={{ receive: 'Receive', adjust: 'Adjust (+/-)' }}
+              />
+            </div>
+            <div>
+              <label style={{ fontSize: 12, color: theme.subtext }}>Quantity</label>
+              <input type="number" step={1} style={fieldStyle} value={qty} onChange={(e) => setQty(e.target.value)} />
+            </div>
+          </div>
+          <label style={{ fontSize: 12, color: theme.subtext }}>Note {kind === 'adjust' ? '(required)' : '(PO, supplier…)'}</label>
+          <input style={fieldStyle} value={note} onChange={(e) => setNote(e.target.value)} />
+          <button style={btnStyle}>Save</button>
+        </form>
+      )}
+
+      <div style={card}>
+        <div style={{ fontWeight: 600, marginBottom: 8 }}>Recent Stock Moves</div>
+        {recent.length === 0 && <div style={{ fontSize: 12, color: theme.subtext }}>No stock moves yet.</div>}
+        {recent.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th style={{ textAlign: 'left', padding: 6 }}>When</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Part #</th>
+                <th style={{ textAlign: 'right', padding: 6 }}>Qty</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Type</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Serial / note</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>By</th>
+                <th style={{ textAlign: 'left', padding: 6 }}>Sync</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recent.map((m) => (
+                <tr key={m.id}>
+                  <td style={cell}>{new Date(m.createdAt).toLocaleString()}</td>
+                  <td style={{ ...cell, fontFamily: 'monospace' }}>{m.partNumber}</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{m.delta > 0 ? `+${m.delta}` : m.delta}</td>
+                  <td style={cell}>{m.reason}</td>
+                  <td style={cell}>{[m.serial, m.note].filter(Boolean).join(' – ') || '—'}</td>
+                  <td style={cell}>{m.createdBy.name}</td>
+                  <td style={cell}><SyncBadge status={syncStatus(m)} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ===== Admin Panel =====
+function AdminPanel({
+  actor,
+  isAdmin,
+  canEditChecklist,
+  sizes,
+  sources,
+  reasons,
+  onSave,
+  catalog,
+  onSaveCatalog,
+  checklists,
+  onSaveChecklists,
+  blockerRules,
+  onSaveBlockerRules,
+  burnIn,
+  families,
+  onSaveBurnIn,
+  partsCatalog,
+  onSavePartsCatalog,
+  photoSettings,
+  onSavePhotoSettings,
+}: {
+  actor: Actor;
+  isAdmin: boolean;
+  canEditChecklist: boolean;
+  sizes: number[];
+  sources: string[];
+  reasons: string[];
+  onSave: (sizes: number[], sources: string[], reasons: string[]) => Promise<void>;
+  catalog: CodeCatalog;
+  onSaveCatalog: (catalog: CodeCatalog) => Promise<void>;
+  checklists: ChecklistTemplates;
+  onSaveChecklists: (checklists: ChecklistTemplates) => Promise<void>;
+  blockerRules: BlockerRules;
+  onSaveBlockerRules: (rules: BlockerRules) => Promise<void>;
+  burnIn: BurnInSettings;
+  families: string[];
+  onSaveBurnIn: (settings: BurnInSettings) => Promise<void>;
+  partsCatalog: PartsCatalog;
+  onSavePartsCatalog: (catalog: PartsCatalog) => Promise<void>;
+  photoSettings: PhotoSettings;
+  onSavePhotoSettings: (settings: PhotoSettings) => Promise<void>;
+}) {
+  // Lists may arrive from Firestore after the panel opened
+  const [szText, setSzText, szSaved] = useDraft(sizes.join(', '));
+  const [srcText, setSrcText, srcSaved] = useDraft(sources.join('\n'));
+  const [reaText, setReaText, reaSaved] = useDraft(reasons.join('\n'));
+  function parseSizes(t: string) {
+    return t
+      .split(/[ ,\n]+/)
+      .map((s) => parseInt(s, 10))
+      .filter((n) => !isNaN(n));
+  }
+  function parseList(t: string) {
+    return t.split(/\n+/).map((s) => s.trim()).filter(Boolean);
+  }
+  async function save() {
+    try {
+      await onSave(parseSizes(szText), parseList(srcText), parseList(reaText));
+      szSaved();
+      srcSaved();
+      reaSaved();
+      alert('Admin lists saved');
+    } catch (e: any) {
+      alert(`Saving admin lists failed: ${e?.message || e}`);
+    }
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 16 }}>
+      <div style={{ fontSize: 18, fontWeight: 700 }}>Admin Settings</div>
+      {canEditChecklist && (
+        <ChecklistTemplateAdmin
+          checklists={checklists}
+          onPublish={(items) => onSaveChecklists(publishTemplate(checklists, items, actor.name))}
+        />
+      )}
+      {isAdmin && (
+        <>
+          <div style={card}>
+            <div style={{ fontWeight: 600, marginBottom: 8 }}>TV Sizes (inches)</div>
+            <small style={{ color: theme.subtext }}>Comma or line separated (e.g., 32, 43, 55, 65)</small>
+            <textarea style={{ ...fieldStyle, height: 90 }} value={szText} onChange={(e) => setSzText(e.target.value)} />
+          </div>
+          <div style={card}>
+            <div style={{ fontWeight: 600, marginBottom: 8 }}>Return Sources</div>
+            <small style={{ color: theme.subtext }}>One per line</small>
+            <textarea style={{ ...fieldStyle, height: 120 }} value={srcText} onChange={(e) => setSrcText(e.target.value)} />
+          </div>
+          <div style={card}>
+            <div style={{ fontWeight: 600, marginBottom: 8 }}>Return Reasons</div>
+            <small style={{ color: theme.subtext }}>One per line</small>
+            <textarea style={{ ...fieldStyle, height: 160 }} value={reaText} onChange={(e) => setReaText(e.target.value)} />
+          </div>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button style={btnStyle} onClick={save}>
+              Save
+            </button>
+          </div>
+          <CodeCatalogAdmin
+            title="Failure Codes"
+            codes={catalog.failureCodes}
+            onSave={(failureCodes) => onSaveCatalog({ ...catalog, failureCodes })}
+          />
+          <CodeCatalogAdmin
+            title="Action Codes"
+            codes={catalog.actionCodes}
+            onSave={(actionCodes) => onSaveCatalog({ ...catalog, actionCodes })}
+          />
+          <BlockerRulesAdmin
+            rules={blockerRules}
+            items={currentTemplate(checklists).items}
+            onSave={onSaveBlockerRules}
+          />
+          <BurnInAdmin settings={burnIn} families={families} onSave={onSaveBurnIn} />
+          <PartsCatalogAdmin catalog={partsCatalog} onSave={onSavePartsCatalog} />
+          <PhotoSettingsAdmin settings={photoSettings} onSave={onSavePhotoSettings} />
+          <UserRolesAdmin />
+        </>
+      )}
+    </div>
+  );
+}
+
+function ChecklistTemplateAdmin({
+  checklists,
+  onPublish,
+}: {
+  checklists: ChecklistTemplates;
+  onPublish: (items: ChecklistItemDef[]) => Promise<void>;
+}) {
+  const current = currentTemplate(checklists);
+  const [items, setItems, itemsSaved] = useDraft<ChecklistItemDef[]>(current.items);
+  const [newLabel, setNewLabel] = useState('');
+
+  const update = (idx: number, patch: Partial<ChecklistItemDef>) =>
+    setItems((prev) => prev.map((it, i) => (i === idx ? { ...it, ...patch } : it)));
+  const move = (idx: number, by: number) =>
+    setItems((prev) => {
+      const to = idx + by;
+      if (to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      [next[idx], next[to]] = [next[to], next[idx]];
+      return next;
+    });
+  const toggleStatus = (idx: number, s: ChecklistStatus) => {
+    const have = items[idx].statuses;
+    const statuses = CHECKLIST_STATUSES.filter((x) => (x === s ? !have.includes(s) : have.includes(x)));
+    if (statuses.length) update(idx, { statuses });
+  };
+
+  function add() {
+    const label = newLabel.trim();
+    const base = itemKeyFromLabel(label);
+    if (!base) return;
+    // Keys from any published version stay reserved so old answers keep their meaning
+    const used = new Set(checklists.templates.flatMap((t) => t.items.map((i) => i.key)).concat(items.map((i) => i.key)));
+    let key = base;
+    for (let n = 2; used.has(key); n++) key = `${base}_${n}`;
+    setItems((prev) => [...prev, { key, label, title: label, bullets: [], statuses: CHECKLIST_STATUSES }]);
+    setNewLabel('');
+  }
+
+  async function publish() {
+    try {
+      await onPublish(items);
+      itemsSaved();
+      alert(`Checklist template v${current.version + 1} published`);
+    } catch (e: any) {
+      alert(`Publishing checklist failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}`, verticalAlign: 'top' };
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Pre-Repair Checklist (current: v{current.version})</div>
+      <small style={{ color: theme.subtext }}>
+        Publishing creates a new version for new intakes; existing intakes keep the version they were filled against.
+        Retire items instead of deleting them. Criteria: one bullet per line. The first allowed status is the default.
+        Photo: a Conditional or Fail answer cannot be saved without a photo of the item.
+      </small>
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Order</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Item</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Criteria</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Statuses</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Photo</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Retired</th>
+          </tr>
+        </thead>
+        <tbody>
+          {items.map((it, idx) => (
+            <tr key={it.key} style={{ opacity: it.retired ? 0.6 : 1 }}>
+              <td style={{ ...cell, whiteSpace: 'nowrap' }}>
+                <button type="button" style={{ ...btnGhost, padding: '2px 8px' }} onClick={() => move(idx, -1)} disabled={idx === 0}>
+                  ↑
+                </button>{' '}
+                <button
+                  type="button"
+                  style={{ ...btnGhost, padding: '2px 8px' }}
+                  onClick={() => move(idx, 1)}
+                  disabled={idx === items.length - 1}
+                >
+                  ↓
+                </button>
+              </td>
+              <td style={cell}>
+                <input style={{ ...fieldStyle, margin: 0 }} value={it.label} onChange={(e) => update(idx, { label: e.target.value })} />
+                <input
+                  style={{ ...fieldStyle, margin: '4px 0 0' }}
+                  value={it.title}
+                  placeholder="Criteria heading"
+                  onChange={(e) => update(idx, { title: e.target.value })}
+                />
+                <div style={{ fontFamily: 'monospace', fontSize: 11, color: theme.subtext, marginTop: 4 }}>{it.key}</div>
+              </td>
+              <td style={cell}>
+                <textarea
+                  style={{ ...fieldStyle, margin: 0, height: 72 }}
+                  defaultValue={it.bullets.join('\n')}
+                  onBlur={(e) => update(idx, { bullets: e.target.value.split(/\n+/).map((b) => b.trim()).filter(Boolean) })}
+                />
+              </td>
+              <td style={{ ...cell, fontSize: 12 }}>
+                {CHECKLIST_STATUSES.map((st) => (
+                  <label key={st} style={{ display: 'block' }}>
+                    <input type="checkbox" checked={it.statuses.includes(st)} onChange={() => toggleStatus(idx, st)} /> {st}
+                  </label>
+                ))}
+              </td>
+              <td style={cell}>
+                <input
+                  type="checkbox"
+                  title="Conditional / Fail answers need a photo"
+                  checked={!!it.photoRequired}
+                  onChange={(e) => update(idx, { photoRequired: e.target.checked || undefined })}
+                />
+              </td>
+              <td style={cell}>
+                <input type="checkbox" checked={!!it.retired} onChange={(e) => update(idx, { retired: e.target.checked || undefined })} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <input
+          style={{ ...fieldStyle, margin: 0, maxWidth: 280 }}
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          placeholder="New item (e.g., Cosmetic – Feet)"
+        />
+        <button type="button" style={btnGhost} onClick={add}>
+          Add item
+        </button>
+        <button type="button" style={btnStyle} onClick={publish}>
+          Publish new version
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CodeCatalogAdmin({
+  title,
+  codes,
+  onSave,
+}: {
+  title: string;
+  codes: CatalogCode[];
+  onSave: (codes: CatalogCode[]) => Promise<void>;
+}) {
+  const [rows, setRows, rowsSaved] = useDraft<CatalogCode[]>(codes);
+  const [newCode, setNewCode] = useState('');
+
+  const update = (idx: number, patch: Partial<CatalogCode>) =>
+    setRows((prev) => prev.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+
+  function add() {
+    const code = normalizeCode(newCode);
+    if (!code) return;
+    if (rows.some((r) => r.code === code)) return alert(`${code} already exists.`);
+    setRows((prev) => [...prev, { code, description: '', status: 'active', families: [] }]);
+    setNewCode('');
+  }
+
+  async function save() {
+    try {
+      await onSave(rows);
+      rowsSaved();
+      alert(`${title} saved`);
+    } catch (e: any) {
+      alert(`Saving ${title.toLowerCase()} failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}`, verticalAlign: 'top' };
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>{title}</div>
+      <small style={{ color: theme.subtext }}>
+        Codes are retired rather than deleted so older repairs keep their meaning. Leave families empty to apply to all.
+      </small>
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Code</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Description</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Families</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, idx) => (
+            <tr key={r.code} style={{ opacity: r.status === 'retired' ? 0.6 : 1 }}>
+              <td style={{ ...cell, fontFamily: 'monospace' }}>{r.code}</td>
+              <td style={cell}>
+                <input style={{ ...fieldStyle, margin: 0 }} value={r.description} onChange={(e) => update(idx, { description: e.target.value })} />
+              </td>
+              <td style={cell}>
+                <input
+                  style={{ ...fieldStyle, margin: 0 }}
+                  defaultValue={r.families.join(', ')}
+                  placeholder="All families"
+                  onBlur={(e) => update(idx, { families: e.target.value.split(',').map((f) => f.trim()).filter(Boolean) })}
+                />
+              </td>
+              <td style={cell}>
+                <UiSelect value={r.status} onChange={(v) => update(idx, { status: v as CodeStatus })} options={['active', 'retired']} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <input
+          style={{ ...fieldStyle, margin: 0, maxWidth: 280 }}
+          value={newCode}
+          onChange={(e) => setNewCode(e.target.value)}
+          placeholder="New code (e.g., TCON_REWORK)"
+        />
+        <button type="button" style={btnGhost} onClick={add}>
+          Add code
+        </button>
+        <button type="button" style={btnStyle} onClick={save}>
+          Save {title}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function BlockerRulesAdmin({
+  rules,
+  items,
+  onSave,
+}: {
+  rules: BlockerRules;
+  items: ChecklistItemDef[];
+  onSave: (rules: BlockerRules) => Promise<void>;
+}) {
+  const [rows, setRows, rowsSaved] = useDraft<BlockerRule[]>(rules.rules);
+  const [newKey, setNewKey] = useState('');
+
+  const labelOf = (key: string) => items.find((i) => i.key === key)?.label || key;
+  const unused = items.filter((i) => !i.retired && !rows.some((r) => r.itemKey === i.key));
+  const update = (idx: number, patch: Partial<BlockerRule>) =>
+    setRows((prev) => prev.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+  const toggleStatus = (idx: number, s: ChecklistStatus) => {
+    const have = rows[idx].statuses;
+    const statuses = CHECKLIST_STATUSES.filter((x) => (x === s ? !have.includes(s) : have.includes(x)));
+    if (statuses.length) update(idx, { statuses });
+  };
+
+  function add() {
+    if (!newKey) return;
+    setRows((prev) => [...prev, { itemKey: newKey, statuses: ['Fail'], enabled: true }]);
+    setNewKey('');
+  }
+
+  async function save() {
+    try {
+      await onSave(BLOCKER_RULES.decode({ rules: rows }));
+      rowsSaved();
+      alert('Blocker rules saved');
+    } catch (e: any) {
+      alert(`Saving blocker rules failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}`, verticalAlign: 'top' };
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Blocker Rules ({HOLD_LABEL})</div>
+      <small style={{ color: theme.subtext }}>
+        An intake goes on hold when any enabled rule matches its checklist answer. Tick Conditional to count it as blocking.
+      </small>
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Checklist item</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Blocking statuses</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Note</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Enabled</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, idx) => (
+            <tr key={r.itemKey} style={{ opacity: r.enabled ? 1 : 0.6 }}>
+              <td style={cell}>{labelOf(r.itemKey)}</td>
+              <td style={{ ...cell, fontSize: 12 }}>
+                {CHECKLIST_STATUSES.map((st) => (
+                  <label key={st} style={{ marginRight: 8 }}>
+                    <input type="checkbox" checked={r.statuses.includes(st)} onChange={() => toggleStatus(idx, st)} /> {st}
+                  </label>
+                ))}
+              </td>
+              <td style={cell}>
+                <input style={{ ...fieldStyle, margin: 0 }} value={r.note || ''} onChange={(e) => update(idx, { note: e.target.value })} />
+              </td>
+              <td style={cell}>
+                <input type="checkbox" checked={r.enabled} onChange={(e) => update(idx, { enabled: e.target.checked })} />
+              </td>
+              <td style={cell}>
+                <button type="button" style={{ ...btnGhost, padding: '2px 8px' }} onClick={() => setRows((prev) => prev.filter((_, i) => i !== idx))}>
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <div style={{ maxWidth: 280, flex: 1 }}>
+          <UiSelect
+            value={newKey}
+            onChange={setNewKey}
+            placeholder="Add rule for item…"
+            options={unused.map((i) => i.key)}
+            labels={Object.fromEntries(unused.map((i) => [i.key, i.label]))}
+          />
+        </div>
+        <button type="button" style={btnGhost} onClick={add}>
+          Add rule
+        </button>
+        <button type="button" style={btnStyle} onClick={save}>
+          Save Blocker Rules
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PartsCatalogAdmin({ catalog, onSave }: { catalog: PartsCatalog; onSave: (catalog: PartsCatalog) => Promise<void> }) {
+  const [rows, setRows, rowsSaved] = useDraft<CatalogPart[]>(catalog.parts);
+  const [newPart, setNewPart] = useState('');
+
+  const update = (idx: number, patch: Partial<CatalogPart>) =>
+    setRows((prev) => prev.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+  const splitList = (v: string) => v.split(',').map((x) => x.trim()).filter(Boolean);
+
+  function add() {
+    const partNumber = normalizePartNumber(newPart);
+    if (!partNumber) return;
+    if (rows.some((r) => r.partNumber === partNumber)) return alert(`${partNumber} already exists.`);
+    setRows((prev) => [...prev, { partNumber, description: '', families: [], models: [], reorderPoint: 0, status: 'active' }]);
+    setNewPart('');
+  }
+
+  async function importCsv(e: React.ChangeEvent<HTMLInputElement>) {
+    const f = e.target.files?.[0];
+    e.target.value = '';
+    if (!f) return;
+    try {
+      const res = importCatalogRows({ parts: rows }, parseCSV(await f.text()));
+      setRows(res.catalog.parts);
+      alert(`Imported ${res.added} new and ${res.updated} updated parts (${res.skipped} rows skipped). Review, then Save.`);
+    } catch (err: any) {
+      alert(`Reading ${f.name} failed: ${err?.message || err}`);
+    }
+  }
+
+  async function save() {
+    try {
+      await onSave(PARTS_CATALOG.decode({ parts: rows }));
+      rowsSaved();
+      alert('Parts catalog saved');
+    } catch (e: any) {
+      alert(`Saving parts catalog failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}`, verticalAlign: 'top' };
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Parts Catalog</div>
+      <small style={{ color: theme.subtext }}>
+        Stocked part numbers with the families / models they fit (empty = all). A part is low on stock at or below its reorder point.
+        CSV columns: partNumber, description, families, models, reorderPoint, status (lists separated by |).
+      </small>
+      <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 8 }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Part #</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Description</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Families</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Models</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Reorder at</th>
+            <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r, idx) => (
+            <tr key={r.partNumber} style={{ opacity: r.status === 'retired' ? 0.6 : 1 }}>
+              <td style={{ ...cell, fontFamily: 'monospace' }}>{r.partNumber}</td>
+              <td style={cell}>
+                <input style={{ ...fieldStyle, margin: 0 }} value={r.description} onChange={(e) => update(idx, { description: e.target.value })} />
+              </td>
+              <td style={cell}>
+                <input
+                  key={r.families.join(',')}
+                  style={{ ...fieldStyle, margin: 0 }}
+                  defaultValue={r.families.join(', ')}
+                  placeholder="All families"
+                  onBlur={(e) => update(idx, { families: splitList(e.target.value) })}
+                />
+              </td>
+              <td style={cell}>
+                <input
+                  key={r.models.join(',')}
+                  style={{ ...fieldStyle, margin: 0 }}
+                  defaultValue={r.models.join(', ')}
+                  placeholder="All models"
+                  onBlur={(e) => update(idx, { models: splitList(e.target.value) })}
+                />
+              </td>
+              <td style={{ ...cell, width: 90 }}>
+                <input
+                  type="number"
+                  min={0}
+                  style={{ ...fieldStyle, margin: 0 }}
+                  value={r.reorderPoint}
+                  onChange={(e) => update(idx, { reorderPoint: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                />
+              </td>
+              <td style={cell}>
+                <UiSelect value={r.status} onChange={(v) => update(idx, { status: v as CodeStatus })} options={['active', 'retired']} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: 8, marginTop: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+        <input
+          style={{ ...fieldStyle, margin: 0, maxWidth: 240 }}
+          value={newPart}
+          onChange={(e) => setNewPart(e.target.value)}
+          placeholder="New part number"
+        />
+        <button type="button" style={btnGhost} onClick={add}>
+          Add part
+        </button>
+        <button type="button" style={btnGhost} onClick={() => downloadCSV('parts_catalog.csv', catalogCsvRows({ parts: rows }))}>
+          Export CSV
+        </button>
+        <label style={{ ...btnGhost, display: 'inline-block' }}>
+          Import CSV
+          <input type="file" accept=".csv,text/csv" onChange={importCsv} style={{ display: 'none' }} />
+        </label>
+        <button type="button" style={btnStyle} onClick={save}>
+          Save Parts Catalog
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function BurnInAdmin({
+  settings,
+  families,
+  onSave,
+}: {
+  settings: BurnInSettings;
+  families: string[];
+  onSave: (settings: BurnInSettings) => Promise<void>;
+}) {
+  const savedByFamily = useMemo(
+    () => Object.fromEntries(Object.entries(settings.families).map(([f, m]) => [f, String(m)])),
+    [settings]
+  );
+  const [defaultText, setDefaultText, defaultSaved] = useDraft(String(settings.defaultMinutes));
+  const [byFamily, setByFamily, byFamilySaved] = useDraft<Record<string, string>>(savedByFamily);
+  const [newFamily, setNewFamily] = useState('');
+
+  // Known families first, then any configured family no intake mentions yet
+  const rows = Array.from(new Set([...families.filter(Boolean), ...Object.keys(byFamily)])).sort();
+
+  async function save() {
+    try {
+      // Blank or invalid minutes fall back to the default (dropped by decode)
+      await onSave(BURN_IN.decode({ defaultMinutes: defaultText, families: byFamily }));
+      defaultSaved();
+      byFamilySaved();
+      alert('Burn-in minimums saved');
+    } catch (e: any) {
+      alert(`Saving burn-in minimums failed: ${e?.message || e}`);
+    }
+  }
+
+  const cell: React.CSSProperties = { padding: 6, borderTop: `1px solid ${theme.border}` };
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Burn-in Minimums</div>
+      <small style={{ color: theme.subtext }}>
+        QC cannot pass a unit until it has soaked this long. Leave a family blank to use the default.
+      </small>
+      <label style={{ display: 'block', fontSize: 12, color: theme.subtext, marginTop: 8 }}>Default (minutes)</label>
+      <input
+        type="number"
+        min={1}
+        style={{ ...fieldStyle, maxWidth: 200 }}
+        value={defaultText}
+        onChange={(e) => setDefaultText(e.target.value)}
+      />
+      {rows.length > 0 && (
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', padding: 6 }}>Family</th>
+              <th style={{ textAlign: 'left', padding: 6 }}>Minimum (minutes)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((f) => (
+              <tr key={f}>
+                <td style={cell}>{f}</td>
+                <td style={cell}>
+                  <input
+                    type="number"
+                    min={1}
+                    style={{ ...fieldStyle, margin: 0, maxWidth: 160 }}
+                    value={byFamily[f] || ''}
+                    placeholder={defaultText}
+                    onChange={(e) => setByFamily((prev) => ({ ...prev, [f]: e.target.value }))}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+        <input
+          style={{ ...fieldStyle, margin: 0, maxWidth: 280 }}
+          value={newFamily}
+          onChange={(e) => setNewFamily(e.target.value)}
+          placeholder="Other family…"
+        />
+        <button
+          type="button"
+          style={btnGhost}
+          onClick={() => {
+            if (newFamily.trim()) setByFamily((prev) => ({ [newFamily.trim()]: '', ...prev }));
+            setNewFamily('');
+          }}
+        >
+          Add family
+        </button>
+        <button type="button" style={btnStyle} onClick={save}>
+          Save Burn-in Minimums
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PhotoSettingsAdmin({
+  settings,
+  onSave,
+}: {
+  settings: PhotoSettings;
+  onSave: (settings: PhotoSettings) => Promise<void>;
+}) {
+  const [maxEdge, setMaxEdge, maxEdgeSaved] = useDraft(String(settings.maxEdge));
+  const [quality, setQuality, qualitySaved] = useDraft(String(Math.round(settings.quality * 100)));
+  const [thumbEdge, setThumbEdge, thumbEdgeSaved] = useDraft(String(settings.thumbEdge));
+
+  async function save() {
+    try {
+      // Out-of-range values fall back to the defaults (decode)
+      await onSave(PHOTO_SETTINGS.decode({ maxEdge, quality: Number(quality) / 100, thumbEdge }));
+      maxEdgeSaved();
+      qualitySaved();
+      thumbEdgeSaved();
+      alert('Photo settings saved');
+    } catch (e: any) {
+      alert(`Saving photo settings failed: ${e?.message || e}`);
+    }
+  }
+
+  const label: React.CSSProperties = { display: 'block', fontSize: 12, color: theme.subtext };
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Photos</div>
+      <small style={{ color: theme.subtext }}>
+        Photos are resized and re-encoded as JPEG on the device when they are added; location data is removed.
+      </small>
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: 8, marginTop: 8 }}>
+        <div>
+          <label style={label}>Max edge (px)</label>
+          <input type="number" min={320} style={fieldStyle} value={maxEdge} onChange={(e) => setMaxEdge(e.target.value)} />
+        </div>
+        <div>
+          <label style={label}>JPEG quality (%)</label>
+          <input type="number" min={1} max={100} style={fieldStyle} value={quality} onChange={(e) => setQuality(e.target.value)} />
+        </div>
+        <div>
+          <label style={label}>Thumbnail edge (px)</label>
+          <input type="number" min={32} style={fieldStyle} value={thumbEdge} onChange={(e) => setThumbEdge(e.target.value)} />
+        </div>
+      </div>
+      <button type="button" style={btnStyle} onClick={save}>
+        Save Photo Settings
+      </button>
+    </div>
+  );
+}
+
+function UserRolesAdmin() {
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  useEffect(() => listenUsers(setUsers), []);
+
+  async function toggle(u: UserProfile, role: Role) {
+    const roles = u.roles.includes(role) ? u.roles.filter((r) => r !== role) : [...u.roles, role];
+    try {
+      await setUserRoles(u.uid, ROLES.filter((r) => roles.includes(r)));
+    } catch (e: any) {
+      alert(`Updating roles failed: ${e?.message || e}`);
+    }
+  }
+
+  return (
+    <div style={card}>
+      <div style={{ fontWeight: 600, marginBottom: 8 }}>Users & Roles</div>
+      {users.length === 0 ? (
+        <div style={{ fontSize: 12, color: theme.subtext }}>No users have signed in yet.</div>
+      ) : (
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: 'left', padding: 6, fontSize: 12, color: theme.subtext }}>User</th>
+              {ROLES.map((r) => (
+                <th key={r} style={{ textAlign: 'center', padding: 6, fontSize: 12, color: theme.subtext }}>{ROLE_LABELS[r]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((u) => (
+              <tr key={u.uid}>
+                <td style={{ padding: 6, borderTop: `1px solid ${theme.border}` }}>
+                  <div>{u.name}</div>
+                  {u.email ? <div style={{ fontSize: 11, color: theme.subtext }}>{u.email}</div> : null}
+                </td>
+                {ROLES.map((r) => (
+                  <td key={r} style={{ padding: 6, borderTop: `1px solid ${theme.border}`, textAlign: 'center' }}>
+                    <input type="checkbox" checked={u.roles.includes(r)} onChange={() => toggle(u, r)} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// ===== Sign-in =====
+function useAuthUser() {
+  const [state, setState] = useState<{ actor: Actor | null; loading: boolean }>({ actor: null, loading: true });
+  useEffect(
+    () =>
+      onUserChanged((user) => {
+        setState({ actor: user ? actorFromUser(user) : null, loading: false });
+        if (user) ensureUserProfile(user).catch((e) => console.error('Creating user profile failed', e));
+      }),
+    []
+  );
+  return state;
+}
+
+// Roles of the signed-in user; empty until their users/{uid} profile exists
+function useRoles(uid: string | undefined): Role[] {
+  const [roles, setRoles] = useState<Role[]>([]);
+  useEffect(() => {
+    setRoles([]);
+    if (!uid) return;
+    return listenUserProfile(uid, (p) => setRoles(p ? p.roles : []));
+  }, [uid]);
+  return roles;
+}
+
+function SignInScreen() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await signIn(email, password);
+    } catch (err: any) {
+      const code = String(err?.code || '');
+      setError(
+        code.includes('invalid-credential') || code.includes('wrong-password') || code.includes('user-not-found')
+          ? 'Email or password is incorrect.'
+          : `Sign-in failed: ${err?.message || err}`
+      );
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <form onSubmit={onSubmit} style={{ ...card, maxWidth: 380, margin: '64px auto' }}>
+      <div style={{ fontSize: 18, fontWeight: 700, marginBottom: 8 }}>Technician Sign-in</div>
+      <label style={{ fontSize: 12, color: theme.subtext }}>Email</label>
+      <input style={fieldStyle} type="email" autoComplete="username" value={email} onChange={(e) => setEmail(e.target.value)} required />
+      <label style={{ fontSize: 12, color: theme.subtext }}>Password</label>
+      <input style={fieldStyle} type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+      {error && <div style={{ fontSize: 12, color: '#c00', marginBottom: 8 }}>{error}</div>}
+      <button disabled={busy} style={btnStyle}>{busy ? 'Signing in…' : 'Sign in'}</button>
+    </form>
+  );
+}
+
+// ===== Root App =====
+const TABS = ['intake', 'repair', 'qc', 'dashboard', 'history', 'holds', 'parts', 'admin'] as const;
+type Tab = (typeof TABS)[number];
+const TAB_LABELS: Record<Tab, string> = {
+  intake: 'Intake',
+  repair: 'Repair',
+  qc: 'QC',
+  dashboard: 'Dashboard',
+  history: 'History',
+  holds: 'QE Hold',
+  parts: 'Parts',
+  admin: 'Admin',
+};
+
+export default function App() {
+  const [tab, setTab] = useState<Tab>('intake');
+  const { actor, loading: authLoading } = useAuthUser();
+  const signedIn = !!actor;
+  const roles = useRoles(actor?.uid);
+  const isAdmin = can(roles, 'admin.settings');
+  const canEditChecklist = can(roles, 'checklist.edit');
+
+  const [intakes, setIntakes, intakesRevision] = useRecordStore<Intake>('intake', loadIntakes, withoutPhotoData);
+  const [repairs, setRepairs, repairsRevision] = useRecordStore<Repair>('repair', loadRepairs, withoutPhotoData);
+  const [holdReviews, setHoldReviews] = useRecordStore<HoldReview>('holdReview', loadHoldReviews);
+  const [unitEvents, setUnitEvents] = useRecordStore<UnitEvent>('unitEvent', loadUnitEvents);
+  const [qcChecks, setQcChecks] = useRecordStore<QcCheck>('qcCheck', loadQcChecks);
+  const [burnInSessions, setBurnInSessions] = useRecordStore<BurnInSession>('burnInSession', loadBurnInSessions);
+  const [stockMoves, setStockMoves] = useRecordStore<StockMove>('stockMove', loadStockMoves);
+  const [harvests, setHarvests] = useRecordStore<Harvest>('harvest', loadHarvests);
+  const outbox = useOutbox(actor);
+  const { isUnsynced, queueSave, ready: outboxReady } = outbox;
+
+  // Live Firestore listeners (single block; no duplicates), merged into local state by record id
+  useEffect(() => {
+    if (!signedIn || !outboxReady) return;
+    const stopIntakes = listenIntakes((rows) =>
+      setIntakes((prev) => mergeSnapshot(prev, rows, (i) => isUnsynced('intake', i)))
+    );
+    const stopRepairs = listenRepairs((rows) =>
+      setRepairs((prev) => mergeSnapshot(prev, rows, (r) => isUnsynced('repair', r)))
+    );
+    const stopReviews = listenHoldReviews((rows) =>
+      setHoldReviews((prev) => mergeSnapshot(prev, rows, (h) => isUnsynced('holdReview', h)))
+    );
+    const stopEvents = listenUnitEvents((rows) =>
+      setUnitEvents((prev) => mergeSnapshot(prev, rows, (e) => isUnsynced('unitEvent', e)))
+    );
+    const stopQc = listenQcChecks((rows) =>
+      setQcChecks((prev) => mergeSnapshot(prev, rows, (c) => isUnsynced('qcCheck', c)))
+    );
+    const stopBurnIn = listenBurnInSessions((rows) =>
+      setBurnInSessions((prev) => mergeSnapshot(prev, rows, (b) => isUnsynced('burnInSession', b)))
+    );
+    const stopStock = listenStockMoves((rows) =>
+      setStockMoves((prev) => mergeSnapshot(prev, rows, (m) => isUnsynced('stockMove', m)))
+    );
+    const stopHarvests = listenHarvests((rows) =>
+      setHarvests((prev) => mergeSnapshot(prev, rows, (h) => isUnsynced('harvest', h)))
+    );
+    return () => {
+      stopIntakes();
+      stopRepairs();
+      stopReviews();
+      stopEvents();
+      stopQc();
+      stopBurnIn();
+      stopStock();
+      stopHarvests();
+    };
+  }, [
+    signedIn,
+    outboxReady,
+    setIntakes,
+    setRepairs,
+    setHoldReviews,
+    setUnitEvents,
+    setQcChecks,
+    setBurnInSessions,
+    setStockMoves,
+    setHarvests,
+    isUnsynced,
+  ]);
+
+  // Admin lists (Firestore settings/lists, cached in IndexedDB) feed the Intake dropdowns
+  const [lists, saveLists] = useSetting(ADMIN_LISTS, signedIn);
+  const { sizes, sources, reasons } = lists;
+  const [catalog, saveCatalog] = useSetting(CODE_CATALOG, signedIn);
+  const [checklists, saveChecklists] = useSetting(CHECKLIST_TEMPLATES, signedIn);
+  const template = useMemo(() => currentTemplate(checklists), [checklists]);
+  const [blockerRules, saveBlockerRules] = useSetting(BLOCKER_RULES, signedIn);
+  const holds = useMemo(() => unitHolds(blockerRules, intakes, holdReviews), [blockerRules, intakes, holdReviews]);
+  const holdList = useMemo(() => Array.from(holds.values()), [holds]);
+
+  // Unit lifecycle: newest event per serial, inferred for serials recorded before events existed
+  const unitHistories = useMemo(() => eventsBySerial(unitEvents), [unitEvents]);
+  const unitStatuses = useMemo(() => {
+    const out = new Map<string, UnitStatus | null>();
+    const latestIntake = new Map<string, Intake>();
+    intakes.forEach((i) => {
+      const prev = latestIntake.get(i.serial);
+      if (!prev || i.createdAt > prev.createdAt) latestIntake.set(i.serial, i);
+    });
+    const repairsOf = new Map<string, Repair[]>();
+    repairs.forEach((r) => repairsOf.set(r.serial, [...(repairsOf.get(r.serial) || []), r]));
+    new Set([...Array.from(latestIntake.keys()), ...Array.from(repairsOf.keys())]).forEach((serial) => {
+      out.set(serial, inferStatus(latestIntake.get(serial), repairsOf.get(serial) || [], holds.get(serial)?.status));
+    });
+    unitHistories.forEach((history, serial) => out.set(serial, currentStatus(history)));
+    return out;
+  }, [intakes, repairs, holds, unitHistories]);
+  const unitStatusOf = useCallback((serial: string) => unitStatuses.get(serial) ?? null, [unitStatuses]);
+  const unitHistoryOf = useCallback((serial: string) => unitHistories.get(serial) || [], [unitHistories]);
+  const blockReasonOf = useCallback(
+    (serial: string) => repairBlockReason(holds.get(serial)) || repairRefusal(unitStatusOf(serial)),
+    [holds, unitStatusOf]
+  );
+
+  // Append the lifecycle events for a saved record (or a manual move) and queue them for the cloud
+  const recordTransitions = useCallback(
+    async (targets: UnitStatus[], base: Omit<EventBase, 'createdAt' | 'createdBy'>) => {
+      if (!actor) return;
+      const planned = planTransitions(
+        unitStatusOf(base.serial),
+        targets,
+        { ...base, createdAt: new Date().toISOString(), createdBy: actor },
+        newRecordId
+      );
+      if (!planned.ok) throw new Error(planned.error);
+      setUnitEvents((prev) => [...prev, ...planned.events]);
+      for (const e of planned.events) await queueSave('unitEvent', e);
+    },
+    [actor, unitStatusOf, setUnitEvents, queueSave]
+  );
+  const awaitingQc = useMemo(
+    () => Array.from(unitStatuses.entries()).filter(([, st]) => st === 'QC').map(([serial]) => serial),
+    [unitStatuses]
+  );
+  const latestRepairOf = useCallback(
+    (serial: string) =>
+      repairs.filter((r) => r.serial === serial).reduce<Repair | undefined>((a, r) => (!a || r.startAt > a.startAt ? r : a), undefined),
+    [repairs]
+  );
+  const repairCountOf = useCallback((serial: string) => repairs.filter((r) => r.serial === serial).length, [repairs]);
+  const recordTransitionsOrWarn = (targets: UnitStatus[], base: Omit<EventBase, 'createdAt' | 'createdBy'>) =>
+    recordTransitions(targets, base).catch((e) => alert(`Unit status not updated: ${e?.message || e}`));
+
+  const serials = useMemo(() => Array.from(new Set(intakes.map((i) => i.serial))), [intakes]);
+  // Latest intake's family per serial
+  const familyBySerial = useMemo(() => new Map(intakes.map((i) => [i.serial, i.family])), [intakes]);
+  const familyOf = useCallback((serial: string) => familyBySerial.get(serial), [familyBySerial]);
+  const modelOf = useCallback(
+    (serial: string) => intakes.filter((i) => i.serial === serial).pop()?.model,
+    [intakes]
+  );
+  const [historySerial, setHistorySerial] = useState<string | undefined>(undefined);
+
+  // Parts inventory: catalog setting + stock move ledger
+  const [partsCatalog, savePartsCatalog] = useSetting(PARTS_CATALOG, signedIn);
+  const levels = useMemo(() => stockLevels(partsCatalog, stockMoves), [partsCatalog, stockMoves]);
+  const onHand = useMemo(() => onHandByPart(stockMoves), [stockMoves]);
+  const onHandOf = useCallback(
+    (pn: string) => (partsCatalog.parts.some((p) => p.partNumber === pn) ? onHand.get(pn) || 0 : undefined),
+    [partsCatalog, onHand]
+  );
+  const saveStockMoves = useCallback(
+    async (moves: StockMove[]) => {
+      setStockMoves((prev) => [...prev, ...moves.filter((m) => !prev.some((x) => x.id === m.id))]); // local
+      for (const m of moves) await queueSave('stockMove', m);
+    },
+    [setStockMoves, queueSave]
+  );
+
+  // Harvest: boards pulled from Scrap / BER units, traced to the units they were fitted to
+  const links = useMemo(() => harvestLinks(harvests, repairs), [harvests, repairs]);
+  const harvestedBoards = useMemo(() => availableBoards(links), [links]);
+  const harvestsOf = useCallback((serial: string) => harvests.filter((h) => h.donorSerial === serial), [harvests]);
+  const donorRepairs = useMemo(
+    () => repairs.filter(isHarvestable).sort((a, b) => (a.startAt > b.startAt ? -1 : 1)),
+    [repairs]
+  );
+  const saveHarvest = useCallback(
+    async (h: Harvest) => {
+      setHarvests((prev) => (prev.some((x) => x.id === h.id) ? prev : [...prev, h])); // local
+      await queueSave('harvest', h);
+      await saveStockMoves(harvestMoves(h, newRecordId));
+    },
+    [setHarvests, queueSave, saveStockMoves]
+  );
+
+  // Burn-in: the soak that follows a serial's latest repair, against its family minimum
+  const [burnIn, saveBurnIn] = useSetting(BURN_IN, signedIn);
+  const [photoSettings, savePhotoSettings] = useSetting(PHOTO_SETTINGS, signedIn);
+  const families = useMemo(() => Array.from(new Set(intakes.map((i) => i.family))), [intakes]);
+  const burnInOf = useCallback(
+    (serial: string) => sessionFor(burnInSessions, serial, latestRepairOf(serial)?.id),
+    [burnInSessions, latestRepairOf]
+  );
+  const burnInMinimumOf = useCallback((serial: string) => minimumMinutes(burnIn, familyOf(serial)), [burnIn, familyOf]);
+  const saveBurnInSession = useCallback(
+    async (b: BurnInSession) => {
+      setBurnInSessions((prev) => (prev.some((x) => x.id === b.id) ? prev.map((x) => (x.id === b.id ? b : x)) : [...prev, b])); // local
+      await queueSave('burnInSession', b);
+    },
+    [setBurnInSessions, queueSave]
+  );
+
+  return (
+    <div style={{ minHeight: '100vh', background: theme.bg, color: theme.text }}>
+      <header
+        style={{
+          position: 'sticky',
+          top: 0,
+          background: `linear-gradient(90deg,${theme.primaryDark},${theme.primary})`,
+          borderBottom: `1px solid ${theme.border}`,
+          zIndex: 10,
+        }}
+      >
+        <div style={{ maxWidth: 1100, margin: '0 auto', padding: 12, display: 'flex', alignItems: 'center', gap: 16 }}>
+          <div
+            style={{
+              fontWeight: 800,
+              letterSpacing: 0.3,
+              color: 'white',
+              fontSize: 20,
+              textShadow: '1px 1px 2px #000',
+            }}
+          >
+            ROKU 1PTV Repair
+          </div>
+          <nav style={{ display: actor ? 'flex' : 'none', gap: 8, fontSize: 14, marginLeft: 12 }}>
+            {TABS.filter((t) => t !== 'admin' || isAdmin || canEditChecklist).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                style={{ ...btnStyle, background: tab === t ? theme.primaryDark : theme.primary }}
               >
-                {t[0].toUpperCase() + t.slice(1)}
+                {TAB_LABELS[t]}
               </button>
             ))}
           </nav>
-          <div style={{ marginLeft: 'auto', fontSize: 12, color: 'white', opacity: 0.9 }}>
-            Creator: Edgar Garcia
+          <div style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: 12, fontSize: 12, color: 'white' }}>
+            <span style={{ opacity: 0.9 }}>Creator: Edgar Garcia</span>
+            {actor && (
+              <>
+                <span>
+                  {actor.name}
+                  {roles.length ? ` (${roles.map((r) => ROLE_LABELS[r]).join(', ')})` : ''}
+                </span>
+                <button style={{ ...btnGhost, padding: '4px 10px' }} onClick={() => signOutUser()}>
+                  Sign out
+                </button>
+              </>
+            )}
           </div>
         </div>
          </header>
@@ -1512,50 +4937,192 @@ export default function App() {
   
    <main style={{ maxWidth: 1100, margin: '0 auto', padding: 16 }}>
 
-        {tab === 'intake' && (
+        {authLoading && <div style={{ fontSize: 12, color: theme.subtext }}>Loading…</div>}
+        {!authLoading && !actor && <SignInScreen />}
+
+        {actor && tab === 'intake' && (
           <IntakeForm
+            actor={actor}
             sizes={sizes}
             sources={sources}
             reasons={reasons}
+            template={template}
+            blockerRules={blockerRules}
+            unitStatusOf={unitStatusOf}
+            photoSettings={photoSettings}
             onSaved={async (i) => {
-              setIntakes((prev) => [...prev, i]); // local
-              try { await saveIntakeCloud(i); } catch (e) { console.error('Cloud intake save failed', e); }
+              setIntakes((prev) => (prev.some((x) => x.id === i.id) ? prev : [...prev, i])); // local
+              await recordTransitionsOrWarn(intakeTargets(holdOf(blockerRules, i).held), {
+                serial: i.serial,
+                cause: 'intake',
+                recordId: i.id,
+              });
+              await outbox.queueSave('intake', i);
             }}
           />
         )}
 
-        {tab === 'repair' && (
+        {actor && tab === 'repair' && (
   <RepairForm
+    actor={actor}
     serials={serials}
+    familyOf={familyOf}
+    modelOf={modelOf}
+    blockReasonOf={blockReasonOf}
+    unitStatusOf={unitStatusOf}
+    catalog={catalog}
+    partsCatalog={partsCatalog}
+    onHandOf={onHandOf}
+    burnInOf={burnInOf}
+    burnInMinimumOf={burnInMinimumOf}
+    burnInSyncStatus={(b) => outbox.statusOf('burnInSession', b)}
+    onSaveBurnIn={saveBurnInSession}
+    harvestsOf={harvestsOf}
+    harvestedBoards={harvestedBoards}
+    harvestSyncStatus={(h) => outbox.statusOf('harvest', h)}
+    onSaveHarvest={saveHarvest}
+    repairCountOf={repairCountOf}
+    photoSettings={photoSettings}
     onSaved={async (r) => {
-              setRepairs((prev) => [...prev, r]); // local
-              try { await saveRepairCloud(r); } catch (e) { console.error('Cloud repair save failed', e); }
+              setRepairs((prev) => (prev.some((x) => x.id === r.id) ? prev : [...prev, r])); // local
+              await recordTransitionsOrWarn(repairTargets(r), { serial: r.serial, cause: 'repair', recordId: r.id });
+              await outbox.queueSave('repair', r);
+              if (actor) await saveStockMoves(consumeMoves(r, new Date().toISOString(), actor, newRecordId));
             }}
           />
         )}
 
-        {tab === 'dashboard' && (
+        {actor && tab === 'dashboard' && (
           <Dashboard
             intakes={intakes}
             repairs={repairs}
+            familyOf={familyOf}
             onViewSerial={(sn) => { setHistorySerial(sn); setTab('history'); }}
+            syncStatus={outbox.statusOf}
+            intakesRevision={intakesRevision}
+            repairsRevision={repairsRevision}
+            catalog={catalog}
+            holds={holdList}
+            unitStatusOf={unitStatusOf}
+            lowStockParts={lowStock(levels)}
           />
         )}
 
-        {tab === 'history' && (
+        {actor && tab === 'history' && (
           <History
             intakes={intakes}
             repairs={repairs}
             initialSerial={historySerial}
+            syncStatus={outbox.statusOf}
+            onRetrySync={outbox.retry}
+            intakesRevision={intakesRevision}
+            repairsRevision={repairsRevision}
+            catalog={catalog}
+            checklists={checklists}
+            qcChecks={qcChecks}
+            unitStatusOf={unitStatusOf}
+            unitHistoryOf={unitHistoryOf}
+            onTransition={(serial, to, note) =>
+              recordTransitions([to], { serial, cause: 'manual', ...(note ? { note } : {}) })
+            }
+          />
+        )}
+
+        {actor && tab === 'qc' && (
+          <QcPanel
+            actor={actor}
+            awaiting={awaitingQc}
+            latestRepairOf={latestRepairOf}
+            checks={qcChecks}
+            unitStatusOf={unitStatusOf}
+            familyOf={familyOf}
+            burnInSessions={burnInSessions}
+            burnInOf={burnInOf}
+            burnInMinimumOf={burnInMinimumOf}
+            burnInSyncStatus={(b) => outbox.statusOf('burnInSession', b)}
+            onSaveBurnIn={saveBurnInSession}
+            syncStatus={(c) => outbox.statusOf('qcCheck', c)}
+            onSaved={async (c) => {
+              // The status move is what finalizes Repaired, so refuse the check if it is not allowed
+              await recordTransitions(qcTargets(c), { serial: c.serial, cause: 'qcCheck', recordId: c.id });
+              setQcChecks((prev) => (prev.some((x) => x.id === c.id) ? prev : [...prev, c])); // local
+              await outbox.queueSave('qcCheck', c);
+            }}
+          />
+        )}
+
+        {actor && tab === 'holds' && (
+          <HoldQueue
+            actor={actor}
+            holds={holdList}
+            canReview={can(roles, 'qe.review')}
+            checklists={checklists}
+            syncStatus={(h) => outbox.statusOf('holdReview', h)}
+            onViewSerial={(sn) => { setHistorySerial(sn); setTab('history'); }}
+            unitStatusOf={unitStatusOf}
+            onReview={async (h) => {
+              setHoldReviews((prev) => (prev.some((x) => x.id === h.id) ? prev : [...prev, h])); // local
+              await recordTransitionsOrWarn(reviewTargets(h.decision), {
+                serial: h.serial,
+                cause: 'holdReview',
+                recordId: h.id,
+                note: h.note,
+              });
+              await outbox.queueSave('holdReview', h);
+            }}
           />
         )}
 
-        {tab === 'admin' && (
+        {actor && tab === 'parts' && (
+          <div style={{ display: 'grid', gap: 16 }}>
+            <PartsInventory
+              actor={actor}
+              levels={levels}
+              moves={stockMoves}
+              canManage={can(roles, 'inventory.manage')}
+              syncStatus={(m) => outbox.statusOf('stockMove', m)}
+              onMove={(m) => saveStockMoves([m])}
+            />
+            <HarvestPanel
+              actor={actor}
+              donors={donorRepairs}
+              familyOf={familyOf}
+              modelOf={modelOf}
+              partsCatalog={partsCatalog}
+              harvests={harvests}
+              links={links}
+              syncStatus={(h) => outbox.statusOf('harvest', h)}
+              onSave={saveHarvest}
+            />
+          </div>
+        )}
+
+        {actor && tab === 'admin' && !isAdmin && !canEditChecklist && (
+          <div style={card}>Admin settings require the Admin role. Ask an admin to grant it.</div>
+        )}
+
+        {actor && tab === 'admin' && (isAdmin || canEditChecklist) && (
           <AdminPanel
+            actor={actor}
+            isAdmin={isAdmin}
+            canEditChecklist={canEditChecklist}
             sizes={sizes}
             sources={sources}
             reasons={reasons}
-            onSave={(ns, so, re) => { setSizes(ns); setSources(so); setReasons(re); }}
+            onSave={(ns, so, re) => saveLists(ADMIN_LISTS.decode({ sizes: ns, sources: so, reasons: re }))}
+            catalog={catalog}
+            onSaveCatalog={saveCatalog}
+            checklists={checklists}
+            onSaveChecklists={saveChecklists}
+            blockerRules={blockerRules}
+            onSaveBlockerRules={saveBlockerRules}
+            burnIn={burnIn}
+            families={families}
+            onSaveBurnIn={saveBurnIn}
+            partsCatalog={partsCatalog}
+            onSavePartsCatalog={savePartsCatalog}
+            photoSettings={photoSettings}
+            onSavePhotoSettings={savePhotoSettings}
           />
         )}
       </main>
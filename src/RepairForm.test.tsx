@@ -0,0 +1,63 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import RepairForm from "./RepairForm";
+import { submitRepairViaFlow } from "./lib/submitRepair";
+
+jest.mock("./lib/submitRepair", () => ({ submitRepairViaFlow: jest.fn() }));
+
+const submit = submitRepairViaFlow as jest.MockedFunction<typeof submitRepairViaFlow>;
+
+function fillRequired() {
+  const fields: Record<string, string> = {
+    Serial: "X001",
+    Model: "55R6",
+    Family: "R6",
+    "Size (in)": "55",
+    "Failure Code": "PSU_NO_POWER",
+    Disposition: "Repaired",
+    Technician: "Tech",
+  };
+  Object.entries(fields).forEach(([label, value]) =>
+    fireEvent.change(screen.getByLabelText(label, { exact: false }), { target: { value } })
+  );
+}
+
+beforeEach(() => {
+  submit.mockReset();
+  submit.mockResolvedValue({ ok: true } as any);
+});
+
+test("posts every picked photo to the flow", async () => {
+  render(<RepairForm />);
+  fillRequired();
+  const photos = [
+    new File(["front"], "front.jpg", { type: "image/jpeg" }),
+    new File(["back"], "back.png", { type: "image/png" }),
+  ];
+  // jsdom builds FormData from a file list tests cannot fill, so post the picked files the way a browser does:
+  // one "photos" entry per file
+  const RealFormData = window.FormData;
+  const formData = jest.spyOn(window, "FormData").mockImplementation((form?: HTMLFormElement) => {
+    const data = new RealFormData(form);
+    data.delete("photos");
+    photos.forEach((p) => data.append("photos", p));
+    return data;
+  });
+  fireEvent.click(screen.getByRole("button", { name: /submit repair/i }));
+
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  const sent = submit.mock.calls[0][0];
+  expect(sent.photosFiles?.map((f) => f.name)).toEqual(["front.jpg", "back.png"]);
+  expect(sent.serial).toBe("X001");
+  expect(await screen.findByText(/Submitted/)).toBeInTheDocument();
+  formData.mockRestore();
+});
+
+test("sends no photos when none were picked", async () => {
+  render(<RepairForm />);
+  fillRequired();
+  fireEvent.click(screen.getByRole("button", { name: /submit repair/i }));
+
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit.mock.calls[0][0].photosFiles).toBeUndefined();
+});
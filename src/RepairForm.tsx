@@ -1,6 +1,9 @@
 // src/RepairForm.tsx
 import React from "react";
 import { submitRepairViaFlow } from "./lib/submitRepair";
+import { enqueue } from "./lib/outbox";
+import { hasIndexedDB } from "./lib/idb";
+import { newRecordId } from "./lib/ids";
 
 export default function RepairForm() {
   const [sending, setSending] = React.useState(false);
@@ -12,35 +15,43 @@ export default function RepairForm() {
     setSending(true);
 
     try {
-      const form = new FormData(e.currentTarget);
-
-      // 1) Get the FileList from the input
-      const photosList = form.get("photos") as FileList | null;
-
-      // 2) Convert FileList -> File[] OR leave undefined if empty
-      const photosFiles =
-        photosList && photosList.length > 0 ? Array.from(photosList) : undefined;
-
-      // 3) Send to the Flow
-      const resp = await submitRepairViaFlow({
-        serial: String(form.get("serial") || "").trim(),
-        model: String(form.get("model") || "").trim(),
-        family: String(form.get("family") || "").trim(),
-        sizeIn: Number(form.get("sizeIn") || 0),
-        failureCode: String(form.get("failureCode") || "").trim(),
-        disposition: String(form.get("disposition") || "").trim(),
-        technician: String(form.get("technician") || "").trim(),
-        notes: String(form.get("notes") || ""),
+      const form = e.currentTarget;
+      const data = new FormData(form);
+
+      // 1) Every picked photo (an empty input still posts one nameless, empty File)
+      const picked = data.getAll("photos").filter((p): p is File => p instanceof File && p.size > 0);
+
+      // 2) File[] OR undefined if none were picked
+      const photosFiles = picked.length > 0 ? picked : undefined;
+
+      // 3) Send to the Flow (retries throttling / server errors itself)
+      const payload = {
+        id: newRecordId(),
+        serial: String(data.get("serial") || "").trim(),
+        model: String(data.get("model") || "").trim(),
+        family: String(data.get("family") || "").trim(),
+        sizeIn: Number(data.get("sizeIn") || 0),
+        failureCode: String(data.get("failureCode") || "").trim(),
+        disposition: String(data.get("disposition") || "").trim(),
+        technician: String(data.get("technician") || "").trim(),
+        notes: String(data.get("notes") || ""),
         photosFiles, // <- correct type now (File[] | undefined)
-      });
-
-      if (!resp.ok) {
-        const text = await resp.text().catch(() => "");
-        throw new Error(`Flow returned ${resp.status}. ${text}`);
+      };
+      const res = await submitRepairViaFlow(payload);
+
+      if (!res.ok) {
+        // 4) Still failing but worth another try: the app's outbox resubmits it later
+        if (res.error.retryable && hasIndexedDB()) {
+          await enqueue("flowSubmission", { ...payload, ...res.error.progress });
+          setMsg(`⏳ Queued: ${res.error.message}. It will be resubmitted automatically.`);
+          form.reset();
+          return;
+        }
+        throw new Error(res.error.message);
       }
 
       setMsg("✅ Submitted! Check Excel (Repairs table) and the Photos folder.");
-      e.currentTarget.reset();
+      form.reset();
     } catch (err: any) {
       setMsg(`❌ Submit failed: ${err?.message || err}`);
     } finally {
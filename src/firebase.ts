@@ -3,20 +3,65 @@ import { initializeApp, getApps } from "firebase/app";
 import {
   getFirestore,
   collection,
+  doc,
   addDoc,
+  setDoc,
+  getDoc,
+  updateDoc,
   serverTimestamp,
   onSnapshot,
   query,
   orderBy,
-  Timestamp,
+  connectFirestoreEmulator,
 } from "firebase/firestore";
 import {
   getStorage,
   ref as storageRef,
   uploadBytes,
   getDownloadURL,
+  connectStorageEmulator,
 } from "firebase/storage";
-import { getAuth } from "firebase/auth";
+import {
+  getAuth,
+  connectAuthEmulator,
+  onAuthStateChanged,
+  signInWithEmailAndPassword,
+  signOut,
+  User,
+} from "firebase/auth";
+import {
+  Actor,
+  BurnInSession,
+  Harvest,
+  HoldReview,
+  Intake,
+  QcCheck,
+  Repair,
+  StockMove,
+  UnitEvent,
+  decodeAll,
+  decodeBurnInSession,
+  decodeHarvest,
+  decodeHoldReview,
+  decodeIntake,
+  decodeQcCheck,
+  decodeRepair,
+  decodeStockMove,
+  decodeUnitEvent,
+  validateBurnInSession,
+  validateHarvest,
+  validateHoldReview,
+  validateIntake,
+  validateQcCheck,
+  validateRepair,
+  validateStockMove,
+  validateUnitEvent,
+  withoutUndefined,
+} from "./lib/domain";
+import { migrateIntake, migrateRepair } from "./lib/migrations";
+import { extensionFor } from "./lib/images";
+import { DEFAULT_ROLES, Role, UserProfile, normalizeRoles } from "./lib/roles";
+import { SettingDef } from "./lib/settings";
 
 /****************************************************
  * Firebase config (corrected)
@@ -39,30 +84,79 @@ export const auth = getAuth(app);
 export const storage = getStorage(app);
 
 /****************************************************
- * Types (relaxed to match UI)
+ * Local emulators (set REACT_APP_USE_FIREBASE_EMULATORS=true in .env.local)
  ****************************************************/
-export type Intake = {
-  serial?: string;
-  model?: string;
-  size?: string;
-  notes?: string;
-  photos?: string[];                        // will become HTTPS URLs after upload
-  createdAt?: Timestamp | string | Date | null;
-  [k: string]: any;
-};
+if (process.env.REACT_APP_USE_FIREBASE_EMULATORS === "true" && !(globalThis as any).__rokuEmulators) {
+  (globalThis as any).__rokuEmulators = true; // survive hot reloads
+  connectAuthEmulator(auth, "http://localhost:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "localhost", 8080);
+  connectStorageEmulator(storage, "localhost", 9199);
+}
 
-export type Repair = {
-  serial?: string;
-  model?: string;
-  actions?: string[];
-  failureMode?: string;
-  failureCode?: string;
-  disposition?: string;
-  notes?: string;
-  photos?: string[];                        // will become HTTPS URLs after upload
-  createdAt?: Timestamp | string | Date | null;
-  [k: string]: any;
-};
+/****************************************************
+ * Authentication
+ ****************************************************/
+/** Identity stamped on records: Firebase UID + display name (falls back to email). */
+export function actorFromUser(user: User): Actor {
+  return { uid: user.uid, name: user.displayName || user.email || user.uid };
+}
+
+export async function signIn(email: string, password: string): Promise<User> {
+  const cred = await signInWithEmailAndPassword(auth, email.trim(), password);
+  return cred.user;
+}
+
+export function signOutUser(): Promise<void> {
+  return signOut(auth);
+}
+
+export function onUserChanged(cb: (user: User | null) => void) {
+  return onAuthStateChanged(auth, cb);
+}
+
+/****************************************************
+ * User profiles & roles (users/{uid})
+ * A profile is created with DEFAULT_ROLES on first sign-in;
+ * only admins can change roles (see firestore.rules).
+ ****************************************************/
+function toProfile(uid: string, data: any): UserProfile {
+  return {
+    uid,
+    name: String(data?.name || uid),
+    email: data?.email || undefined,
+    roles: normalizeRoles(data?.roles),
+  };
+}
+
+export async function ensureUserProfile(user: User): Promise<void> {
+  const ref = doc(db, "users", user.uid);
+  const snap = await getDoc(ref);
+  if (snap.exists()) return;
+  await setDoc(ref, {
+    name: actorFromUser(user).name,
+    email: user.email || "",
+    roles: DEFAULT_ROLES,
+    createdAt: serverTimestamp(),
+  });
+}
+
+export function listenUserProfile(uid: string, cb: (profile: UserProfile | null) => void) {
+  return onSnapshot(
+    doc(db, "users", uid),
+    (snap) => cb(snap.exists() ? toProfile(uid, snap.data()) : null),
+    () => cb(null)
+  );
+}
+
+export function listenUsers(cb: (users: UserProfile[]) => void) {
+  return onSnapshot(collection(db, "users"), (snap) => {
+    cb(snap.docs.map((d) => toProfile(d.id, d.data())).sort((a, b) => a.name.localeCompare(b.name)));
+  });
+}
+
+export async function setUserRoles(uid: string, roles: Role[]): Promise<void> {
+  await updateDoc(doc(db, "users", uid), { roles });
+}
 
 /****************************************************
  * Helpers: upload dataURL -> Storage -> URL
@@ -82,83 +176,213 @@ function dataURLtoBlob(dataURL: string): Blob {
   return new Blob([u8], { type: mime });
 }
 
+/** The path depends only on the record and photo index, so an outbox retry overwrites its earlier upload. */
 async function uploadPhotoAndGetURL(
   folder: "intakes" | "repairs",
+  recordId: string,
   serial: string,
   idx: number,
-  dataUrl: string
+  dataUrl: string,
+  suffix = ""
 ): Promise<string> {
   const blob = dataURLtoBlob(dataUrl);
-  const path = `${folder}/${serial || "unknown"}/${Date.now()}_${idx}.jpg`;
+  // Name after the actual type (PhotoPicker stores JPEG; older drafts may hold PNG / WebP)
+  const path = `${folder}/${serial || "unknown"}/${recordId}_${idx}${suffix}.${extensionFor(blob.type)}`;
   const ref = storageRef(storage, path);
-  await uploadBytes(ref, blob);
+  await uploadBytes(ref, blob, { contentType: blob.type });
   return await getDownloadURL(ref);
 }
 
+type PhotoFields = Pick<Intake, "photos" | "thumbs" | "photoItems" | "annotated">;
+
+/**
+ * Upload data-URL photos with their thumbnails and annotated copies (stored
+ * next to the original as `_thumb` / `_annotated`); per-photo fields stay
+ * aligned with the photos kept.
+ */
 async function normalizePhotos(
   folder: "intakes" | "repairs",
-  serial: string | undefined,
-  photos: string[] | undefined
-): Promise<string[]> {
-  if (!photos || photos.length === 0) return [];
+  record: PhotoFields & { id: string; serial?: string }
+): Promise<PhotoFields> {
+  const { id, serial, photos, thumbs, photoItems, annotated } = record;
+  const upload = (n: number, dataUrl: string, suffix: string) =>
+    dataUrl.startsWith("data:") ? uploadPhotoAndGetURL(folder, id, serial || "unknown", n, dataUrl, suffix) : Promise.resolve(dataUrl);
   // Only upload items that are data URLs; keep existing HTTPS links
   const results: string[] = [];
+  const thumbResults: string[] = [];
+  const itemResults: string[] = [];
+  const annotatedResults: string[] = [];
   let idx = 0;
-  for (const p of photos) {
-    if (p && p.startsWith("data:")) {
-      const url = await uploadPhotoAndGetURL(folder, serial || "unknown", idx++, p);
-      results.push(url);
-    } else if (p && p.startsWith("http")) {
-      results.push(p);
-    }
+  for (let i = 0; i < (photos || []).length; i++) {
+    const p = photos[i];
+    if (!p || !(p.startsWith("data:") || p.startsWith("http"))) continue;
+    const n = idx++;
+    results.push(await upload(n, p, ""));
+    thumbResults.push(await upload(n, thumbs?.[i] || "", "_thumb"));
+    annotatedResults.push(await upload(n, annotated?.[i] || "", "_annotated"));
+    itemResults.push(photoItems?.[i] || "");
   }
-  return results;
+  return {
+    photos: results,
+    thumbs: thumbs && thumbResults,
+    photoItems: photoItems && itemResults,
+    annotated: annotated && annotatedResults,
+  };
 }
 
 /****************************************************
- * Cloud Saves (now upload photos first)
+ * Cloud Saves (upload photos first, then write the doc under the record ID
+ * with setDoc so retries and double submits overwrite instead of duplicating).
+ * Intakes and repairs keep their client capture times; the server time of
+ * the upload goes to `syncedAt`.
  ****************************************************/
 export async function saveIntakeCloud(payload: Intake) {
-  const photoURLs = await normalizePhotos("intakes", payload.serial, payload.photos);
+  const errors = validateIntake(payload);
+  if (errors.length) throw new Error(`Invalid intake: ${errors.join("; ")}`);
+  const uploaded = await normalizePhotos("intakes", payload);
   const data = {
-    ...payload,
-    photos: photoURLs,
-    createdAt: serverTimestamp(),
+    ...withoutUndefined({ ...payload, ...uploaded }),
+    syncedAt: serverTimestamp(),
   };
-  await addDoc(collection(db, "intakes"), data);
+  await setDoc(doc(db, "intakes", payload.id), data);
+  return payload.id;
 }
 
 export async function saveRepairCloud(payload: Repair) {
-  const photoURLs = await normalizePhotos("repairs", payload.serial, payload.photos);
+  const errors = validateRepair(payload);
+  if (errors.length) throw new Error(`Invalid repair: ${errors.join("; ")}`);
+  const uploaded = await normalizePhotos("repairs", payload);
   const data = {
-    ...payload,
-    photos: photoURLs,
-    createdAt: serverTimestamp(),
+    ...withoutUndefined({ ...payload, ...uploaded }),
+    syncedAt: serverTimestamp(),
   };
-  await addDoc(collection(db, "repairs"), data);
+  await setDoc(doc(db, "repairs", payload.id), data);
+  return payload.id;
+}
+
+/** QE hold decisions keep the client timestamp: the reviewer's decision time matters, not arrival. */
+export async function saveHoldReviewCloud(payload: HoldReview) {
+  const errors = validateHoldReview(payload);
+  if (errors.length) throw new Error(`Invalid hold review: ${errors.join("; ")}`);
+  await setDoc(doc(db, "holdReviews", payload.id), withoutUndefined(payload));
+  return payload.id;
+}
+
+/** Lifecycle events also keep the client timestamp; it orders a serial's transitions. */
+export async function saveUnitEventCloud(payload: UnitEvent) {
+  const errors = validateUnitEvent(payload);
+  if (errors.length) throw new Error(`Invalid unit event: ${errors.join("; ")}`);
+  await setDoc(doc(db, "unitEvents", payload.id), withoutUndefined(payload));
+  return payload.id;
+}
+
+export async function saveQcCheckCloud(payload: QcCheck) {
+  const errors = validateQcCheck(payload);
+  if (errors.length) throw new Error(`Invalid QC check: ${errors.join("; ")}`);
+  await setDoc(doc(db, "qcChecks", payload.id), withoutUndefined(payload));
+  return payload.id;
+}
+
+/** Sessions are rewritten in place as the soak is paused, resumed and ended. */
+export async function saveBurnInSessionCloud(payload: BurnInSession) {
+  const errors = validateBurnInSession(payload);
+  if (errors.length) throw new Error(`Invalid burn-in session: ${errors.join("; ")}`);
+  await setDoc(doc(db, "burnInSessions", payload.id), withoutUndefined(payload));
+  return payload.id;
+}
+
+export async function saveHarvestCloud(payload: Harvest) {
+  const errors = validateHarvest(payload);
+  if (errors.length) throw new Error(`Invalid harvest: ${errors.join("; ")}`);
+  await setDoc(doc(db, "harvests", payload.id), withoutUndefined(payload));
+  return payload.id;
+}
+
+export async function saveStockMoveCloud(payload: StockMove) {
+  const errors = validateStockMove(payload);
+  if (errors.length) throw new Error(`Invalid stock move: ${errors.join("; ")}`);
+  await setDoc(doc(db, "stockMoves", payload.id), withoutUndefined(payload));
+  return payload.id;
 }
 
 /****************************************************
- * Real-time listeners
+ * Real-time listeners (rows are migrated to the current schema and decoded;
+ * malformed docs are skipped). Pending server timestamps are estimated so
+ * fresh local writes keep a date.
  ****************************************************/
-export function listenIntakes(
-  cb: (rows: Array<{ id: string; [k: string]: any }>) => void
-) {
-  const q = query(collection(db, "intakes"), orderBy("createdAt", "desc"));
+// Older intake / repair docs carry a server Timestamp createdAt, newer ones
+// the client ISO time, so they are ordered after decoding rather than by query
+const newestFirst = <T>(rows: T[], at: (row: T) => string) => rows.sort((a, b) => (at(a) < at(b) ? 1 : at(a) > at(b) ? -1 : 0));
+
+export function listenIntakes(cb: (rows: Intake[]) => void) {
+  return onSnapshot(collection(db, "intakes"), (snap) => {
+    const raw = snap.docs.map((d) => migrateIntake(d.data({ serverTimestamps: "estimate" }), { docId: d.id }));
+    cb(newestFirst(decodeAll(raw, (r) => decodeIntake(r), "intake"), (i) => i.createdAt));
+  });
+}
+
+export function listenRepairs(cb: (rows: Repair[]) => void) {
+  return onSnapshot(collection(db, "repairs"), (snap) => {
+    const raw = snap.docs.map((d) => migrateRepair(d.data({ serverTimestamps: "estimate" }), { docId: d.id }));
+    cb(newestFirst(decodeAll(raw, (r) => decodeRepair(r), "repair"), (r) => r.startAt));
+  });
+}
+
+export function listenHoldReviews(cb: (rows: HoldReview[]) => void) {
+  const q = query(collection(db, "holdReviews"), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    cb(decodeAll(snap.docs.map((d) => ({ ...d.data(), id: d.id })), (r) => decodeHoldReview(r), "hold review"));
+  });
+}
+
+export function listenUnitEvents(cb: (rows: UnitEvent[]) => void) {
+  const q = query(collection(db, "unitEvents"), orderBy("createdAt", "desc"));
   return onSnapshot(q, (snap) => {
-    cb(snap.docs.map((d) => ({ id: d.id, ...d.data() })));
+    cb(decodeAll(snap.docs.map((d) => ({ ...d.data(), id: d.id })), (r) => decodeUnitEvent(r), "unit event"));
   });
 }
 
-export function listenRepairs(
-  cb: (rows: Array<{ id: string; [k: string]: any }>) => void
-) {
-  const q = query(collection(db, "repairs"), orderBy("createdAt", "desc"));
+export function listenQcChecks(cb: (rows: QcCheck[]) => void) {
+  const q = query(collection(db, "qcChecks"), orderBy("createdAt", "desc"));
   return onSnapshot(q, (snap) => {
-    cb(snap.docs.map((d) => ({ id: d.id, ...d.data() })));
+    cb(decodeAll(snap.docs.map((d) => ({ ...d.data(), id: d.id })), (r) => decodeQcCheck(r), "QC check"));
   });
 }
 
+export function listenBurnInSessions(cb: (rows: BurnInSession[]) => void) {
+  const q = query(collection(db, "burnInSessions"), orderBy("startedAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    cb(decodeAll(snap.docs.map((d) => ({ ...d.data(), id: d.id })), (r) => decodeBurnInSession(r), "burn-in session"));
+  });
+}
+
+export function listenStockMoves(cb: (rows: StockMove[]) => void) {
+  const q = query(collection(db, "stockMoves"), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    cb(decodeAll(snap.docs.map((d) => ({ ...d.data(), id: d.id })), (r) => decodeStockMove(r), "stock move"));
+  });
+}
+
+export function listenHarvests(cb: (rows: Harvest[]) => void) {
+  const q = query(collection(db, "harvests"), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snap) => {
+    cb(decodeAll(snap.docs.map((d) => ({ ...d.data(), id: d.id })), (r) => decodeHarvest(r), "harvest"));
+  });
+}
+
+/****************************************************
+ * Admin settings (settings/{name}; admin-only writes)
+ ****************************************************/
+export function listenSetting<T>(def: SettingDef<T>, cb: (value: T | null) => void) {
+  return onSnapshot(doc(db, "settings", def.name), (snap) => {
+    cb(snap.exists() ? def.decode(snap.data()) : null);
+  });
+}
+
+export async function saveSettingCloud<T extends object>(def: SettingDef<T>, value: T): Promise<void> {
+  await setDoc(doc(db, "settings", def.name), { ...value, updatedAt: serverTimestamp() });
+}
+
 /****************************************************
  * Debug helpers
  ****************************************************/
@@ -0,0 +1,193 @@
+/**
+ * @jest-environment node
+ */
+// Firestore security rules, run against the emulator:
+//   npm run test:rules
+// Skipped when no emulator is running (FIRESTORE_EMULATOR_HOST unset).
+import fs from "fs";
+import path from "path";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { doc, getDoc, setDoc, updateDoc } from "firebase/firestore";
+
+const emulator = process.env.FIRESTORE_EMULATOR_HOST;
+const describeRules = emulator ? describe : describe.skip;
+
+describeRules("firestore.rules", () => {
+  let env: RulesTestEnvironment;
+
+  beforeAll(async () => {
+    const [host, port] = String(emulator).split(":");
+    env = await initializeTestEnvironment({
+      projectId: "roku-1ptv-repair-rules",
+      firestore: {
+        host,
+        port: Number(port),
+        rules: fs.readFileSync(path.resolve(__dirname, "../firestore.rules"), "utf8"),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await env.cleanup();
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      await setDoc(doc(db, "users/tech"), { name: "Tech", roles: ["technician"] });
+      await setDoc(doc(db, "users/tech2"), { name: "Tech 2", roles: ["technician"] });
+      await setDoc(doc(db, "users/qe"), { name: "QE", roles: ["qe"] });
+      await setDoc(doc(db, "users/admin"), { name: "Admin", roles: ["admin"] });
+    });
+  });
+
+  const intake = (uid: string) => ({ id: "i1", serial: "X001", createdBy: { uid, name: uid } });
+
+  test("signed-out users can read nothing", async () => {
+    const db = env.unauthenticatedContext().firestore();
+    await assertFails(getDoc(doc(db, "intakes/i1")));
+  });
+
+  test("staff save their own records but not as someone else", async () => {
+    const db = env.authenticatedContext("tech").firestore();
+    await assertSucceeds(setDoc(doc(db, "intakes/i1"), intake("tech")));
+    await assertFails(setDoc(doc(db, "intakes/i2"), intake("admin")));
+  });
+
+  test("an ownerless legacy intake is accepted once the syncing user claims it", async () => {
+    // What the outbox holds for intakes saved before sign-in (see claimEntry)
+    const legacy = { id: "i1", serial: "X001", createdAt: "2024-01-01T00:00:00.000Z" };
+    const db = env.authenticatedContext("tech").firestore();
+    await assertFails(setDoc(doc(db, "intakes/i1"), legacy));
+    await assertSucceeds(setDoc(doc(db, "intakes/i1"), { ...legacy, createdBy: { uid: "tech", name: "Tech" } }));
+  });
+
+  test("staff cannot overwrite someone else's intake or repair", async () => {
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertSucceeds(setDoc(doc(tech, "intakes/i1"), intake("tech")));
+    await assertSucceeds(setDoc(doc(tech, "repairs/r1"), { serial: "X001", createdBy: { uid: "tech", name: "tech" } }));
+    // A retry of one's own save is fine
+    await assertSucceeds(setDoc(doc(tech, "intakes/i1"), { ...intake("tech"), notes: "retried" }));
+
+    const other = env.authenticatedContext("tech2").firestore();
+    await assertFails(setDoc(doc(other, "intakes/i1"), intake("tech2")));
+    await assertFails(setDoc(doc(other, "intakes/i1"), { ...intake("tech"), notes: "edited" }));
+    await assertFails(setDoc(doc(other, "repairs/r1"), { serial: "X001", createdBy: { uid: "tech2", name: "tech2" } }));
+  });
+
+  test("append-only records may be rewritten unchanged but not edited", async () => {
+    const event = { serial: "X001", from: null, to: "Received", createdBy: { uid: "tech", name: "tech" } };
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertSucceeds(setDoc(doc(tech, "unitEvents/e1"), event));
+    await assertSucceeds(setDoc(doc(tech, "unitEvents/e1"), event));
+    await assertFails(setDoc(doc(tech, "unitEvents/e1"), { ...event, to: "Scrap" }));
+    const other = env.authenticatedContext("tech2").firestore();
+    await assertFails(setDoc(doc(other, "unitEvents/e1"), { ...event, createdBy: { uid: "tech2", name: "tech2" } }));
+    await assertSucceeds(setDoc(doc(tech, "harvests/h1"), { donorSerial: "D100", boards: [], createdBy: { uid: "tech", name: "tech" } }));
+    await assertFails(setDoc(doc(other, "harvests/h1"), { donorSerial: "D100", boards: [], createdBy: { uid: "tech2", name: "tech2" } }));
+  });
+
+  test("users without a role profile cannot save records", async () => {
+    const db = env.authenticatedContext("stranger").firestore();
+    await assertFails(setDoc(doc(db, "intakes/i1"), intake("stranger")));
+  });
+
+  test("first sign-in may only create a technician profile", async () => {
+    const db = env.authenticatedContext("newbie").firestore();
+    await assertFails(setDoc(doc(db, "users/newbie"), { name: "N", roles: ["admin"] }));
+    await assertSucceeds(setDoc(doc(db, "users/newbie"), { name: "N", roles: ["technician"] }));
+  });
+
+  test("only admins change roles", async () => {
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertFails(updateDoc(doc(tech, "users/tech"), { roles: ["admin"] }));
+    const admin = env.authenticatedContext("admin").firestore();
+    await assertSucceeds(updateDoc(doc(admin, "users/tech"), { roles: ["technician", "qe"] }));
+  });
+
+  test("settings are admin-only to write", async () => {
+    const qe = env.authenticatedContext("qe").firestore();
+    await assertSucceeds(getDoc(doc(qe, "settings/lists")));
+    await assertFails(setDoc(doc(qe, "settings/lists"), { sizes: [55] }));
+    const admin = env.authenticatedContext("admin").firestore();
+    await assertSucceeds(setDoc(doc(admin, "settings/lists"), { sizes: [55] }));
+  });
+
+  test("only QE records hold reviews", async () => {
+    const review = (uid: string) => ({ intakeId: "i1", serial: "X001", decision: "released", createdBy: { uid, name: uid } });
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertFails(setDoc(doc(tech, "holdReviews/h1"), review("tech")));
+    const qe = env.authenticatedContext("qe").firestore();
+    await assertFails(setDoc(doc(qe, "holdReviews/h1"), review("admin")));
+    await assertSucceeds(setDoc(doc(qe, "holdReviews/h1"), review("qe")));
+  });
+
+  test("staff record their own unit lifecycle events", async () => {
+    const event = (uid: string) => ({ serial: "X001", from: null, to: "Received", createdBy: { uid, name: uid } });
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertSucceeds(setDoc(doc(tech, "unitEvents/e1"), event("tech")));
+    await assertFails(setDoc(doc(tech, "unitEvents/e2"), event("qe")));
+  });
+
+  test("staff record their own QC checks", async () => {
+    const check = (uid: string) => ({ serial: "X001", result: "Pass", createdBy: { uid, name: uid } });
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertSucceeds(setDoc(doc(tech, "qcChecks/q1"), check("tech")));
+    await assertFails(setDoc(doc(tech, "qcChecks/q2"), check("qe")));
+  });
+
+  test("any staff member may update a burn-in session but not its creator", async () => {
+    const session = (uid: string) => ({ serial: "X001", startedAt: "2025-03-01T08:00:00Z", events: [], createdBy: { uid, name: uid } });
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertFails(setDoc(doc(tech, "burnInSessions/b1"), session("qe")));
+    await assertSucceeds(setDoc(doc(tech, "burnInSessions/b1"), session("tech")));
+    const qe = env.authenticatedContext("qe").firestore();
+    await assertSucceeds(setDoc(doc(qe, "burnInSessions/b1"), { ...session("tech"), outcome: "Stopped" }));
+    await assertFails(setDoc(doc(qe, "burnInSessions/b1"), session("qe")));
+  });
+
+  test("technicians consume stock, only leads and admins receive it", async () => {
+    const move = (uid: string, reason: string) => ({ partNumber: "PSU-55A", delta: reason === "consume" ? -1 : 5, reason, createdBy: { uid, name: uid } });
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertSucceeds(setDoc(doc(tech, "stockMoves/m1"), move("tech", "consume")));
+    await assertFails(setDoc(doc(tech, "stockMoves/m2"), move("tech", "receive")));
+    const admin = env.authenticatedContext("admin").firestore();
+    await assertSucceeds(setDoc(doc(admin, "stockMoves/m2"), move("admin", "receive")));
+  });
+
+  test("stock deltas must have the sign their reason implies", async () => {
+    const move = (reason: string, delta: number, uid = "tech") => ({ partNumber: "PSU-55A", delta, reason, createdBy: { uid, name: uid } });
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertFails(setDoc(doc(tech, "stockMoves/m1"), move("consume", 3)));
+    await assertFails(setDoc(doc(tech, "stockMoves/m2"), move("harvest", -1)));
+    await assertFails(setDoc(doc(tech, "stockMoves/m3"), move("consume", -0.5)));
+    const admin = env.authenticatedContext("admin").firestore();
+    await assertFails(setDoc(doc(admin, "stockMoves/m4"), move("receive", -5, "admin")));
+    await assertFails(setDoc(doc(admin, "stockMoves/m5"), move("adjust", 0, "admin")));
+    await assertSucceeds(setDoc(doc(admin, "stockMoves/m6"), move("adjust", -2, "admin")));
+    // The ledger is append-only: a consume cannot later become a receipt
+    await assertSucceeds(setDoc(doc(tech, "stockMoves/m7"), move("consume", -1)));
+    await assertFails(setDoc(doc(admin, "stockMoves/m7"), move("receive", 5, "admin")));
+  });
+
+  test("technicians record harvests and stock the harvested boards", async () => {
+    const tech = env.authenticatedContext("tech").firestore();
+    const by = { uid: "tech", name: "tech" };
+    await assertSucceeds(setDoc(doc(tech, "harvests/h1"), { donorSerial: "D100", boards: [], createdBy: by }));
+    await assertFails(setDoc(doc(tech, "harvests/h2"), { donorSerial: "D100", boards: [], createdBy: { uid: "qe", name: "qe" } }));
+    await assertSucceeds(setDoc(doc(tech, "stockMoves/m3"), { partNumber: "PSU-55A", delta: 1, reason: "harvest", createdBy: by }));
+  });
+
+  test("QE may publish checklist templates", async () => {
+    const qe = env.authenticatedContext("qe").firestore();
+    await assertSucceeds(setDoc(doc(qe, "settings/checklist"), { templates: [] }));
+    const tech = env.authenticatedContext("tech").firestore();
+    await assertFails(setDoc(doc(tech, "settings/checklist"), { templates: [] }));
+  });
+});
@@ -0,0 +1,68 @@
+import { Annotation, arrowHead, drawAnnotation, ellipseOf, isMeaningful, strokeWidth } from "./annotate";
+
+/** Canvas context double recording path calls and the style in effect at each stroke / fill. */
+function recorder() {
+  const calls: string[] = [];
+  const ctx: any = {
+    strokeStyle: "",
+    fillStyle: "",
+    lineWidth: 0,
+    save: () => calls.push("save"),
+    restore: () => calls.push("restore"),
+    beginPath: () => calls.push("beginPath"),
+    moveTo: (x: number, y: number) => calls.push(`moveTo ${Math.round(x)},${Math.round(y)}`),
+    lineTo: (x: number, y: number) => calls.push(`lineTo ${Math.round(x)},${Math.round(y)}`),
+    ellipse: (...args: number[]) => calls.push(`ellipse ${args.slice(0, 4).join(",")}`),
+    stroke: () => calls.push(`stroke ${ctx.strokeStyle} ${ctx.lineWidth}`),
+    strokeText: (t: string) => calls.push(`strokeText ${t} ${ctx.strokeStyle}`),
+    fillText: (t: string) => calls.push(`fillText ${t} ${ctx.fillStyle}`),
+  };
+  return { ctx, calls };
+}
+
+test("stroke width scales with the photo", () => {
+  expect(strokeWidth(320, 240)).toBe(3);
+  expect(strokeWidth(1600, 1200)).toBe(8);
+});
+
+test("arrow heads point back along the shaft and circles fill the dragged box", () => {
+  const [left, right] = arrowHead({ x: 0, y: 0 }, { x: 100, y: 0 }, 10);
+  expect(left.x).toBeCloseTo(100 - 10 * Math.cos(Math.PI / 6));
+  expect(left.y).toBeCloseTo(-5);
+  expect(right.y).toBeCloseTo(5);
+  expect(ellipseOf({ x: 50, y: 40 }, { x: 10, y: 0 })).toEqual({ cx: 30, cy: 20, rx: 20, ry: 20 });
+});
+
+test("clicks without a drag and empty labels are not kept", () => {
+  const p = { x: 10, y: 10 };
+  expect(isMeaningful({ kind: "arrow", from: p, to: { x: 12, y: 10 }, color: "red" }, 3)).toBe(false);
+  expect(isMeaningful({ kind: "circle", from: p, to: { x: 40, y: 40 }, color: "red" }, 3)).toBe(true);
+  expect(isMeaningful({ kind: "freehand", points: [p], color: "red" }, 3)).toBe(false);
+  expect(isMeaningful({ kind: "text", at: p, text: "  ", color: "red" }, 3)).toBe(false);
+});
+
+test("shapes are drawn in their color and text gets an outline", () => {
+  const { ctx, calls } = recorder();
+  const shapes: Annotation[] = [
+    { kind: "arrow", from: { x: 0, y: 0 }, to: { x: 100, y: 0 }, color: "#FF1744" },
+    { kind: "circle", from: { x: 0, y: 0 }, to: { x: 20, y: 10 }, color: "#2979FF" },
+    { kind: "freehand", points: [{ x: 1, y: 1 }, { x: 2, y: 3 }], color: "#00E676" },
+    { kind: "text", at: { x: 5, y: 5 }, text: "Crack", color: "#FFEA00" },
+  ];
+  shapes.forEach((a) => drawAnnotation(ctx, a, 4));
+  expect(calls.slice(0, 9)).toEqual([
+    "save",
+    "beginPath",
+    "moveTo 0,0",
+    "lineTo 100,0",
+    "moveTo 83,-10",
+    "lineTo 100,0",
+    "lineTo 83,10",
+    "stroke #FF1744 4",
+    "restore",
+  ]);
+  expect(calls).toContain("ellipse 10,5,10,5");
+  expect(calls).toContain("stroke #00E676 4");
+  expect(calls.slice(-3)).toEqual(["strokeText Crack #000", "fillText Crack #FFEA00", "restore"]);
+  expect(ctx.font).toBe("bold 24px sans-serif");
+});
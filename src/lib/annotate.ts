@@ -0,0 +1,117 @@
+// src/lib/annotate.ts
+// Defect marking on photos. The annotation editor (App) collects shapes in
+// image pixel coordinates; saving draws them onto the photo and keeps that
+// flattened copy in `annotated`, next to the untouched original.
+
+export type Point = { x: number; y: number };
+
+export type AnnotationTool = "arrow" | "circle" | "freehand" | "text";
+
+export const ANNOTATION_TOOLS: AnnotationTool[] = ["arrow", "circle", "freehand", "text"];
+
+export type Annotation =
+  | { kind: "arrow"; from: Point; to: Point; color: string }
+  | { kind: "circle"; from: Point; to: Point; color: string }   // ellipse inside the dragged box
+  | { kind: "freehand"; points: Point[]; color: string }
+  | { kind: "text"; at: Point; text: string; color: string };
+
+export const ANNOTATION_COLORS = ["#FF1744", "#FFEA00", "#00E676", "#2979FF", "#FFFFFF"];
+
+/** Line width that reads at any photo size: 0.5% of the longest edge, at least 3px. */
+export const strokeWidth = (width: number, height: number) => Math.max(3, Math.round(Math.max(width, height) / 200));
+
+/** End points of the two barbs of an arrow head at `to`. */
+export function arrowHead(from: Point, to: Point, size: number): [Point, Point] {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const barb = (turn: number) => ({
+    x: to.x - size * Math.cos(angle + turn),
+    y: to.y - size * Math.sin(angle + turn),
+  });
+  return [barb(Math.PI / 6), barb(-Math.PI / 6)];
+}
+
+/** Ellipse inscribed in the box dragged from `from` to `to`. */
+export function ellipseOf(from: Point, to: Point) {
+  return {
+    cx: (from.x + to.x) / 2,
+    cy: (from.y + to.y) / 2,
+    rx: Math.abs(to.x - from.x) / 2,
+    ry: Math.abs(to.y - from.y) / 2,
+  };
+}
+
+/** Shapes too small to mean anything (a click without a drag) are dropped. */
+export function isMeaningful(a: Annotation, lineWidth: number): boolean {
+  const far = (p: Point, q: Point) => Math.hypot(p.x - q.x, p.y - q.y) >= lineWidth * 2;
+  switch (a.kind) {
+    case "arrow":
+    case "circle":
+      return far(a.from, a.to);
+    case "freehand":
+      return a.points.length > 1;
+    case "text":
+      return a.text.trim() !== "";
+  }
+}
+
+type DrawContext = Pick<
+  CanvasRenderingContext2D,
+  | "save"
+  | "restore"
+  | "beginPath"
+  | "moveTo"
+  | "lineTo"
+  | "ellipse"
+  | "stroke"
+  | "strokeText"
+  | "fillText"
+  | "strokeStyle"
+  | "fillStyle"
+  | "lineWidth"
+  | "lineCap"
+  | "lineJoin"
+  | "font"
+  | "textBaseline"
+>;
+
+/** Draw one shape; text gets a dark outline so it reads on light and dark panels alike. */
+export function drawAnnotation(ctx: DrawContext, a: Annotation, lineWidth: number) {
+  ctx.save();
+  ctx.strokeStyle = a.color;
+  ctx.fillStyle = a.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  switch (a.kind) {
+    case "arrow": {
+      const [left, right] = arrowHead(a.from, a.to, lineWidth * 5);
+      ctx.moveTo(a.from.x, a.from.y);
+      ctx.lineTo(a.to.x, a.to.y);
+      ctx.moveTo(left.x, left.y);
+      ctx.lineTo(a.to.x, a.to.y);
+      ctx.lineTo(right.x, right.y);
+      ctx.stroke();
+      break;
+    }
+    case "circle": {
+      const e = ellipseOf(a.from, a.to);
+      ctx.ellipse(e.cx, e.cy, e.rx, e.ry, 0, 0, 2 * Math.PI);
+      ctx.stroke();
+      break;
+    }
+    case "freehand":
+      a.points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+      ctx.stroke();
+      break;
+    case "text":
+      ctx.font = `bold ${lineWidth * 6}px sans-serif`;
+      ctx.textBaseline = "middle";
+      ctx.strokeStyle = "#000";
+      ctx.lineWidth = lineWidth;
+      ctx.strokeText(a.text, a.at.x, a.at.y);
+      ctx.fillText(a.text, a.at.x, a.at.y);
+      break;
+  }
+  ctx.restore();
+}
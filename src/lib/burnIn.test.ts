@@ -0,0 +1,89 @@
+import {
+  BURN_IN,
+  burnInState,
+  endSession,
+  failSession,
+  interruptSession,
+  minimumMinutes,
+  qcSignOffBlock,
+  resumeSession,
+  sessionFor,
+  SessionChange,
+  soakMinutes,
+} from "./burnIn";
+import { BurnInSession } from "./domain";
+
+const tech = { uid: "t1", name: "Tech" };
+const t0 = Date.parse("2025-03-01T08:00:00Z");
+const at = (min: number) => new Date(t0 + min * 60000).toISOString();
+
+const session = (over: Partial<BurnInSession> = {}): BurnInSession => ({
+  id: "b1",
+  serial: "X001",
+  repairId: "r1",
+  family: "Roku Select",
+  minMinutes: 120,
+  startedAt: at(0),
+  events: [],
+  createdAt: at(0),
+  createdBy: tech,
+  ...over,
+});
+
+function unwrap(res: SessionChange): BurnInSession {
+  if (!res.ok) throw new Error(res.error);
+  return res.session;
+}
+
+test("family minimum overrides the default", () => {
+  const settings = BURN_IN.decode({ defaultMinutes: 90, families: { "Roku Select": 240, Bad: -5, "": 30 } });
+  expect(settings).toEqual({ defaultMinutes: 90, families: { "Roku Select": 240 } });
+  expect(minimumMinutes(settings, "Roku Select")).toBe(240);
+  expect(minimumMinutes(settings, "Other")).toBe(90);
+  expect(minimumMinutes(BURN_IN.decode(undefined), undefined)).toBe(BURN_IN.defaults.defaultMinutes);
+});
+
+test("interruptions pause the clock until resumed", () => {
+  let s = unwrap(interruptSession(session(), "Rack power cut", tech, at(30)));
+  expect(burnInState(s)).toBe("paused");
+  expect(soakMinutes(s, Date.parse(at(90)))).toBe(30);
+  expect(s.updatedAt).toBe(at(30));
+  s = unwrap(resumeSession(s, at(50)));
+  expect(burnInState(s)).toBe("running");
+  expect(s.updatedAt).toBe(at(50));
+  expect(soakMinutes(s, Date.parse(at(90)))).toBe(70);
+  expect(interruptSession(s, "", tech, at(60)).ok).toBe(false);
+});
+
+test("QC sign-off waits for the minimum", () => {
+  const s = session();
+  expect(qcSignOffBlock(undefined)).toMatch(/No burn-in/);
+  expect(qcSignOffBlock(s, Date.parse(at(100)))).toMatch(/needs 20 more min/);
+  expect(qcSignOffBlock(s, Date.parse(at(120)))).toBeNull();
+});
+
+test("ending early stops the session and keeps blocking", () => {
+  const stopped = unwrap(endSession(session(), at(45)));
+  expect(stopped.outcome).toBe("Stopped");
+  expect(qcSignOffBlock(stopped, Date.parse(at(500)))).toMatch(/stopped after 45 of 120/);
+  expect(unwrap(endSession(session(), at(125))).outcome).toBe("Completed");
+  expect(endSession(stopped, at(200)).ok).toBe(false);
+});
+
+test("a failure ends the session and closes an open interruption", () => {
+  const paused = unwrap(interruptSession(session(), "Moved rack", tech, at(10)));
+  const failed = unwrap(failSession(paused, "Shut down, no picture", tech, at(20)));
+  expect(burnInState(failed)).toBe("failed");
+  expect(failed.events.map((e) => e.kind)).toEqual(["interruption", "failure"]);
+  expect(failed.events[0].resumedAt).toBe(at(20));
+  expect(qcSignOffBlock(failed)).toMatch(/Failed/);
+});
+
+test("sessionFor picks the newest session of the current repair", () => {
+  const old = session({ id: "old", repairId: "r0", startedAt: at(-500) });
+  const cur = session({ id: "cur" });
+  const retry = session({ id: "retry", startedAt: at(60) });
+  expect(sessionFor([old, cur, retry], "X001", "r1")?.id).toBe("retry");
+  expect(sessionFor([old, cur], "X001", "r0")?.id).toBe("old");
+  expect(sessionFor([old, cur], "Y002")).toBeUndefined();
+});
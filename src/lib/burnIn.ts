@@ -0,0 +1,129 @@
+// src/lib/burnIn.ts
+// Burn-in / soak sessions. Repaired units in QC run on the soak rack for at
+// least the family minimum (Firestore settings/burnIn) before QC may pass them.
+// Interruptions pause the clock; a failure during soak ends the session.
+
+import { Actor, BurnInSession } from "./domain";
+import { SettingDef } from "./settings";
+
+export type BurnInSettings = {
+  defaultMinutes: number;
+  families: Record<string, number>;  // family → minimum minutes, overrides the default
+};
+
+export const DEFAULT_BURN_IN_MINUTES = 120;
+
+const toMinutes = (v: unknown): number | null => {
+  const n = Number(v);
+  return isFinite(n) && n > 0 ? Math.round(n) : null;
+};
+
+export const BURN_IN: SettingDef<BurnInSettings> = {
+  name: "burnIn",
+  defaults: { defaultMinutes: DEFAULT_BURN_IN_MINUTES, families: {} },
+  decode(raw) {
+    const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, any>;
+    const families: Record<string, number> = {};
+    if (r.families && typeof r.families === "object") {
+      Object.entries(r.families as Record<string, unknown>).forEach(([family, v]) => {
+        const minutes = toMinutes(v);
+        if (family.trim() && minutes) families[family.trim()] = minutes;
+      });
+    }
+    return { defaultMinutes: toMinutes(r.defaultMinutes) || DEFAULT_BURN_IN_MINUTES, families };
+  },
+};
+
+export const minimumMinutes = (settings: BurnInSettings, family: string | undefined): number =>
+  (family && settings.families[family]) || settings.defaultMinutes;
+
+export type BurnInState = "running" | "paused" | "completed" | "failed" | "stopped";
+
+export function burnInState(s: BurnInSession): BurnInState {
+  if (s.outcome === "Completed") return "completed";
+  if (s.outcome === "Failed") return "failed";
+  if (s.outcome === "Stopped") return "stopped";
+  return s.events.some((e) => e.kind === "interruption" && !e.resumedAt) ? "paused" : "running";
+}
+
+export const isActive = (s: BurnInSession) => !s.outcome;
+
+const ms = (iso: string) => new Date(iso).getTime();
+
+/** Whole minutes soaked: wall time since the start minus interrupted spans. */
+export function soakMinutes(s: BurnInSession, now: number = Date.now()): number {
+  const end = s.endedAt ? ms(s.endedAt) : now;
+  let paused = 0;
+  s.events.forEach((e) => {
+    if (e.kind !== "interruption") return;
+    const until = e.resumedAt ? ms(e.resumedAt) : end;
+    paused += Math.max(0, Math.min(until, end) - ms(e.at));
+  });
+  return Math.max(0, Math.floor((end - ms(s.startedAt) - paused) / 60000));
+}
+
+export const remainingMinutes = (s: BurnInSession, now: number = Date.now()) =>
+  Math.max(0, s.minMinutes - soakMinutes(s, now));
+
+/****************************************************
+ * Session changes. Each returns an updated copy, or an error string when the
+ * session is not in a state that allows it.
+ ****************************************************/
+export type SessionChange = { ok: true; session: BurnInSession } | { ok: false; error: string };
+
+export function interruptSession(s: BurnInSession, note: string, by: Actor, at: string): SessionChange {
+  if (burnInState(s) !== "running") return { ok: false, error: "Only a running soak can be interrupted" };
+  if (!note.trim()) return { ok: false, error: "Describe the interruption" };
+  return { ok: true, session: { ...s, events: [...s.events, { kind: "interruption", at, note: note.trim(), by }], updatedAt: at } };
+}
+
+export function resumeSession(s: BurnInSession, at: string): SessionChange {
+  if (burnInState(s) !== "paused") return { ok: false, error: "The soak is not paused" };
+  const events = s.events.map((e) => (e.kind === "interruption" && !e.resumedAt ? { ...e, resumedAt: at } : e));
+  return { ok: true, session: { ...s, events, updatedAt: at } };
+}
+
+/** A failure on the rack ends the session; QC then fails the unit back to repair. */
+export function failSession(s: BurnInSession, note: string, by: Actor, at: string): SessionChange {
+  if (!isActive(s)) return { ok: false, error: "The soak has already ended" };
+  if (!note.trim()) return { ok: false, error: "Describe the failure" };
+  const closed = resumeSession(s, at);
+  const base = closed.ok ? closed.session : s;
+  return {
+    ok: true,
+    session: {
+      ...base,
+      events: [...base.events, { kind: "failure", at, note: note.trim(), by }],
+      endedAt: at,
+      outcome: "Failed",
+      updatedAt: at,
+    },
+  };
+}
+
+/** End the soak: Completed once the minimum was reached, Stopped before that. */
+export function endSession(s: BurnInSession, at: string): SessionChange {
+  if (!isActive(s)) return { ok: false, error: "The soak has already ended" };
+  const closed = resumeSession(s, at);
+  const base = { ...(closed.ok ? closed.session : s), endedAt: at, updatedAt: at };
+  const outcome = soakMinutes(base) >= s.minMinutes ? "Completed" : "Stopped";
+  return { ok: true, session: { ...base, outcome } };
+}
+
+/** Newest session of a serial, limited to the given repair when one is known. */
+export function sessionFor(sessions: BurnInSession[], serial: string, repairId?: string): BurnInSession | undefined {
+  return sessions
+    .filter((s) => s.serial === serial && (!repairId || s.repairId === repairId))
+    .reduce<BurnInSession | undefined>((best, s) => (!best || s.startedAt > best.startedAt ? s : best), undefined);
+}
+
+/** Why QC may not pass the unit yet, or null once the soak minimum is met. */
+export function qcSignOffBlock(s: BurnInSession | undefined, now: number = Date.now()): string | null {
+  if (!s) return "No burn-in recorded – start a soak session first";
+  if (s.outcome === "Failed") return "Failed during burn-in";
+  const soaked = soakMinutes(s, now);
+  if (soaked >= s.minMinutes) return null;
+  return s.outcome === "Stopped"
+    ? `Burn-in was stopped after ${soaked} of ${s.minMinutes} min`
+    : `Burn-in needs ${s.minMinutes - soaked} more min (${soaked} of ${s.minMinutes})`;
+}
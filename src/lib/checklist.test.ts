@@ -0,0 +1,58 @@
+import {
+  CHECKLIST_TEMPLATES,
+  DEFAULT_CHECKLIST_TEMPLATE,
+  checklistRows,
+  currentTemplate,
+  initialChecklist,
+  itemKeyFromLabel,
+  missingEvidence,
+  publishTemplate,
+  templateFor,
+} from "./checklist";
+
+const v1 = CHECKLIST_TEMPLATES.defaults;
+
+test("publishing appends a new version and keeps the old ones", () => {
+  const items = DEFAULT_CHECKLIST_TEMPLATE.items.map((i) => (i.key === "cosmetic_base" ? { ...i, retired: true } : i));
+  const next = publishTemplate(v1, [...items, { key: "wall_mount", label: "Wall mount", title: "Wall mount", bullets: [], statuses: ["Pass", "Fail"] }]);
+  expect(currentTemplate(next).version).toBe(2);
+  expect(templateFor(next, 1)).toBe(DEFAULT_CHECKLIST_TEMPLATE);
+  const fresh = initialChecklist(currentTemplate(next));
+  expect(fresh.cosmetic_base).toBeUndefined();
+  expect(fresh.wall_mount).toBe("Pass");
+  expect(currentTemplate(publishTemplate(v1, [{ ...items[0], retired: undefined }])).items[0]).not.toHaveProperty("retired");
+});
+
+test("old intakes render with their template, including unknown answers", () => {
+  const rows = checklistRows(DEFAULT_CHECKLIST_TEMPLATE, { labels_match: "Fail", legacy_item: "Pass" });
+  expect(rows[0]).toEqual({ key: "labels_match", label: "Labels match", status: "Fail" });
+  expect(rows[rows.length - 1]).toEqual({ key: "legacy_item", label: "legacy item", status: "Pass" });
+});
+
+test("keeps previous answers that are still allowed", () => {
+  const fresh = initialChecklist(DEFAULT_CHECKLIST_TEMPLATE, { esd_ok: "Conditional", safety_ok: "Fail" } as any);
+  expect(fresh.esd_ok).toBe("Pass");
+  expect(fresh.safety_ok).toBe("Fail");
+});
+
+test("decoding always keeps version 1 available", () => {
+  const decoded = CHECKLIST_TEMPLATES.decode({ templates: [{ version: 3, items: [{ key: "a" }] }] });
+  expect(decoded.templates.map((t) => t.version)).toEqual([1, 3]);
+  expect(templateFor(decoded, 2).version).toBe(1);
+});
+
+test("derives item keys from labels", () => {
+  expect(itemKeyFromLabel("Cosmetic – Wall mount")).toBe("cosmetic_wall_mount");
+});
+
+test("Conditional / Fail answers on photo-required items need evidence", () => {
+  const items = DEFAULT_CHECKLIST_TEMPLATE.items.map((i) => (i.key.startsWith("cosmetic_") ? { ...i, photoRequired: true } : i));
+  const t = currentTemplate(publishTemplate(v1, items));
+  expect(t.items.find((i) => i.key === "cosmetic_bezel")?.photoRequired).toBe(true);
+  expect(t.items.find((i) => i.key === "safety_ok")).not.toHaveProperty("photoRequired");
+
+  const checklist = { ...initialChecklist(t), cosmetic_bezel: "Fail", cosmetic_screen: "Conditional", safety_ok: "Fail" } as const;
+  expect(missingEvidence(t, checklist).map((i) => i.key)).toEqual(["cosmetic_screen", "cosmetic_bezel"]);
+  expect(missingEvidence(t, checklist, ["", "cosmetic_bezel"]).map((i) => i.key)).toEqual(["cosmetic_screen"]);
+  expect(missingEvidence(t, { ...checklist, cosmetic_screen: "Pass" }, ["cosmetic_bezel"])).toEqual([]);
+});
@@ -0,0 +1,216 @@
+// src/lib/checklist.ts
+// Pre-repair checklist templates, edited by QE from the Admin tab
+// (Firestore settings/checklist). Templates are append-only: every publish
+// adds a new version and each intake records the version it was filled
+// against, so older intakes keep rendering with their original items.
+
+import { ChecklistStatus, CHECKLIST_STATUSES, Checklist } from "./domain";
+import { SettingDef } from "./settings";
+
+export type ChecklistItemDef = {
+  key: string;                   // stored in Intake.checklist; never reused for another meaning
+  label: string;                 // row label on the intake form
+  title: string;                 // criteria heading
+  bullets: string[];             // pass / conditional / fail criteria
+  statuses: ChecklistStatus[];   // allowed answers, first one is the default
+  retired?: boolean;             // kept for history, hidden on new intakes
+  photoRequired?: boolean;       // a Conditional / Fail answer needs a photo of this item
+};
+
+export type ChecklistTemplate = {
+  version: number;
+  items: ChecklistItemDef[];
+  publishedAt?: string;
+  publishedBy?: string;
+};
+
+export type ChecklistTemplates = { templates: ChecklistTemplate[] };
+
+const item = (key: string, label: string, title: string, bullets: string[], statuses = CHECKLIST_STATUSES) => ({
+  key,
+  label,
+  title,
+  bullets,
+  statuses,
+});
+
+/** Version 1 – the checklist that shipped hardcoded in the initial release. */
+export const DEFAULT_CHECKLIST_TEMPLATE: ChecklistTemplate = {
+  version: 1,
+  items: [
+    item("labels_match", "Labels match", "Labels match", [
+      "Carton/rear/RMA match model/size/market; serial readable.",
+      "Regulatory marks present (UL/FCC/ICES/RCM).",
+      "Mismatch → Conditional; missing/altered → Fail.",
+    ]),
+    item("safety_ok", "Safety OK", "Safety", [
+      "Cord insulation intact; ground prong present.",
+      "Rear cover fully seated; EMI shields in place.",
+      "Any safety defect → Fail.",
+    ]),
+    item("ports_intact", "Ports intact", "Ports", [
+      "HDMI/USB/Coax/Optical aligned; no bent pins.",
+      "Minor scuff → Conditional; cracked/bent → Fail.",
+    ]),
+    item("power_symptom", "Power symptom reproduced", "Power symptom", [
+      "Reproduce symptom; log LED/boot code if any.",
+      "Not reproducible after 2 cycles → N/A note.",
+    ]),
+    item("esd_ok", "ESD setup OK", "ESD setup", ["Wrist strap verified; mat ground <10MΩ.", "Any breach → Fail."], [
+      "Pass",
+      "Fail",
+    ]),
+    item("cosmetic_backcover", "Cosmetic – Back cover", "Cosmetic – Back cover", [
+      "No cracks/dents; tabs not broken.",
+      "Scratch ≤30mm → Conditional; cracks/gouges → Fail.",
+    ]),
+    item("cosmetic_screen", "Cosmetic – Screen", "Cosmetic – Screen", [
+      "No cracks, lines, pressure mura.",
+      "Hairline scratch ≤10mm outside AA → Conditional.",
+    ]),
+    item("cosmetic_bezel", "Cosmetic – Bezel", "Cosmetic – Bezel", [
+      "No cracks/chips; light scuffs okay.",
+      "Gaps >1.5mm/deformation → Fail.",
+    ]),
+    item("cosmetic_base", "Cosmetic – Base / Stand", "Cosmetic – Base/Stand", [
+      "Stable; no cracks; scuffs okay → Conditional.",
+      "Structural damage → Fail.",
+    ]),
+    item("accessory_remote", "Accessory – Remote", "Accessory – Remote", [
+      "Correct model; housing intact; battery door present.",
+      "Missing → Fail; wrong model → Conditional.",
+    ]),
+    item("accessory_stand", "Accessory – Stand parts", "Accessory – Stand parts", [
+      "All legs/feet/trims present; fits firmly.",
+      "Missing structural piece → Fail.",
+    ]),
+    item("accessory_powercord", "Accessory – Power cord", "Accessory – Power cord", [
+      "OEM spec; no cuts; strain relief OK.",
+      "Non-OEM but compatible → Conditional; damage → Fail.",
+    ]),
+    item("accessory_screws", "Accessory – Screws", "Accessory – Screws", [
+      "Correct count/thread; heads not stripped.",
+      "Missing critical screw(s) → Fail.",
+    ]),
+  ],
+};
+
+/** Stable storage key from a label: "Cosmetic – Feet" → "cosmetic_feet". */
+export function itemKeyFromLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+function decodeItem(raw: unknown): ChecklistItemDef | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, any>;
+  const key = String(r.key || "").trim();
+  if (!key) return null;
+  const statuses = Array.isArray(r.statuses) ? CHECKLIST_STATUSES.filter((s) => r.statuses.includes(s)) : [];
+  return {
+    key,
+    label: String(r.label || key),
+    title: String(r.title || r.label || key),
+    bullets: Array.isArray(r.bullets) ? r.bullets.map(String).filter(Boolean) : [],
+    statuses: statuses.length ? statuses : CHECKLIST_STATUSES,
+    ...(r.retired ? { retired: true } : {}),
+    ...(r.photoRequired ? { photoRequired: true } : {}),
+  };
+}
+
+function decodeTemplate(raw: unknown): ChecklistTemplate | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, any>;
+  const version = Number(r.version);
+  if (!Number.isInteger(version) || version < 1 || !Array.isArray(r.items)) return null;
+  const items = r.items.map(decodeItem).filter((x: ChecklistItemDef | null): x is ChecklistItemDef => !!x);
+  return {
+    version,
+    items,
+    ...(r.publishedAt ? { publishedAt: String(r.publishedAt) } : {}),
+    ...(r.publishedBy ? { publishedBy: String(r.publishedBy) } : {}),
+  };
+}
+
+export const CHECKLIST_TEMPLATES: SettingDef<ChecklistTemplates> = {
+  name: "checklist",
+  defaults: { templates: [DEFAULT_CHECKLIST_TEMPLATE] },
+  decode(raw) {
+    const list = raw && typeof raw === "object" ? (raw as any).templates : null;
+    const templates: ChecklistTemplate[] = Array.isArray(list)
+      ? list.map(decodeTemplate).filter((t: ChecklistTemplate | null): t is ChecklistTemplate => !!t)
+      : [];
+    // Version 1 is always available for records that predate templates
+    if (!templates.some((t) => t.version === 1)) templates.push(DEFAULT_CHECKLIST_TEMPLATE);
+    return { templates: templates.sort((a, b) => a.version - b.version) };
+  },
+};
+
+export function currentTemplate(t: ChecklistTemplates): ChecklistTemplate {
+  return t.templates[t.templates.length - 1] || DEFAULT_CHECKLIST_TEMPLATE;
+}
+
+/** Template an intake was filled against (falls back to the nearest older version). */
+export function templateFor(t: ChecklistTemplates, version: number): ChecklistTemplate {
+  const older = t.templates.filter((x) => x.version <= version);
+  return older[older.length - 1] || DEFAULT_CHECKLIST_TEMPLATE;
+}
+
+export const activeItems = (template: ChecklistTemplate) => template.items.filter((i) => !i.retired);
+
+/** Fresh answers for a new intake: every active item at its default status. */
+export function initialChecklist(template: ChecklistTemplate, previous: Checklist = {}): Checklist {
+  const out: Checklist = {};
+  activeItems(template).forEach((i) => {
+    out[i.key] = i.statuses.includes(previous[i.key]) ? previous[i.key] : i.statuses[0];
+  });
+  return out;
+}
+
+/** Append a new version built from the edited items. */
+export function publishTemplate(
+  t: ChecklistTemplates,
+  items: ChecklistItemDef[],
+  publishedBy?: string
+): ChecklistTemplates {
+  const next: ChecklistTemplate = {
+    version: currentTemplate(t).version + 1,
+    // Round-trip through the decoder: drops empty keys and undefined fields Firestore rejects
+    items: items.map(decodeItem).filter((x): x is ChecklistItemDef => !!x),
+    publishedAt: new Date().toISOString(),
+    ...(publishedBy ? { publishedBy } : {}),
+  };
+  return { templates: [...t.templates, next] };
+}
+
+/** Answers that call for photo evidence of the item. */
+export const EVIDENCE_STATUSES: ChecklistStatus[] = ["Conditional", "Fail"];
+
+export const needsEvidence = (status: ChecklistStatus | undefined) => !!status && EVIDENCE_STATUSES.includes(status);
+
+/**
+ * Active items answered Conditional / Fail that require a photo but have
+ * none tagged with their key (`photoItems`, index-aligned with the photos).
+ */
+export function missingEvidence(template: ChecklistTemplate, checklist: Checklist, photoItems: string[] = []): ChecklistItemDef[] {
+  return activeItems(template).filter((i) => i.photoRequired && needsEvidence(checklist[i.key]) && !photoItems.includes(i.key));
+}
+
+export type ChecklistRow = { key: string; label: string; status: ChecklistStatus | undefined };
+
+/**
+ * Rows to display for a stored intake: the template's items in order
+ * (retired ones only when answered), then any answers the template
+ * does not know about.
+ */
+export function checklistRows(template: ChecklistTemplate, checklist: Checklist): ChecklistRow[] {
+  const rows: ChecklistRow[] = template.items
+    .filter((i) => !i.retired || checklist[i.key] !== undefined)
+    .map((i) => ({ key: i.key, label: i.label, status: checklist[i.key] }));
+  Object.keys(checklist).forEach((k) => {
+    if (!rows.some((r) => r.key === k)) rows.push({ key: k, label: k.replace(/_/g, " "), status: checklist[k] });
+  });
+  return rows;
+}
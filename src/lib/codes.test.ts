@@ -0,0 +1,31 @@
+import { CODE_CATALOG, CatalogCode, codesFor, describeCode, normalizeCode } from "./codes";
+
+const list: CatalogCode[] = [
+  { code: "PSU_NO_POWER", description: "PSU dead", status: "active", families: [] },
+  { code: "TCON_REWORK", description: "T-CON rework", status: "active", families: ["Abilene"] },
+  { code: "OLD_CODE", description: "Legacy", status: "retired", families: [] },
+];
+
+test("normalizes typed custom codes", () => {
+  expect(normalizeCode(" t-con rework ")).toBe("T_CON_REWORK");
+  expect(normalizeCode("psu/no power!")).toBe("PSU_NO_POWER");
+  expect(normalizeCode("__a  b__")).toBe("A_B");
+});
+
+test("offers only active codes applicable to the family", () => {
+  expect(codesFor(list, "abilene").map((c) => c.code)).toEqual(["PSU_NO_POWER", "TCON_REWORK"]);
+  expect(codesFor(list, "Burton").map((c) => c.code)).toEqual(["PSU_NO_POWER"]);
+});
+
+test("still describes retired and unknown codes", () => {
+  expect(describeCode(list, "OLD_CODE")).toBe("OLD_CODE — Legacy (retired)");
+  expect(describeCode(list, "CUSTOM_X")).toBe("CUSTOM_X");
+});
+
+test("decodes stored catalogs, dropping duplicates", () => {
+  const cat = CODE_CATALOG.decode({
+    failureCodes: [{ code: "psu no power", status: "retired" }, { code: "PSU_NO_POWER" }],
+  });
+  expect(cat.failureCodes).toEqual([{ code: "PSU_NO_POWER", description: "", status: "retired", families: [] }]);
+  expect(cat.actionCodes).toBe(CODE_CATALOG.defaults.actionCodes);
+});
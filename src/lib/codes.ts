@@ -0,0 +1,112 @@
+// src/lib/codes.ts
+// Admin-managed failure / action code catalog (Firestore settings/codes).
+// Codes are never deleted, only retired, so old repairs keep their meaning.
+
+import { SettingDef } from "./settings";
+
+export type CodeStatus = "active" | "retired";
+
+export type CatalogCode = {
+  code: string;
+  description: string;
+  status: CodeStatus;
+  families: string[];            // empty = applies to every family
+};
+
+export type CodeCatalog = {
+  failureCodes: CatalogCode[];
+  actionCodes: CatalogCode[];
+};
+
+const seed = (code: string, description: string): CatalogCode => ({
+  code,
+  description,
+  status: "active",
+  families: [],
+});
+
+export const DEFAULT_FAILURE_CODES: CatalogCode[] = [
+  seed("PSU_NO_POWER", "Power supply dead, no standby"),
+  seed("PSU_CYCLING", "Power supply cycling / clicking"),
+  seed("MB_NO_BOOT", "Main board does not boot"),
+  seed("TCON_NO_IMAGE", "T-CON fault, backlight but no image"),
+  seed("PANEL_LINES", "Lines on panel"),
+  seed("WIFI_WEAK", "Weak or no Wi-Fi"),
+  seed("HDMI_FAIL", "HDMI input not working"),
+  seed("AUDIO_NO_SOUND", "No audio"),
+  seed("OTHER", "Other / see notes"),
+];
+
+export const DEFAULT_ACTION_CODES: CatalogCode[] = [
+  seed("RESEAT_FFC", "Reseat flat flex cables"),
+  seed("REPLACE_CAPS", "Replace capacitors"),
+  seed("REPLACE_MB", "Replace main board"),
+  seed("REPLACE_PSU", "Replace power supply"),
+  seed("REPLACE_TCON", "Replace T-CON board"),
+  seed("FW_REFLASH", "Reflash firmware"),
+  seed("CLEAN_CONNECTOR", "Clean connector"),
+  seed("REWORK_SOLDER", "Solder rework"),
+];
+
+/** Canonical code form: "t-con rework" → "T_CON_REWORK". */
+export function normalizeCode(v: string): string {
+  return v
+    .trim()
+    .toUpperCase()
+    .replace(/[\s\-./]+/g, "_")
+    .replace(/[^A-Z0-9_]/g, "")
+    .replace(/_+/g, "_")
+    .replace(/^_|_$/g, "");
+}
+
+function decodeCodes(v: unknown, defaults: CatalogCode[]): CatalogCode[] {
+  if (!Array.isArray(v)) return defaults;
+  const seen = new Set<string>();
+  const out: CatalogCode[] = [];
+  v.forEach((raw) => {
+    if (!raw || typeof raw !== "object") return;
+    const code = normalizeCode(String((raw as any).code || ""));
+    if (!code || seen.has(code)) return;
+    seen.add(code);
+    const families = Array.isArray((raw as any).families)
+      ? (raw as any).families.map((f: unknown) => String(f).trim()).filter(Boolean)
+      : [];
+    out.push({
+      code,
+      description: String((raw as any).description || ""),
+      status: (raw as any).status === "retired" ? "retired" : "active",
+      families,
+    });
+  });
+  return out.length ? out : defaults;
+}
+
+export const CODE_CATALOG: SettingDef<CodeCatalog> = {
+  name: "codes",
+  defaults: { failureCodes: DEFAULT_FAILURE_CODES, actionCodes: DEFAULT_ACTION_CODES },
+  decode(raw) {
+    const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    return {
+      failureCodes: decodeCodes(r.failureCodes, DEFAULT_FAILURE_CODES),
+      actionCodes: decodeCodes(r.actionCodes, DEFAULT_ACTION_CODES),
+    };
+  },
+};
+
+/** Active codes that apply to a family (family match is case-insensitive). */
+export function codesFor(list: CatalogCode[], family?: string): CatalogCode[] {
+  const fam = (family || "").trim().toLowerCase();
+  return list.filter(
+    (c) =>
+      c.status === "active" &&
+      (c.families.length === 0 || !fam || c.families.some((f) => f.toLowerCase() === fam))
+  );
+}
+
+/** Display text for a stored code, including retired and unknown (custom) ones. */
+export function describeCode(list: CatalogCode[], code: string): string {
+  const hit = list.find((c) => c.code === code);
+  if (!hit) return code;
+  const desc = hit.description ? ` — ${hit.description}` : "";
+  return `${hit.code}${desc}${hit.status === "retired" ? " (retired)" : ""}`;
+}
@@ -0,0 +1,17 @@
+import { parseCSV, parseCSVRows } from "./csv";
+
+test("handles quotes, escaped quotes, commas and CRLF", () => {
+  expect(parseCSVRows('a,"b, c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+    ["a", "b, c", 'say "hi"'],
+    ["1", "2", "3"],
+  ]);
+  expect(parseCSVRows('"multi\nline",x')).toEqual([["multi\nline", "x"]]);
+});
+
+test("keys rows by header and skips blank lines", () => {
+  expect(parseCSV("\uFEFFname , qty\nPSU,2\n\n ,\nFFC")).toEqual([
+    { name: "PSU", qty: "2" },
+    { name: "FFC", qty: "" },
+  ]);
+  expect(parseCSV("")).toEqual([]);
+});
@@ -0,0 +1,57 @@
+// src/lib/csv.ts
+// Minimal CSV reading for admin imports: RFC 4180 quoting (the format
+// downloadCSV writes), header row first, blank lines skipped.
+
+/** Split CSV text into rows of fields. */
+export function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/** Rows keyed by the (trimmed) header names of the first row. */
+export function parseCSV(text: string): Array<Record<string, string>> {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) return [];
+  const keys = header.map((h) => h.trim());
+  return rows.map((r) => {
+    const out: Record<string, string> = {};
+    keys.forEach((k, i) => {
+      if (k) out[k] = (r[i] ?? "").trim();
+    });
+    return out;
+  });
+}
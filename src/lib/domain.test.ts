@@ -0,0 +1,261 @@
+import {
+  Decoded,
+  SCHEMA_VERSION,
+  decodeBurnInSession,
+  decodeHarvest,
+  decodeHoldReview,
+  decodeIntake,
+  decodeQcCheck,
+  decodeRepair,
+  decodeUnitEvent,
+  toISODate,
+  validateBurnInSession,
+  validateHarvest,
+  validateHoldReview,
+  validateIntake,
+  validateQcCheck,
+  validateRepair,
+  withoutUndefined,
+} from "./domain";
+import { DEFAULT_CHECKLIST_TEMPLATE, initialChecklist } from "./checklist";
+
+function unwrap<T>(res: Decoded<T>): T {
+  if (!res.ok) throw new Error(res.error);
+  return res.value;
+}
+
+const baseIntake = {
+  id: "i-1",
+  schemaVersion: SCHEMA_VERSION,
+  serial: "X001",
+  family: "Abilene",
+  model: "55R6A5R",
+  sizeIn: 55,
+  returnSource: "Amazon",
+  returnReason: "No power",
+  conditionIn: "OK",
+  checklist: initialChecklist(DEFAULT_CHECKLIST_TEMPLATE),
+  checklistVersion: 1,
+  photos: [],
+  createdAt: "2025-11-05T10:00:00.000Z",
+};
+
+test("converts Firestore Timestamp-like createdAt to ISO", () => {
+  const ts = { seconds: 1762336800, nanoseconds: 0 };
+  const res = decodeIntake({ ...baseIntake, createdAt: ts });
+  expect(res.ok && res.value.createdAt).toBe("2025-11-05T10:00:00.000Z");
+  const withToDate = { toDate: () => new Date("2025-11-05T10:00:00Z") };
+  expect(toISODate(withToDate)).toBe("2025-11-05T10:00:00.000Z");
+});
+
+test("tolerates a missing checklist and drops bad statuses", () => {
+  const { checklist, checklistVersion, ...noChecklist } = baseIntake;
+  const intake = unwrap(decodeIntake(noChecklist));
+  expect(intake.checklist).toEqual({});
+  expect(intake.checklistVersion).toBe(1);
+  const bad = decodeIntake({ ...baseIntake, checklist: { ...baseIntake.checklist, safety_ok: "Maybe" } });
+  expect(unwrap(bad).checklist.safety_ok).toBeUndefined();
+});
+
+test("uses the document id when the payload has none", () => {
+  const { id, ...rest } = baseIntake;
+  const res = decodeIntake(rest, "doc-9");
+  expect(res.ok && res.value.id).toBe("doc-9");
+});
+
+test("rejects intakes without serial, date or current schema version", () => {
+  expect(decodeIntake({ ...baseIntake, schemaVersion: undefined }).ok).toBe(false);
+  expect(decodeIntake({ ...baseIntake, schemaVersion: SCHEMA_VERSION + 1 }).ok).toBe(false);
+  expect(decodeIntake({ ...baseIntake, serial: "  " }).ok).toBe(false);
+  expect(decodeIntake({ ...baseIntake, createdAt: null }).ok).toBe(false);
+  expect(decodeIntake("nope").ok).toBe(false);
+});
+
+test("normalizes repairs and falls back to createdAt for startAt", () => {
+  const repair = unwrap(decodeRepair({
+    id: "r-1",
+    schemaVersion: SCHEMA_VERSION,
+    serial: "X001",
+    createdAt: { seconds: 1762336800 },
+    disposition: "Repaired",
+    actions: ["RESEAT_FFC", 3, null],
+  }));
+  expect(repair.startAt).toBe("2025-11-05T10:00:00.000Z");
+  expect(repair.failureCode).toBe("OTHER");
+  expect(repair.actions).toEqual(["RESEAT_FFC"]);
+  expect(repair.photos).toEqual([]);
+  expect(decodeRepair({ id: "r-2", schemaVersion: SCHEMA_VERSION, serial: "X", startAt: "2025-01-01", disposition: "Lost" }).ok).toBe(false);
+});
+
+test("validates intakes before writing", () => {
+  expect(validateIntake(baseIntake as any)).toEqual([]);
+  expect(validateIntake({ ...baseIntake, serial: "" } as any)).toContain("serial is required");
+});
+
+test("thumbnails are kept one per photo", () => {
+  expect(unwrap(decodeIntake(baseIntake)).thumbs).toBeUndefined();
+  const i = unwrap(decodeIntake({ ...baseIntake, photos: ["https://x/1.jpg", "https://x/2.jpg"], thumbs: ["https://x/1_thumb.jpg", 7, "extra"] }));
+  expect(i.thumbs).toEqual(["https://x/1_thumb.jpg", ""]);
+  // A missing photo does not shift the thumbnails and mark-ups of the ones after it
+  const gap = unwrap(
+    decodeIntake({
+      ...baseIntake,
+      photos: ["https://x/1.jpg", "", "https://x/3.jpg"],
+      thumbs: ["https://x/1_thumb.jpg", "https://x/2_thumb.jpg", "https://x/3_thumb.jpg"],
+      annotated: ["", "", "https://x/3_annotated.jpg"],
+    })
+  );
+  expect(gap.photos).toEqual(["https://x/1.jpg", "https://x/3.jpg"]);
+  expect(gap.thumbs).toEqual(["https://x/1_thumb.jpg", "https://x/3_thumb.jpg"]);
+  expect(gap.annotated).toEqual(["", "https://x/3_annotated.jpg"]);
+  expect(validateIntake({ ...baseIntake, photos: ["a"], thumbs: [] } as any)).toContain("thumbs must have one entry per photo");
+  const tagged = unwrap(decodeIntake({ ...baseIntake, photos: ["https://x/1.jpg"], photoItems: ["cosmetic_bezel", "labels_match"] }));
+  expect(tagged.photoItems).toEqual(["cosmetic_bezel"]);
+  const marked = unwrap(decodeIntake({ ...baseIntake, photos: ["https://x/1.jpg", "https://x/2.jpg"], annotated: [null, "https://x/2_annotated.jpg"] }));
+  expect(marked.annotated).toEqual(["", "https://x/2_annotated.jpg"]);
+  const synced = unwrap(decodeIntake({ ...baseIntake, syncedAt: { seconds: 1700000000 } }));
+  expect(synced.syncedAt).toBe(new Date(1700000000 * 1000).toISOString());
+  expect(validateIntake({ ...baseIntake, photos: ["a"], annotated: [] } as any)).toContain("annotated must have one entry per photo");
+});
+
+test("keeps the hold verdict stored on an intake", () => {
+  expect(unwrap(decodeIntake(baseIntake)).hold).toBeUndefined();
+  const held = unwrap(
+    decodeIntake({ ...baseIntake, hold: { held: true, hits: [{ itemKey: "safety_ok", status: "Fail" }, { itemKey: "x", status: "Bogus" }] } })
+  );
+  expect(held.hold).toEqual({ held: true, hits: [{ itemKey: "safety_ok", status: "Fail" }] });
+  expect(unwrap(decodeIntake({ ...baseIntake, hold: { held: true, hits: [] } })).hold).toEqual({ held: false, hits: [] });
+});
+
+test("decodes QE hold reviews and requires a reviewer note", () => {
+  const raw = {
+    intakeId: "i-1",
+    serial: "X1",
+    decision: "released",
+    note: "Labels re-printed",
+    createdAt: { seconds: 1700000000 },
+    createdBy: { uid: "qe1", name: "Quinn" },
+  };
+  const review = unwrap(decodeHoldReview(raw, "h-1"));
+  expect(review.id).toBe("h-1");
+  expect(review.createdAt).toBe(new Date(1700000000 * 1000).toISOString());
+  expect(decodeHoldReview({ ...raw, decision: "maybe" }, "h-1").ok).toBe(false);
+  expect(validateHoldReview({ ...review, note: " " })).toEqual(["note is required"]);
+});
+
+test("decodes unit lifecycle events", () => {
+  const raw = { serial: "X1", from: null, to: "Received", cause: "intake", createdAt: "2025-03-01T00:00:00Z", createdBy: { uid: "u1" } };
+  expect(unwrap(decodeUnitEvent(raw, "e-1"))).toMatchObject({ id: "e-1", from: null, to: "Received", createdBy: { uid: "u1", name: "u1" } });
+  expect(decodeUnitEvent({ ...raw, to: "Lost" }, "e-1").ok).toBe(false);
+  expect(unwrap(decodeUnitEvent({ ...raw, cause: "robot" }, "e-1")).cause).toBe("manual");
+});
+
+test("QC checks only pass when every step passed", () => {
+  const allPass = Object.fromEntries(
+    ["power_on", "boot_home", "panel_uniformity", "hdmi_ports", "wifi", "audio", "remote_pairing", "burn_in"].map((k) => [k, "Pass"])
+  );
+  const raw = { serial: "X1", steps: allPass, burnInMinutes: "240", createdAt: "2025-03-01T00:00:00Z", createdBy: { uid: "u1" } };
+  const qc = unwrap(decodeQcCheck({ ...raw, result: "Fail" }, "q-1"));
+  expect(qc.result).toBe("Pass");
+  expect(qc.burnInMinutes).toBe(240);
+  const partial = unwrap(decodeQcCheck({ ...raw, steps: { ...allPass, wifi: undefined } }, "q-2"));
+  expect(partial.steps.wifi).toBe("Fail");
+  expect(partial.result).toBe("Fail");
+  expect(validateQcCheck({ ...qc, result: "Fail" })).toEqual(["result does not match the steps"]);
+});
+
+test("burn-in sessions keep valid soak events and a consistent outcome", () => {
+  const by = { uid: "u1" };
+  const raw = {
+    serial: "X1",
+    family: "Roku Select",
+    minMinutes: "180",
+    startedAt: "2025-03-01T08:00:00Z",
+    outcome: "Completed",
+    events: [
+      { kind: "interruption", at: "2025-03-01T09:00:00Z", resumedAt: "2025-03-01T09:10:00Z", note: "power", by },
+      { kind: "smoke", at: "2025-03-01T09:30:00Z", by },
+    ],
+    createdBy: by,
+  };
+  const s = unwrap(decodeBurnInSession(raw, "b-1"));
+  expect(s.minMinutes).toBe(180);
+  expect(s.createdAt).toBe("2025-03-01T08:00:00.000Z");
+  expect(s.events).toHaveLength(1);
+  expect(s.outcome).toBeUndefined(); // no endedAt → still open
+  expect(validateBurnInSession(s)).toEqual([]);
+  expect(validateBurnInSession({ ...s, outcome: "Failed" })).toEqual(["endedAt and outcome go together"]);
+});
+
+test("harvests keep tagged boards and never stock an ungraded one", () => {
+  const h = unwrap(
+    decodeHarvest(
+      {
+        donorSerial: " D100 ",
+        boards: [
+          { tag: "D100-PSU", board: "PSU", partNumber: "PSU-55A", grade: "A" },
+          { tag: "D100-MB", board: "MB", partNumber: "MB-1", grade: "Z" },
+          { tag: "D100-X", board: "Remote", partNumber: "RC-1", grade: "A" },
+        ],
+        createdAt: "2025-03-01T10:00:00Z",
+        createdBy: { uid: "u1" },
+      },
+      "h-1"
+    )
+  );
+  expect(h.donorSerial).toBe("D100");
+  expect(h.boards.map((b) => [b.tag, b.grade])).toEqual([
+    ["D100-PSU", "A"],
+    ["D100-MB", "Reject"],
+  ]);
+  expect(validateHarvest(h)).toEqual([]);
+  expect(validateHarvest({ ...h, boards: [h.boards[0], h.boards[0]] })).toEqual(["boards[1].tag is duplicated"]);
+});
+
+test("strips undefined fields for Firestore", () => {
+  expect(withoutUndefined({ a: 1, b: undefined, c: null })).toEqual({ a: 1, c: null });
+});
+
+test("repairs keep only complete part rows", () => {
+  const repair = unwrap(decodeRepair({
+    id: "r-3",
+    schemaVersion: SCHEMA_VERSION,
+    serial: "X001",
+    startAt: "2025-03-01T00:00:00Z",
+    disposition: "Repaired",
+    parts: [
+      { partNumber: " PSU-55A ", description: "Power board", qty: 1, source: "Harvested", removedSerial: "PB1" },
+      { partNumber: "FFC-1", qty: "2", source: "bogus" },
+      { partNumber: "", qty: 1 },
+      { partNumber: "LED", qty: 0.5 },
+    ],
+  }));
+  expect(repair.parts).toEqual([
+    { partNumber: "PSU-55A", description: "Power board", qty: 1, source: "Harvested", removedSerial: "PB1" },
+    { partNumber: "FFC-1", description: "", qty: 2, source: "New" },
+  ]);
+  expect(validateRepair({ ...repair, parts: [{ partNumber: "X", description: "", qty: 0, source: "New" }] })).toEqual([
+    "parts[0].qty must be a whole number of at least 1",
+  ]);
+});
+
+test("repairs keep only closed timer pauses", () => {
+  const repair = unwrap(decodeRepair({
+    id: "r-5",
+    schemaVersion: SCHEMA_VERSION,
+    serial: "X001",
+    startAt: "2025-03-01T08:00:00Z",
+    endAt: "2025-03-01T09:00:00Z",
+    disposition: "Repaired",
+    pauses: [
+      { at: "2025-03-01T08:10:00Z", resumedAt: "2025-03-01T08:20:00Z" },
+      { at: "2025-03-01T08:30:00Z" },
+      { at: "2025-03-01T08:50:00Z", resumedAt: "2025-03-01T08:40:00Z" },
+    ],
+  }));
+  expect(repair.pauses).toEqual([{ at: "2025-03-01T08:10:00.000Z", resumedAt: "2025-03-01T08:20:00.000Z" }]);
+  expect(validateRepair(repair)).toEqual([]);
+  expect(validateRepair({ ...repair, pauses: [{ at: "2025-03-01T08:50:00Z", resumedAt: "2025-03-01T08:40:00Z" }] })).toEqual([
+    "pauses[0] resumes before it starts",
+  ]);
+});
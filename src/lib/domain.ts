@@ -0,0 +1,844 @@
+// src/lib/domain.ts
+// Shared domain types (intakes, repairs and the records tied to them) and
+// runtime decoders. Everything that crosses a trust boundary (Firestore
+// reads, IndexedDB loads, cloud writes) goes through here so the UI can rely
+// on the strict shapes.
+
+/****************************************************
+ * Types
+ ****************************************************/
+/** Current record shape; bump together with a new step in migrations.ts. */
+export const SCHEMA_VERSION = 5;
+
+export type ChecklistStatus = "Pass" | "Conditional" | "Fail" | "N/A";
+
+export const CHECKLIST_STATUSES: ChecklistStatus[] = ["Pass", "Conditional", "Fail", "N/A"];
+
+/** Answers keyed by checklist item key; the items come from the intake's template version (checklist.ts). */
+export type Checklist = Record<string, ChecklistStatus>;
+
+/** A checklist answer that tripped a blocker rule (holds.ts). */
+export type BlockerHit = { itemKey: string; status: ChecklistStatus; note?: string };
+
+export type HoldResult = { held: boolean; hits: BlockerHit[] };
+
+/** Signed-in Firebase user that created a record. */
+export type Actor = { uid: string; name: string };
+
+export type Intake = {
+  id: string;
+  schemaVersion: number;
+  serial: string;
+  family: string;
+  model: string;
+  sizeIn: number | "";
+  mac?: string;
+  returnSource: string;
+  returnReason: string;
+  conditionIn: string;
+  notes?: string;
+  checklist: Checklist;
+  checklistVersion: number;       // checklist template version the answers belong to
+  photos: string[];               // data URLs locally, HTTPS URLs once uploaded
+  thumbs?: string[];              // thumbnail per photo, same order ("" when missing); older records have none
+  photoItems?: string[];          // checklist item key each photo is evidence for, same order ("" = general photo)
+  annotated?: string[];           // flattened marked-up copy per photo, same order ("" = not annotated)
+  createdAt: string;              // ISO
+  createdBy?: Actor;
+  syncedAt?: string;              // ISO, server time of the cloud save (cloud copies only)
+  hold?: HoldResult;              // blocker rules' verdict when saved; older intakes have none
+};
+
+export type RepairDisposition = "Repaired" | "Scrap" | "NTF" | "BER";
+
+export const REPAIR_DISPOSITIONS: RepairDisposition[] = ["Repaired", "Scrap", "NTF", "BER"];
+
+export type PartSource = "New" | "Harvested";
+
+export const PART_SOURCES: PartSource[] = ["New", "Harvested"];
+
+/** A part fitted during a repair. */
+export type PartUsage = {
+  partNumber: string;
+  description: string;
+  qty: number;                    // whole units, at least 1
+  source: PartSource;
+  removedSerial?: string;         // serial of the board taken out, if it had one
+  harvestTag?: string;            // harvested board fitted (Harvested only)
+  donorSerial?: string;           // unit that board was pulled from
+};
+
+/** A break in hands-on work on the bench timer; touch time excludes it. */
+export type RepairPause = {
+  at: string;                     // ISO
+  resumedAt: string;              // ISO; a pause open when the timer stopped ends at endAt
+};
+
+export type Repair = {
+  id: string;
+  schemaVersion: number;
+  serial: string;
+  startAt: string;                // ISO
+  endAt?: string;                 // ISO
+  technician?: string;            // display name of createdBy (free text on older records)
+  createdBy?: Actor;
+  failureCode: string;
+  actions: string[];
+  disposition: RepairDisposition;
+  parts: PartUsage[];
+  pauses: RepairPause[];
+  notes?: string;
+  photos: string[];
+  thumbs?: string[];              // as on Intake
+  annotated?: string[];           // as on Intake
+  syncedAt?: string;              // as on Intake
+};
+
+export type CombinedRecord = { serial: string; intake?: Intake; repairs: Repair[]; qcChecks?: QcCheck[] };
+
+export type HoldDecision = "released" | "rejected";
+
+export const HOLD_DECISIONS: HoldDecision[] = ["released", "rejected"];
+
+/**
+ * QE decision on an intake held by the blocker rules (holds.ts). Reviews are
+ * append-only and not part of the intake/repair schema versioning.
+ */
+export type HoldReview = {
+  id: string;
+  intakeId: string;               // the held intake
+  serial: string;
+  decision: HoldDecision;         // released → repair may start; rejected → unit goes to scrap
+  note: string;
+  createdAt: string;              // ISO
+  createdBy: Actor;               // QE reviewer
+};
+
+/** Unit lifecycle (transitions live in lifecycle.ts). */
+export type UnitStatus = "Received" | "Hold" | "In Repair" | "QC" | "Repaired" | "Scrap" | "NTF" | "BER" | "Shipped";
+
+export const UNIT_STATUSES: UnitStatus[] = ["Received", "Hold", "In Repair", "QC", "Repaired", "Scrap", "NTF", "BER", "Shipped"];
+
+export type UnitEventCause = "intake" | "repair" | "holdReview" | "qcCheck" | "manual";
+
+/** One status transition of a serial. Append-only, like hold reviews. */
+export type UnitEvent = {
+  id: string;
+  serial: string;
+  from: UnitStatus | null;        // null for the first intake of a serial
+  to: UnitStatus;
+  cause: UnitEventCause;
+  recordId?: string;              // intake / repair / hold review that caused it
+  note?: string;
+  createdAt: string;              // ISO
+  createdBy: Actor;
+};
+
+export type QcStepKey =
+  | "power_on"
+  | "boot_home"
+  | "panel_uniformity"
+  | "hdmi_ports"
+  | "wifi"
+  | "audio"
+  | "remote_pairing"
+  | "burn_in";
+
+export const QC_STEP_KEYS: QcStepKey[] = [
+  "power_on",
+  "boot_home",
+  "panel_uniformity",
+  "hdmi_ports",
+  "wifi",
+  "audio",
+  "remote_pairing",
+  "burn_in",
+];
+
+export type QcResult = "Pass" | "Fail";
+
+/** Post-repair functional test. A passing check is what moves a unit from QC to Repaired. */
+export type QcCheck = {
+  id: string;
+  serial: string;
+  repairId?: string;              // repair being verified
+  steps: Record<QcStepKey, QcResult>;
+  burnInMinutes: number;
+  burnInSessionId?: string;       // soak session the minutes come from
+  result: QcResult;               // Pass only when every step passed
+  notes?: string;
+  createdAt: string;              // ISO
+  createdBy: Actor;
+};
+
+export type SoakEventKind = "interruption" | "failure";
+
+export const SOAK_EVENT_KINDS: SoakEventKind[] = ["interruption", "failure"];
+
+/** Something that happened on the soak rack. An interruption pauses the clock until resumedAt. */
+export type SoakEvent = {
+  kind: SoakEventKind;
+  at: string;                     // ISO
+  resumedAt?: string;             // ISO; interruptions only
+  note: string;
+  by: Actor;
+};
+
+export type BurnInOutcome = "Completed" | "Failed" | "Stopped";
+
+export const BURN_IN_OUTCOMES: BurnInOutcome[] = ["Completed", "Failed", "Stopped"];
+
+/** One soak-rack run of a serial. Updated in place until it has an outcome. */
+export type BurnInSession = {
+  id: string;
+  serial: string;
+  repairId?: string;              // repair the soak follows
+  family: string;
+  minMinutes: number;             // family minimum when the session started
+  startedAt: string;              // ISO
+  endedAt?: string;               // ISO, set together with outcome
+  outcome?: BurnInOutcome;
+  events: SoakEvent[];
+  createdAt: string;              // ISO
+  createdBy: Actor;
+  updatedAt?: string;             // ISO, last pause / resume / end
+};
+
+export type StockMoveReason = "receive" | "adjust" | "consume" | "harvest";
+
+export const STOCK_MOVE_REASONS: StockMoveReason[] = ["receive", "adjust", "consume", "harvest"];
+
+/** One change to a part's on-hand count (append-only; on hand is the sum of deltas). */
+export type StockMove = {
+  id: string;
+  partNumber: string;
+  delta: number;                  // whole units; receive / harvest > 0, consume < 0
+  reason: StockMoveReason;
+  repairId?: string;              // consuming repair
+  serial?: string;                // unit the part went into (consume) or came from (harvest)
+  harvestId?: string;             // harvest that stocked the board
+  note?: string;                  // required for adjustments
+  createdAt: string;              // ISO
+  createdBy: Actor;
+};
+
+export type HarvestBoardType = "PSU" | "MB" | "T-CON" | "Panel";
+
+export const HARVEST_BOARD_TYPES: HarvestBoardType[] = ["PSU", "MB", "T-CON", "Panel"];
+
+/** A and B boards go into stock; Reject boards are recorded as pulled but scrapped. */
+export type HarvestGrade = "A" | "B" | "Reject";
+
+export const HARVEST_GRADES: HarvestGrade[] = ["A", "B", "Reject"];
+
+export type HarvestedBoard = {
+  tag: string;                    // label stuck on the board; fitted parts refer to it
+  board: HarvestBoardType;
+  partNumber: string;
+  grade: HarvestGrade;
+  boardSerial?: string;
+  note?: string;
+};
+
+/** Boards pulled from a Scrap / BER unit (append-only). */
+export type Harvest = {
+  id: string;
+  donorSerial: string;
+  repairId?: string;              // Scrap / BER repair the unit was given up on
+  family: string;
+  model: string;
+  boards: HarvestedBoard[];
+  createdAt: string;              // ISO
+  createdBy: Actor;
+};
+
+/****************************************************
+ * Field normalizers
+ ****************************************************/
+const str = (v: unknown): string => (typeof v === "string" ? v : v == null ? "" : String(v));
+const optStr = (v: unknown): string | undefined => {
+  const s = typeof v === "string" ? v : undefined;
+  return s ? s : undefined;
+};
+
+/** Accepts ISO strings, epoch ms, Date and Firestore Timestamp ({ toDate() } / { seconds }). */
+export function toISODate(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  let d: Date | null = null;
+  if (v instanceof Date) d = v;
+  else if (typeof v === "string" || typeof v === "number") d = new Date(v);
+  else if (typeof v === "object") {
+    const o = v as any;
+    if (typeof o.toDate === "function") d = o.toDate();
+    else if (typeof o.seconds === "number") d = new Date(o.seconds * 1000 + Math.floor((o.nanoseconds || 0) / 1e6));
+  }
+  return d && !isNaN(d.getTime()) ? d.toISOString() : null;
+}
+
+function toActor(v: unknown): Actor | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const uid = optStr((v as any).uid);
+  return uid ? { uid, name: str((v as any).name) || uid } : undefined;
+}
+
+function toSize(v: unknown): number | "" {
+  if (v === "" || v == null) return "";
+  const n = Number(v);
+  return isFinite(n) && n > 0 ? n : "";
+}
+
+function toStringList(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((x): x is string => typeof x === "string" && x !== "") : [];
+}
+
+/** Positions of the usable photos in a stored photo list (empty entries are dropped). */
+function photoSlots(v: unknown): number[] {
+  const slots: number[] = [];
+  if (!Array.isArray(v)) return slots;
+  v.forEach((x, i) => {
+    if (typeof x === "string" && x !== "") slots.push(i);
+  });
+  return slots;
+}
+
+/**
+ * Per-photo strings (thumbnails, evidence item keys) for the kept photos,
+ * matched by stored position so a dropped photo does not shift the rest;
+ * undefined when the record has none.
+ */
+function toPerPhoto(v: unknown, slots: number[]): string[] | undefined {
+  if (!Array.isArray(v)) return undefined;
+  return slots.map((i) => (typeof v[i] === "string" ? v[i] : ""));
+}
+
+function toChecklist(v: unknown): Checklist {
+  const out: Checklist = {};
+  if (v && typeof v === "object") {
+    Object.entries(v as Record<string, unknown>).forEach(([k, s]) => {
+      if (CHECKLIST_STATUSES.includes(s as ChecklistStatus)) out[k] = s as ChecklistStatus;
+    });
+  }
+  return out;
+}
+
+function toHold(v: unknown): HoldResult | undefined {
+  if (!v || typeof v !== "object" || !Array.isArray((v as any).hits)) return undefined;
+  const hits: BlockerHit[] = [];
+  ((v as any).hits as unknown[]).forEach((h) => {
+    if (!h || typeof h !== "object") return;
+    const r = h as Record<string, unknown>;
+    const itemKey = str(r.itemKey);
+    const status = r.status as ChecklistStatus;
+    if (!itemKey || !CHECKLIST_STATUSES.includes(status)) return;
+    hits.push({ itemKey, status, ...(r.note ? { note: str(r.note) } : {}) });
+  });
+  return { held: hits.length > 0, hits };
+}
+
+function toParts(v: unknown): PartUsage[] {
+  if (!Array.isArray(v)) return [];
+  const out: PartUsage[] = [];
+  v.forEach((p) => {
+    if (!p || typeof p !== "object") return;
+    const r = p as Record<string, unknown>;
+    const partNumber = str(r.partNumber).trim();
+    const qty = Number(r.qty);
+    if (!partNumber || !Number.isInteger(qty) || qty < 1) return;
+    const removedSerial = str(r.removedSerial).trim();
+    const source: PartSource = r.source === "Harvested" ? "Harvested" : "New";
+    const harvestTag = source === "Harvested" ? str(r.harvestTag).trim() : "";
+    const donorSerial = source === "Harvested" ? str(r.donorSerial).trim() : "";
+    out.push({
+      partNumber,
+      description: str(r.description).trim(),
+      qty,
+      source,
+      ...(removedSerial ? { removedSerial } : {}),
+      ...(harvestTag ? { harvestTag } : {}),
+      ...(donorSerial ? { donorSerial } : {}),
+    });
+  });
+  return out;
+}
+
+function toPauses(v: unknown): RepairPause[] {
+  if (!Array.isArray(v)) return [];
+  const out: RepairPause[] = [];
+  v.forEach((p) => {
+    if (!p || typeof p !== "object") return;
+    const at = toISODate((p as any).at);
+    const resumedAt = toISODate((p as any).resumedAt);
+    if (at && resumedAt && resumedAt >= at) out.push({ at, resumedAt });
+  });
+  return out;
+}
+
+function toVersion(v: unknown): number {
+  const n = Number(v);
+  return Number.isInteger(n) && n >= 1 ? n : 1;
+}
+
+/****************************************************
+ * Decoders (read side): normalize or reject.
+ * Input must already be migrated to SCHEMA_VERSION (see migrations.ts).
+ ****************************************************/
+export type Decoded<T> = { ok: true; value: T } | { ok: false; error: string };
+
+function checkVersion(kind: string, id: string, v: unknown): string | null {
+  return v === SCHEMA_VERSION ? null : `${kind} ${id}: unsupported schemaVersion ${str(v) || "(none)"}`;
+}
+
+export function decodeIntake(raw: unknown, fallbackId?: string): Decoded<Intake> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const serial = str(r.serial).trim();
+  const badVersion = checkVersion("intake", id, r.schemaVersion);
+  if (badVersion) return { ok: false, error: badVersion };
+  if (!serial) return { ok: false, error: `intake ${id}: missing serial` };
+  const createdAt = toISODate(r.createdAt);
+  if (!createdAt) return { ok: false, error: `intake ${id}: invalid createdAt` };
+  const slots = photoSlots(r.photos);
+  const photos = slots.map((i) => (r.photos as string[])[i]);
+
+  return {
+    ok: true,
+    value: {
+      id,
+      schemaVersion: SCHEMA_VERSION,
+      serial,
+      family: str(r.family),
+      model: str(r.model),
+      sizeIn: toSize(r.sizeIn),
+      mac: optStr(r.mac),
+      returnSource: str(r.returnSource),
+      returnReason: str(r.returnReason),
+      conditionIn: str(r.conditionIn),
+      notes: optStr(r.notes),
+      checklist: toChecklist(r.checklist),
+      checklistVersion: toVersion(r.checklistVersion),
+      photos,
+      thumbs: toPerPhoto(r.thumbs, slots),
+      photoItems: toPerPhoto(r.photoItems, slots),
+      annotated: toPerPhoto(r.annotated, slots),
+      createdAt,
+      createdBy: toActor(r.createdBy),
+      syncedAt: toISODate(r.syncedAt) || undefined,
+      hold: toHold(r.hold),
+    },
+  };
+}
+
+export function decodeRepair(raw: unknown, fallbackId?: string): Decoded<Repair> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const serial = str(r.serial).trim();
+  const badVersion = checkVersion("repair", id, r.schemaVersion);
+  if (badVersion) return { ok: false, error: badVersion };
+  if (!serial) return { ok: false, error: `repair ${id}: missing serial` };
+  // Older cloud docs only carry the server createdAt
+  const startAt = toISODate(r.startAt) || toISODate(r.createdAt);
+  if (!startAt) return { ok: false, error: `repair ${id}: invalid startAt` };
+  const disposition = r.disposition as RepairDisposition;
+  if (!REPAIR_DISPOSITIONS.includes(disposition)) {
+    return { ok: false, error: `repair ${id}: unknown disposition "${str(r.disposition)}"` };
+  }
+  const slots = photoSlots(r.photos);
+  const photos = slots.map((i) => (r.photos as string[])[i]);
+
+  return {
+    ok: true,
+    value: {
+      id,
+      schemaVersion: SCHEMA_VERSION,
+      serial,
+      startAt,
+      endAt: toISODate(r.endAt) || undefined,
+      technician: optStr(r.technician),
+      createdBy: toActor(r.createdBy),
+      failureCode: str(r.failureCode).trim() || "OTHER",
+      actions: toStringList(r.actions),
+      disposition,
+      parts: toParts(r.parts),
+      pauses: toPauses(r.pauses),
+      notes: optStr(r.notes),
+      photos,
+      thumbs: toPerPhoto(r.thumbs, slots),
+      annotated: toPerPhoto(r.annotated, slots),
+      syncedAt: toISODate(r.syncedAt) || undefined,
+    },
+  };
+}
+
+export function decodeHoldReview(raw: unknown, fallbackId?: string): Decoded<HoldReview> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const intakeId = str(r.intakeId);
+  const serial = str(r.serial).trim();
+  if (!intakeId || !serial) return { ok: false, error: `hold review ${id}: missing intake` };
+  const decision = r.decision as HoldDecision;
+  if (!HOLD_DECISIONS.includes(decision)) {
+    return { ok: false, error: `hold review ${id}: unknown decision "${str(r.decision)}"` };
+  }
+  const createdAt = toISODate(r.createdAt);
+  const createdBy = toActor(r.createdBy);
+  if (!createdAt || !createdBy) return { ok: false, error: `hold review ${id}: missing reviewer or date` };
+  return { ok: true, value: { id, intakeId, serial, decision, note: str(r.note), createdAt, createdBy } };
+}
+
+const UNIT_EVENT_CAUSES: UnitEventCause[] = ["intake", "repair", "holdReview", "qcCheck", "manual"];
+
+export function decodeUnitEvent(raw: unknown, fallbackId?: string): Decoded<UnitEvent> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const serial = str(r.serial).trim();
+  if (!serial) return { ok: false, error: `unit event ${id}: missing serial` };
+  const to = r.to as UnitStatus;
+  const from = r.from == null ? null : (r.from as UnitStatus);
+  if (!UNIT_STATUSES.includes(to) || (from !== null && !UNIT_STATUSES.includes(from))) {
+    return { ok: false, error: `unit event ${id}: unknown status "${str(r.from)}" → "${str(r.to)}"` };
+  }
+  const cause = UNIT_EVENT_CAUSES.includes(r.cause as UnitEventCause) ? (r.cause as UnitEventCause) : "manual";
+  const createdAt = toISODate(r.createdAt);
+  const createdBy = toActor(r.createdBy);
+  if (!createdAt || !createdBy) return { ok: false, error: `unit event ${id}: missing actor or date` };
+  return {
+    ok: true,
+    value: { id, serial, from, to, cause, recordId: optStr(r.recordId), note: optStr(r.note), createdAt, createdBy },
+  };
+}
+
+export const qcResultOf = (steps: Partial<Record<QcStepKey, QcResult>>): QcResult =>
+  QC_STEP_KEYS.every((k) => steps[k] === "Pass") ? "Pass" : "Fail";
+
+export function decodeQcCheck(raw: unknown, fallbackId?: string): Decoded<QcCheck> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const serial = str(r.serial).trim();
+  if (!serial) return { ok: false, error: `qc check ${id}: missing serial` };
+  const rawSteps = (r.steps && typeof r.steps === "object" ? r.steps : {}) as Record<string, unknown>;
+  // Missing or unknown answers count as Fail so a partial record can never pass
+  const steps = {} as Record<QcStepKey, QcResult>;
+  QC_STEP_KEYS.forEach((k) => {
+    steps[k] = rawSteps[k] === "Pass" ? "Pass" : "Fail";
+  });
+  const minutes = Number(r.burnInMinutes);
+  const createdAt = toISODate(r.createdAt);
+  const createdBy = toActor(r.createdBy);
+  if (!createdAt || !createdBy) return { ok: false, error: `qc check ${id}: missing tester or date` };
+  return {
+    ok: true,
+    value: {
+      id,
+      serial,
+      repairId: optStr(r.repairId),
+      steps,
+      burnInMinutes: isFinite(minutes) && minutes > 0 ? minutes : 0,
+      burnInSessionId: optStr(r.burnInSessionId),
+      result: qcResultOf(steps),
+      notes: optStr(r.notes),
+      createdAt,
+      createdBy,
+    },
+  };
+}
+
+function toSoakEvent(v: unknown): SoakEvent | null {
+  if (!v || typeof v !== "object") return null;
+  const e = v as Record<string, unknown>;
+  const at = toISODate(e.at);
+  const by = toActor(e.by);
+  if (!SOAK_EVENT_KINDS.includes(e.kind as SoakEventKind) || !at || !by) return null;
+  const resumedAt = e.kind === "interruption" ? toISODate(e.resumedAt) : null;
+  return { kind: e.kind as SoakEventKind, at, ...(resumedAt ? { resumedAt } : {}), note: str(e.note), by };
+}
+
+export function decodeBurnInSession(raw: unknown, fallbackId?: string): Decoded<BurnInSession> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const serial = str(r.serial).trim();
+  if (!serial) return { ok: false, error: `burn-in session ${id}: missing serial` };
+  const startedAt = toISODate(r.startedAt);
+  const createdAt = toISODate(r.createdAt) || startedAt;
+  const createdBy = toActor(r.createdBy);
+  if (!startedAt || !createdAt || !createdBy) return { ok: false, error: `burn-in session ${id}: missing start or technician` };
+  const minutes = Number(r.minMinutes);
+  // An outcome without an end time (or the reverse) is treated as still open
+  const endedAt = toISODate(r.endedAt);
+  const outcome = BURN_IN_OUTCOMES.includes(r.outcome as BurnInOutcome) ? (r.outcome as BurnInOutcome) : undefined;
+  const events = Array.isArray(r.events)
+    ? r.events.map(toSoakEvent).filter((e): e is SoakEvent => e !== null)
+    : [];
+  const updatedAt = toISODate(r.updatedAt);
+  return {
+    ok: true,
+    value: {
+      id,
+      serial,
+      repairId: optStr(r.repairId),
+      family: str(r.family),
+      minMinutes: isFinite(minutes) && minutes > 0 ? minutes : 0,
+      startedAt,
+      ...(endedAt && outcome ? { endedAt, outcome } : {}),
+      events,
+      createdAt,
+      createdBy,
+      ...(updatedAt ? { updatedAt } : {}),
+    },
+  };
+}
+
+export function decodeStockMove(raw: unknown, fallbackId?: string): Decoded<StockMove> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const partNumber = str(r.partNumber).trim();
+  const delta = Number(r.delta);
+  if (!partNumber || !Number.isInteger(delta) || delta === 0) {
+    return { ok: false, error: `stock move ${id}: missing part number or quantity` };
+  }
+  const reason = r.reason as StockMoveReason;
+  if (!STOCK_MOVE_REASONS.includes(reason)) return { ok: false, error: `stock move ${id}: unknown reason "${str(r.reason)}"` };
+  const createdAt = toISODate(r.createdAt);
+  const createdBy = toActor(r.createdBy);
+  if (!createdAt || !createdBy) return { ok: false, error: `stock move ${id}: missing actor or date` };
+  return {
+    ok: true,
+    value: {
+      id,
+      partNumber,
+      delta,
+      reason,
+      repairId: optStr(r.repairId),
+      serial: optStr(r.serial),
+      harvestId: optStr(r.harvestId),
+      note: optStr(r.note),
+      createdAt,
+      createdBy,
+    },
+  };
+}
+
+function toHarvestedBoard(v: unknown): HarvestedBoard | null {
+  if (!v || typeof v !== "object") return null;
+  const b = v as Record<string, unknown>;
+  const tag = str(b.tag).trim();
+  const partNumber = str(b.partNumber).trim();
+  if (!tag || !partNumber || !HARVEST_BOARD_TYPES.includes(b.board as HarvestBoardType)) return null;
+  return {
+    tag,
+    board: b.board as HarvestBoardType,
+    partNumber,
+    // An unknown grade is never stocked
+    grade: HARVEST_GRADES.includes(b.grade as HarvestGrade) ? (b.grade as HarvestGrade) : "Reject",
+    boardSerial: optStr(b.boardSerial),
+    note: optStr(b.note),
+  };
+}
+
+export function decodeHarvest(raw: unknown, fallbackId?: string): Decoded<Harvest> {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "not an object" };
+  const r = raw as Record<string, unknown>;
+  const id = optStr(r.id) || fallbackId;
+  if (!id) return { ok: false, error: "missing id" };
+  const donorSerial = str(r.donorSerial).trim();
+  if (!donorSerial) return { ok: false, error: `harvest ${id}: missing donor serial` };
+  const createdAt = toISODate(r.createdAt);
+  const createdBy = toActor(r.createdBy);
+  if (!createdAt || !createdBy) return { ok: false, error: `harvest ${id}: missing technician or date` };
+  const boards = Array.isArray(r.boards)
+    ? r.boards.map(toHarvestedBoard).filter((b): b is HarvestedBoard => b !== null)
+    : [];
+  return {
+    ok: true,
+    value: {
+      id,
+      donorSerial,
+      repairId: optStr(r.repairId),
+      family: str(r.family),
+      model: str(r.model),
+      boards,
+      createdAt,
+      createdBy,
+    },
+  };
+}
+
+/** Decode a list, dropping (and reporting) rows that cannot be normalized. */
+export function decodeAll<T>(
+  rows: unknown[],
+  decode: (raw: unknown) => Decoded<T>,
+  label: string
+): T[] {
+  const out: T[] = [];
+  rows.forEach((raw) => {
+    const res = decode(raw);
+    if (res.ok) out.push(res.value);
+    else console.warn(`Skipping malformed ${label}:`, res.error);
+  });
+  return out;
+}
+
+/****************************************************
+ * Validators (write side)
+ ****************************************************/
+export function validateIntake(i: Intake): string[] {
+  const errors: string[] = [];
+  if (!i.id) errors.push("id is required");
+  if (i.schemaVersion !== SCHEMA_VERSION) errors.push(`schemaVersion must be ${SCHEMA_VERSION}`);
+  if (!i.serial?.trim()) errors.push("serial is required");
+  if (!toISODate(i.createdAt)) errors.push("createdAt must be a valid date");
+  if (!i.checklist || typeof i.checklist !== "object") errors.push("checklist is required");
+  else
+    Object.keys(i.checklist).forEach((k) => {
+      if (!CHECKLIST_STATUSES.includes(i.checklist[k])) errors.push(`checklist.${k} is invalid`);
+    });
+  if (!Number.isInteger(i.checklistVersion) || i.checklistVersion < 1) errors.push("checklistVersion is invalid");
+  if (!Array.isArray(i.photos)) errors.push("photos must be an array");
+  if (i.thumbs && i.thumbs.length !== i.photos?.length) errors.push("thumbs must have one entry per photo");
+  if (i.photoItems && i.photoItems.length !== i.photos?.length) errors.push("photoItems must have one entry per photo");
+  if (i.annotated && i.annotated.length !== i.photos?.length) errors.push("annotated must have one entry per photo");
+  return errors;
+}
+
+export function validateRepair(r: Repair): string[] {
+  const errors: string[] = [];
+  if (!r.id) errors.push("id is required");
+  if (r.schemaVersion !== SCHEMA_VERSION) errors.push(`schemaVersion must be ${SCHEMA_VERSION}`);
+  if (!r.serial?.trim()) errors.push("serial is required");
+  if (!toISODate(r.startAt)) errors.push("startAt must be a valid date");
+  if (r.endAt && !toISODate(r.endAt)) errors.push("endAt must be a valid date");
+  if (!r.failureCode) errors.push("failureCode is required");
+  if (!Array.isArray(r.actions)) errors.push("actions must be an array");
+  if (!REPAIR_DISPOSITIONS.includes(r.disposition)) errors.push("disposition is invalid");
+  if (!Array.isArray(r.parts)) errors.push("parts must be an array");
+  (r.parts || []).forEach((p, i) => {
+    if (!p.partNumber?.trim()) errors.push(`parts[${i}].partNumber is required`);
+    if (!Number.isInteger(p.qty) || p.qty < 1) errors.push(`parts[${i}].qty must be a whole number of at least 1`);
+    if (!PART_SOURCES.includes(p.source)) errors.push(`parts[${i}].source is invalid`);
+    if (p.harvestTag && p.source !== "Harvested") errors.push(`parts[${i}].harvestTag is only for harvested parts`);
+    if (p.harvestTag && p.qty !== 1) errors.push(`parts[${i}].qty must be 1 for a harvested board`);
+  });
+  if (!Array.isArray(r.pauses)) errors.push("pauses must be an array");
+  (r.pauses || []).forEach((p, i) => {
+    const at = toISODate(p.at);
+    const resumedAt = toISODate(p.resumedAt);
+    if (!at || !resumedAt) errors.push(`pauses[${i}] must have valid dates`);
+    else if (resumedAt < at) errors.push(`pauses[${i}] resumes before it starts`);
+  });
+  if (!Array.isArray(r.photos)) errors.push("photos must be an array");
+  if (r.thumbs && r.thumbs.length !== r.photos?.length) errors.push("thumbs must have one entry per photo");
+  if (r.annotated && r.annotated.length !== r.photos?.length) errors.push("annotated must have one entry per photo");
+  return errors;
+}
+
+export function validateHoldReview(h: HoldReview): string[] {
+  const errors: string[] = [];
+  if (!h.id) errors.push("id is required");
+  if (!h.intakeId) errors.push("intakeId is required");
+  if (!h.serial?.trim()) errors.push("serial is required");
+  if (!HOLD_DECISIONS.includes(h.decision)) errors.push("decision is invalid");
+  if (!h.note?.trim()) errors.push("note is required");
+  if (!toISODate(h.createdAt)) errors.push("createdAt must be a valid date");
+  if (!h.createdBy?.uid) errors.push("createdBy is required");
+  return errors;
+}
+
+export function validateUnitEvent(e: UnitEvent): string[] {
+  const errors: string[] = [];
+  if (!e.id) errors.push("id is required");
+  if (!e.serial?.trim()) errors.push("serial is required");
+  if (!UNIT_STATUSES.includes(e.to)) errors.push("to is invalid");
+  if (e.from !== null && !UNIT_STATUSES.includes(e.from)) errors.push("from is invalid");
+  if (!toISODate(e.createdAt)) errors.push("createdAt must be a valid date");
+  if (!e.createdBy?.uid) errors.push("createdBy is required");
+  return errors;
+}
+
+export function validateQcCheck(q: QcCheck): string[] {
+  const errors: string[] = [];
+  if (!q.id) errors.push("id is required");
+  if (!q.serial?.trim()) errors.push("serial is required");
+  QC_STEP_KEYS.forEach((k) => {
+    if (q.steps?.[k] !== "Pass" && q.steps?.[k] !== "Fail") errors.push(`steps.${k} is required`);
+  });
+  if (!(q.burnInMinutes >= 0)) errors.push("burnInMinutes must be a number");
+  if (q.result !== qcResultOf(q.steps || {})) errors.push("result does not match the steps");
+  if (!toISODate(q.createdAt)) errors.push("createdAt must be a valid date");
+  if (!q.createdBy?.uid) errors.push("createdBy is required");
+  return errors;
+}
+
+export function validateBurnInSession(b: BurnInSession): string[] {
+  const errors: string[] = [];
+  if (!b.id) errors.push("id is required");
+  if (!b.serial?.trim()) errors.push("serial is required");
+  if (!(b.minMinutes >= 0)) errors.push("minMinutes must be a number");
+  if (!toISODate(b.startedAt)) errors.push("startedAt must be a valid date");
+  if (!!b.endedAt !== !!b.outcome) errors.push("endedAt and outcome go together");
+  if (b.outcome && !BURN_IN_OUTCOMES.includes(b.outcome)) errors.push("outcome is invalid");
+  (b.events || []).forEach((e, i) => {
+    if (!SOAK_EVENT_KINDS.includes(e.kind)) errors.push(`events[${i}].kind is invalid`);
+    if (!toISODate(e.at)) errors.push(`events[${i}].at must be a valid date`);
+    if (!e.by?.uid) errors.push(`events[${i}].by is required`);
+  });
+  if (!toISODate(b.createdAt)) errors.push("createdAt must be a valid date");
+  if (!b.createdBy?.uid) errors.push("createdBy is required");
+  return errors;
+}
+
+export function validateStockMove(m: StockMove): string[] {
+  const errors: string[] = [];
+  if (!m.id) errors.push("id is required");
+  if (!m.partNumber?.trim()) errors.push("partNumber is required");
+  if (!Number.isInteger(m.delta) || m.delta === 0) errors.push("delta must be a non-zero whole number");
+  if (!STOCK_MOVE_REASONS.includes(m.reason)) errors.push("reason is invalid");
+  if (m.reason === "receive" && m.delta < 0) errors.push("received quantity must be positive");
+  if (m.reason === "consume" && m.delta > 0) errors.push("consumed quantity must be negative");
+  if (m.reason === "adjust" && !m.note?.trim()) errors.push("note is required for adjustments");
+  if (m.reason === "harvest" && m.delta < 0) errors.push("harvested quantity must be positive");
+  if (m.reason === "harvest" && (!m.serial || !m.harvestId)) errors.push("harvest moves need the donor serial and harvest");
+  if (!toISODate(m.createdAt)) errors.push("createdAt must be a valid date");
+  if (!m.createdBy?.uid) errors.push("createdBy is required");
+  return errors;
+}
+
+export function validateHarvest(h: Harvest): string[] {
+  const errors: string[] = [];
+  if (!h.id) errors.push("id is required");
+  if (!h.donorSerial?.trim()) errors.push("donorSerial is required");
+  if (!Array.isArray(h.boards) || h.boards.length === 0) errors.push("at least one board is required");
+  const tags = new Set<string>();
+  (h.boards || []).forEach((b, i) => {
+    if (!b.tag?.trim()) errors.push(`boards[${i}].tag is required`);
+    else if (tags.has(b.tag)) errors.push(`boards[${i}].tag is duplicated`);
+    tags.add(b.tag);
+    if (!HARVEST_BOARD_TYPES.includes(b.board)) errors.push(`boards[${i}].board is invalid`);
+    if (!b.partNumber?.trim()) errors.push(`boards[${i}].partNumber is required`);
+    if (!HARVEST_GRADES.includes(b.grade)) errors.push(`boards[${i}].grade is invalid`);
+  });
+  if (!toISODate(h.createdAt)) errors.push("createdAt must be a valid date");
+  if (!h.createdBy?.uid) errors.push("createdBy is required");
+  return errors;
+}
+
+/** Firestore rejects `undefined` field values; drop them before writing. */
+export function withoutUndefined<T extends Record<string, any>>(obj: T): T {
+  const out: Record<string, any> = {};
+  Object.keys(obj).forEach((k) => {
+    if (obj[k] !== undefined) out[k] = obj[k];
+  });
+  return out as T;
+}
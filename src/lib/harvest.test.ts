@@ -0,0 +1,65 @@
+import { Harvest, Repair, SCHEMA_VERSION } from "./domain";
+import { availableBoards, boardTag, harvestLinks, harvestMoves, isHarvestable, traceFor } from "./harvest";
+
+const by = { uid: "u1", name: "Tech" };
+
+const harvest: Harvest = {
+  id: "h1",
+  donorSerial: "D100",
+  repairId: "r0",
+  family: "Abilene",
+  model: "55R6A5R",
+  boards: [
+    { tag: "D100-PSU", board: "PSU", partNumber: "PSU-55A", grade: "A" },
+    { tag: "D100-T-CON", board: "T-CON", partNumber: "TCON-1", grade: "B" },
+    { tag: "D100-PANEL", board: "Panel", partNumber: "PNL-55", grade: "Reject", note: "cracked" },
+  ],
+  createdAt: "2025-03-01T10:00:00.000Z",
+  createdBy: by,
+};
+
+const repair = (id: string, serial: string, parts: Repair["parts"]): Repair => ({
+  id,
+  schemaVersion: SCHEMA_VERSION,
+  serial,
+  startAt: "2025-03-02T09:00:00.000Z",
+  failureCode: "PSU",
+  actions: [],
+  disposition: "Repaired",
+  parts,
+  pauses: [],
+  photos: [],
+});
+
+test("only Scrap and BER repairs can donate boards", () => {
+  expect(isHarvestable({ disposition: "Scrap" })).toBe(true);
+  expect(isHarvestable({ disposition: "BER" })).toBe(true);
+  expect(isHarvestable({ disposition: "NTF" })).toBe(false);
+});
+
+test("board tags are unique per donor", () => {
+  expect(boardTag(" d100 ", "T-CON", [])).toBe("D100-T-CON");
+  expect(boardTag("D100", "PSU", ["D100-PSU", "D100-PSU-2"])).toBe("D100-PSU-3");
+});
+
+test("graded A/B boards are moved into stock, rejects are not", () => {
+  const ids = ["m1", "m2", "m3"];
+  const moves = harvestMoves(harvest, () => ids.shift()!);
+  expect(moves.map((m) => [m.id, m.partNumber, m.delta, m.reason, m.serial, m.harvestId])).toEqual([
+    ["m1", "PSU-55A", 1, "harvest", "D100", "h1"],
+    ["m2", "TCON-1", 1, "harvest", "D100", "h1"],
+  ]);
+});
+
+test("a fitted board links the donor serial to the receiving serial", () => {
+  const links = harvestLinks(
+    [harvest],
+    [repair("r1", "R200", [{ partNumber: "PSU-55A", description: "", qty: 1, source: "Harvested", harvestTag: "D100-PSU", donorSerial: "D100" }])]
+  );
+  expect(links.find((l) => l.tag === "D100-PSU")?.fitted).toEqual({ serial: "R200", repairId: "r1", at: "2025-03-02T09:00:00.000Z" });
+  expect(availableBoards(links).map((l) => l.tag)).toEqual(["D100-T-CON"]);
+
+  expect(traceFor(links, "d100").donated).toHaveLength(3);
+  expect(traceFor(links, "R200").received.map((l) => [l.tag, l.donorSerial])).toEqual([["D100-PSU", "D100"]]);
+  expect(traceFor(links, "R200").donated).toEqual([]);
+});
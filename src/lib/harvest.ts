@@ -0,0 +1,87 @@
+// src/lib/harvest.ts
+// Boards pulled from Scrap / BER units. Each harvested board gets a tag; A/B
+// boards are stocked under their part number (one "harvest" stock move each)
+// and a repair that fits one records the tag, so every board can be traced
+// from its donor serial to the unit that received it.
+
+import { Actor, Harvest, HarvestBoardType, HarvestGrade, HarvestedBoard, Repair, RepairDisposition, StockMove } from "./domain";
+
+export const HARVESTABLE_DISPOSITIONS: RepairDisposition[] = ["Scrap", "BER"];
+
+export const isHarvestable = (r: Pick<Repair, "disposition">) => HARVESTABLE_DISPOSITIONS.includes(r.disposition);
+
+export const isStocked = (b: Pick<HarvestedBoard, "grade">) => b.grade !== "Reject";
+
+/** Tag for a board pulled from a donor: `<serial>-<board>`, suffixed when that tag is already taken. */
+export function boardTag(donorSerial: string, board: HarvestBoardType, taken: string[]): string {
+  const base = `${donorSerial.trim().toUpperCase()}-${board.toUpperCase()}`;
+  let tag = base;
+  for (let n = 2; taken.includes(tag); n++) tag = `${base}-${n}`;
+  return tag;
+}
+
+/** Stock moves putting a harvest's A/B boards into inventory. */
+export function harvestMoves(h: Harvest, newId: () => string): StockMove[] {
+  return h.boards.filter(isStocked).map((b) => ({
+    id: newId(),
+    partNumber: b.partNumber,
+    delta: 1,
+    reason: "harvest",
+    serial: h.donorSerial,
+    harvestId: h.id,
+    note: `${b.tag} (${b.board}, grade ${b.grade})`,
+    createdAt: h.createdAt,
+    createdBy: h.createdBy,
+  }));
+}
+
+/** Where a harvested board came from and, once fitted, where it went. */
+export type HarvestLink = {
+  tag: string;
+  board: HarvestBoardType;
+  partNumber: string;
+  grade: HarvestGrade;
+  donorSerial: string;
+  harvestId: string;
+  harvestedAt: string;
+  harvestedBy: Actor;
+  fitted?: { serial: string; repairId: string; at: string };
+};
+
+export function harvestLinks(harvests: Harvest[], repairs: Repair[]): HarvestLink[] {
+  const fittedBy = new Map<string, HarvestLink["fitted"]>();
+  repairs.forEach((r) =>
+    r.parts.forEach((p) => {
+      if (p.harvestTag && !fittedBy.has(p.harvestTag)) fittedBy.set(p.harvestTag, { serial: r.serial, repairId: r.id, at: r.startAt });
+    })
+  );
+  const links: HarvestLink[] = [];
+  harvests.forEach((h) =>
+    h.boards.forEach((b) =>
+      links.push({
+        tag: b.tag,
+        board: b.board,
+        partNumber: b.partNumber,
+        grade: b.grade,
+        donorSerial: h.donorSerial,
+        harvestId: h.id,
+        harvestedAt: h.createdAt,
+        harvestedBy: h.createdBy,
+        fitted: fittedBy.get(b.tag),
+      })
+    )
+  );
+  return links.sort((a, b) => (a.harvestedAt > b.harvestedAt ? -1 : a.harvestedAt < b.harvestedAt ? 1 : a.tag.localeCompare(b.tag)));
+}
+
+/** Stocked boards not fitted to any unit yet. */
+export const availableBoards = (links: HarvestLink[]) => links.filter((l) => isStocked(l) && !l.fitted);
+
+/** Boards a unit donated and boards it received. */
+export function traceFor(links: HarvestLink[], serial: string) {
+  const s = serial.trim().toUpperCase();
+  return {
+    donated: links.filter((l) => l.donorSerial.toUpperCase() === s),
+    received: links.filter((l) => l.fitted?.serial.toUpperCase() === s),
+  };
+}
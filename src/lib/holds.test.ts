@@ -0,0 +1,141 @@
+import { HoldReview, Intake } from "./domain";
+import {
+  BLOCKER_RULES,
+  BlockerRules,
+  DEFAULT_BLOCKER_RULES,
+  evaluateHold,
+  holdOf,
+  isHeld,
+  openHolds,
+  repairBlockReason,
+  unitHolds,
+} from "./holds";
+
+const defaults: BlockerRules = BLOCKER_RULES.defaults;
+
+describe.each(DEFAULT_BLOCKER_RULES.map((r) => r.itemKey))("default rule %s", (itemKey) => {
+  test("Fail holds the unit", () => {
+    expect(evaluateHold(defaults, { [itemKey]: "Fail" })).toEqual({
+      held: true,
+      hits: [{ itemKey, status: "Fail" }],
+    });
+  });
+
+  test("Conditional, Pass and N/A do not", () => {
+    expect(isHeld(defaults, { [itemKey]: "Conditional" })).toBe(false);
+    expect(isHeld(defaults, { [itemKey]: "Pass" })).toBe(false);
+    expect(isHeld(defaults, { [itemKey]: "N/A" })).toBe(false);
+  });
+});
+
+test("cosmetic and accessory failures do not block by default", () => {
+  expect(isHeld(defaults, { cosmetic_screen: "Fail", accessory_remote: "Fail" })).toBe(false);
+});
+
+test("a rule can count Conditional as blocking", () => {
+  const rules: BlockerRules = { rules: [{ itemKey: "cosmetic_screen", statuses: ["Conditional", "Fail"], enabled: true, note: "Panel damage" }] };
+  expect(evaluateHold(rules, { cosmetic_screen: "Conditional" }).hits).toEqual([
+    { itemKey: "cosmetic_screen", status: "Conditional", note: "Panel damage" },
+  ]);
+  expect(isHeld(rules, { cosmetic_screen: "Pass" })).toBe(false);
+});
+
+test("disabled rules and unanswered items never hold", () => {
+  const rules: BlockerRules = { rules: [{ itemKey: "safety_ok", statuses: ["Fail"], enabled: false }] };
+  expect(isHeld(rules, { safety_ok: "Fail" })).toBe(false);
+  expect(isHeld(defaults, {})).toBe(false);
+});
+
+test("reports every triggered rule", () => {
+  const res = evaluateHold(defaults, { safety_ok: "Fail", esd_ok: "Fail", ports_intact: "Pass" });
+  expect(res.hits.map((h) => h.itemKey)).toEqual(["safety_ok", "esd_ok"]);
+});
+
+test("decode drops invalid and duplicate rules but keeps an empty list", () => {
+  const decoded = BLOCKER_RULES.decode({
+    rules: [
+      { itemKey: "safety_ok", statuses: ["Fail", "Bogus"] },
+      { itemKey: "safety_ok", statuses: ["Pass"] },
+      { itemKey: "", statuses: ["Fail"] },
+      { itemKey: "esd_ok", statuses: [] },
+    ],
+  });
+  expect(decoded.rules).toEqual([{ itemKey: "safety_ok", statuses: ["Fail"], enabled: true }]);
+  expect(BLOCKER_RULES.decode({ rules: [] }).rules).toEqual([]);
+  expect(BLOCKER_RULES.decode(undefined).rules).toBe(DEFAULT_BLOCKER_RULES);
+});
+
+describe("hold queue", () => {
+  const intake = (id: string, serial: string, createdAt: string, checklist: Intake["checklist"]): Intake => ({
+    id,
+    schemaVersion: 5,
+    serial,
+    family: "",
+    model: "",
+    sizeIn: "",
+    returnSource: "",
+    returnReason: "",
+    conditionIn: "",
+    checklist,
+    checklistVersion: 1,
+    photos: [],
+    createdAt,
+  });
+  const review = (intakeId: string, decision: HoldReview["decision"], createdAt: string): HoldReview => ({
+    id: `h-${intakeId}-${createdAt}`,
+    intakeId,
+    serial: "",
+    decision,
+    note: "checked",
+    createdAt,
+    createdBy: { uid: "qe", name: "QE" },
+  });
+
+  const intakes = [
+    intake("a1", "A", "2025-01-01T00:00:00Z", { safety_ok: "Fail" }),
+    intake("b1", "B", "2025-01-01T00:00:00Z", { esd_ok: "Fail" }),
+    intake("c1", "C", "2025-01-01T00:00:00Z", { esd_ok: "Pass" }),
+    // A later clean intake supersedes D's held one
+    intake("d1", "D", "2025-01-01T00:00:00Z", { labels_match: "Fail" }),
+    intake("d2", "D", "2025-02-01T00:00:00Z", { labels_match: "Pass" }),
+  ];
+
+  test("lists only unreviewed held serials as open", () => {
+    expect(openHolds(defaults, intakes, []).map((h) => h.serial)).toEqual(["A", "B"]);
+    expect(openHolds(defaults, intakes, [review("a1", "released", "2025-01-02T00:00:00Z")]).map((h) => h.serial)).toEqual(["B"]);
+  });
+
+  test("the latest review decides", () => {
+    const holds = unitHolds(defaults, intakes, [
+      review("b1", "released", "2025-01-02T00:00:00Z"),
+      review("b1", "rejected", "2025-01-03T00:00:00Z"),
+    ]);
+    expect(holds.get("B")?.status).toBe("rejected");
+    expect(holds.has("C")).toBe(false);
+    expect(holds.has("D")).toBe(false);
+  });
+
+  test("repairs are refused until released", () => {
+    const holds = unitHolds(defaults, intakes, [review("a1", "released", "2025-01-02T00:00:00Z")]);
+    expect(repairBlockReason(holds.get("A"))).toBeNull();
+    expect(repairBlockReason(holds.get("B"))).toMatch(/awaiting QE release/);
+    expect(repairBlockReason(holds.get("C"))).toBeNull();
+    expect(repairBlockReason({ ...holds.get("B")!, status: "rejected" })).toMatch(/scrap/);
+  });
+
+  test("a hold stored at save time survives later rule edits", () => {
+    const saved = intakes.map((i) => ({ ...i, hold: evaluateHold(defaults, i.checklist) }));
+    const edited: BlockerRules = {
+      rules: [
+        { itemKey: "safety_ok", statuses: ["Fail"], enabled: false },
+        { itemKey: "esd_ok", statuses: ["Pass"], enabled: true },
+      ],
+    };
+    const holds = unitHolds(edited, saved, []);
+    expect(Array.from(holds.keys())).toEqual(["A", "B"]);
+    expect(holds.get("A")?.hits).toEqual([{ itemKey: "safety_ok", status: "Fail" }]);
+    // Intakes saved before the verdict was stored follow the current rules
+    expect(holdOf(edited, intakes[0]).held).toBe(false);
+    expect(holdOf(edited, intakes[2]).held).toBe(true);
+  });
+});
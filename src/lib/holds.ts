@@ -0,0 +1,124 @@
+// src/lib/holds.ts
+// Blocker rules (Firestore settings/blockers): which checklist answers put a
+// unit on "Hold – QE Review". evaluateHold is the single place that decides;
+// the intake form stores its verdict on the intake, and holdOf reads it back.
+
+import { BlockerHit, Checklist, ChecklistStatus, CHECKLIST_STATUSES, HoldResult, HoldReview, Intake } from "./domain";
+import { SettingDef } from "./settings";
+
+export const HOLD_LABEL = "Hold – QE Review";
+
+export type BlockerRule = {
+  itemKey: string;               // checklist item key (see checklist.ts)
+  statuses: ChecklistStatus[];   // answers that trigger the hold
+  enabled: boolean;
+  note?: string;                 // why this item blocks, shown to technicians
+};
+
+export type BlockerRules = { rules: BlockerRule[] };
+
+const failOn = (itemKey: string): BlockerRule => ({ itemKey, statuses: ["Fail"], enabled: true });
+
+/** The hardcoded blockers from the initial release. */
+export const DEFAULT_BLOCKER_RULES: BlockerRule[] = [
+  failOn("labels_match"),
+  failOn("safety_ok"),
+  failOn("ports_intact"),
+  failOn("power_symptom"),
+  failOn("esd_ok"),
+];
+
+function decodeRule(raw: unknown): BlockerRule | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, any>;
+  const itemKey = String(r.itemKey || "").trim();
+  const statuses = Array.isArray(r.statuses) ? CHECKLIST_STATUSES.filter((s) => r.statuses.includes(s)) : [];
+  if (!itemKey || !statuses.length) return null;
+  return {
+    itemKey,
+    statuses,
+    enabled: r.enabled !== false,
+    ...(r.note ? { note: String(r.note) } : {}),
+  };
+}
+
+export const BLOCKER_RULES: SettingDef<BlockerRules> = {
+  name: "blockers",
+  defaults: { rules: DEFAULT_BLOCKER_RULES },
+  decode(raw) {
+    const list = raw && typeof raw === "object" ? (raw as any).rules : undefined;
+    if (!Array.isArray(list)) return { rules: DEFAULT_BLOCKER_RULES };
+    // One rule per item; an empty list is valid (nothing blocks)
+    const rules: BlockerRule[] = [];
+    list.forEach((raw) => {
+      const rule = decodeRule(raw);
+      if (rule && !rules.some((r) => r.itemKey === rule.itemKey)) rules.push(rule);
+    });
+    return { rules };
+  },
+};
+
+export type { BlockerHit, HoldResult };
+
+/** Evaluate a checklist against the enabled rules. */
+export function evaluateHold(rules: BlockerRules, checklist: Checklist): HoldResult {
+  const hits: BlockerHit[] = [];
+  rules.rules.forEach((rule) => {
+    const status = checklist[rule.itemKey];
+    if (!rule.enabled || !status || !rule.statuses.includes(status)) return;
+    hits.push({ itemKey: rule.itemKey, status, ...(rule.note ? { note: rule.note } : {}) });
+  });
+  return { held: hits.length > 0, hits };
+}
+
+export const isHeld = (rules: BlockerRules, checklist: Checklist) => evaluateHold(rules, checklist).held;
+
+/** The verdict stored at save time; intakes saved before it was stored are evaluated against the current rules. */
+export const holdOf = (rules: BlockerRules, intake: Intake): HoldResult =>
+  intake.hold ?? evaluateHold(rules, intake.checklist);
+
+/****************************************************
+ * Hold queue: a serial is held while its latest intake trips a rule and
+ * QE has not yet released or rejected that intake.
+ ****************************************************/
+export type HoldStatus = "held" | "released" | "rejected";
+
+export type UnitHold = {
+  serial: string;
+  intake: Intake;
+  hits: BlockerHit[];
+  status: HoldStatus;
+  review?: HoldReview;            // latest QE decision on this intake
+};
+
+const newest = <T>(rows: T[], at: (r: T) => string) =>
+  rows.reduce<T | undefined>((best, r) => (!best || at(r) > at(best) ? r : best), undefined);
+
+/** Hold state per serial, for every serial whose latest intake matched a blocker rule. */
+export function unitHolds(rules: BlockerRules, intakes: Intake[], reviews: HoldReview[]): Map<string, UnitHold> {
+  const latest = new Map<string, Intake>();
+  intakes.forEach((i) => {
+    const prev = latest.get(i.serial);
+    if (!prev || i.createdAt > prev.createdAt) latest.set(i.serial, i);
+  });
+  const out = new Map<string, UnitHold>();
+  latest.forEach((intake, serial) => {
+    const { held, hits } = holdOf(rules, intake);
+    if (!held) return;
+    const review = newest(
+      reviews.filter((r) => r.intakeId === intake.id),
+      (r) => r.createdAt
+    );
+    out.set(serial, { serial, intake, hits, status: review ? review.decision : "held", review });
+  });
+  return out;
+}
+
+export const openHolds = (rules: BlockerRules, intakes: Intake[], reviews: HoldReview[]) =>
+  Array.from(unitHolds(rules, intakes, reviews).values()).filter((h) => h.status === "held");
+
+/** Why a repair may not start on this serial, or null when it may. */
+export function repairBlockReason(hold: UnitHold | undefined): string | null {
+  if (!hold || hold.status === "released") return null;
+  return hold.status === "rejected" ? "Rejected by QE to scrap" : `${HOLD_LABEL} – awaiting QE release`;
+}
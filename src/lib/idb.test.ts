@@ -0,0 +1,40 @@
+import "fake-indexeddb/auto";
+import { done } from "./idb";
+import { Intake } from "./domain";
+import { listOutbox, recordKey } from "./outbox";
+import { mergeSnapshot } from "./merge";
+import { getAllRecords } from "./recordStore";
+
+/** A database as the v2 app left it: whole arrays in `data`, serial-keyed outbox entries. */
+async function seedVersion2(intakes: unknown[], outbox: unknown[]) {
+  const open = indexedDB.open("RokuRepairDB", 2);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore("data", { keyPath: "key" });
+    open.result.createObjectStore("outbox", { keyPath: "key" });
+  };
+  const db = await done(open);
+  const tx = db.transaction(["data", "outbox"], "readwrite");
+  tx.objectStore("data").put({ key: "intakes", value: intakes });
+  outbox.forEach((e) => tx.objectStore("outbox").put(e));
+  await new Promise((resolve) => (tx.oncomplete = resolve));
+  db.close();
+}
+
+test("legacy records that never reached the cloud survive the upgrade and the first snapshot", async () => {
+  const legacy = { serial: "X1", family: "Abilene", model: "55R6A5R", createdAt: "2025-03-01T08:00:00.000Z", checklist: {}, photos: [] };
+  const fromCloud = { ...legacy, id: "cloud-1", serial: "X2" };
+  await seedVersion2([legacy, fromCloud], [{ key: "intake:X1:2025-03-01T08:00:00.000Z", kind: "intake", payload: legacy }]);
+
+  const stored = (await getAllRecords("intake")) as Intake[];
+  const migrated = stored.find((r) => r.serial === "X1")!;
+  expect(migrated.id).toBeTruthy();
+
+  const queued = await listOutbox();
+  expect(queued.map((e) => e.key)).toEqual([`intake:${migrated.id}`]);
+  expect(queued[0].payload).toMatchObject({ id: migrated.id, serial: "X1" });
+
+  // First snapshot: the cloud knows neither row any more
+  const keys = new Set(queued.map((e) => e.key));
+  const merged = mergeSnapshot(stored, [], (r) => keys.has(recordKey("intake", r)));
+  expect(merged.map((r) => r.serial)).toEqual(["X1"]);
+});
@@ -0,0 +1,137 @@
+// src/lib/idb.ts
+// Shared access to the RokuRepairDB IndexedDB database.
+//
+// Versions
+//   1 – `data` key/value store holding whole arrays ("intakes", "repairs")
+//   2 – `outbox` store for queued cloud saves
+//   3 – per-record `intakes` / `repairs` stores keyed by id, with indexes;
+//       the old arrays are moved out of `data` during the upgrade, and rows
+//       without an id (never seen in the cloud) are queued in the outbox
+//   4 – `holdReviews` store for QE hold decisions
+//   5 – `unitEvents` store for unit lifecycle transitions
+//   6 – `qcChecks` store for post-repair QC
+//   7 – `burnInSessions` store for soak-rack runs
+//   8 – `stockMoves` store for the parts inventory ledger
+//   9 – `harvests` store for boards pulled from Scrap / BER units
+
+import { migrateIntake, migrateRepair } from "./migrations";
+import { OutboxKind, outboxEntry, recordKey } from "./outbox";
+
+export const DB_NAME = "RokuRepairDB";
+export const DB_VERSION = 9;
+
+export const hasIndexedDB = () =>
+  typeof window !== "undefined" && "indexedDB" in window;
+
+/** Object store + index layout for the per-record stores. */
+export const RECORD_STORES = {
+  intakes: ["serial", "createdAt"],
+  repairs: ["serial", "startAt", "technician", "failureCode"],
+  holdReviews: ["serial", "intakeId", "createdAt"],
+  unitEvents: ["serial", "createdAt"],
+  qcChecks: ["serial", "repairId", "createdAt"],
+  burnInSessions: ["serial", "repairId", "startedAt"],
+  stockMoves: ["partNumber", "repairId", "createdAt"],
+  harvests: ["donorSerial", "repairId", "createdAt"],
+} as const;
+
+type RecordStoreName = keyof typeof RECORD_STORES;
+
+function createRecordStore(db: IDBDatabase, name: RecordStoreName) {
+  const store = db.createObjectStore(name, { keyPath: "id" });
+  RECORD_STORES[name].forEach((field) => store.createIndex(field, field, { unique: false }));
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, tx: IDBTransaction, oldVersion: number) {
+  if (oldVersion < 1) db.createObjectStore("data", { keyPath: "key" });
+  if (oldVersion < 2) db.createObjectStore("outbox", { keyPath: "key" });
+  if (oldVersion < 3) {
+    createRecordStore(db, "intakes");
+    createRecordStore(db, "repairs");
+    // Move the v1/v2 whole-array blobs into the new stores
+    const data = tx.objectStore("data");
+    const outbox = tx.objectStore("outbox");
+    const moves: Array<[string, OutboxKind, (raw: unknown) => unknown]> = [
+      ["intakes", "intake", (r) => migrateIntake(r)],
+      ["repairs", "repair", (r) => migrateRepair(r)],
+    ];
+    moves.forEach(([key, kind, migrate]) => {
+      const get = data.get(key);
+      get.onsuccess = () => {
+        const rows: any[] = Array.isArray(get.result?.value) ? get.result.value : [];
+        const target = tx.objectStore(key);
+        rows.forEach((raw) => {
+          const rec = migrate(raw) as { id?: string } | null;
+          if (!rec || !rec.id) return;
+          target.put(rec);
+          if (raw?.id) return;
+          // No id: never seen in a snapshot (those carry the doc id), so never uploaded.
+          // Queue it under its new id, replacing any serial-keyed entry from v2
+          outbox.delete(recordKey(kind, raw));
+          outbox.put(outboxEntry(kind, rec));
+        });
+        data.delete(key);
+      };
+    });
+  }
+  if (oldVersion < 4) createRecordStore(db, "holdReviews");
+  if (oldVersion < 5) createRecordStore(db, "unitEvents");
+  if (oldVersion < 6) createRecordStore(db, "qcChecks");
+  if (oldVersion < 7) createRecordStore(db, "burnInSessions");
+  if (oldVersion < 8) createRecordStore(db, "stockMoves");
+  if (oldVersion < 9) createRecordStore(db, "harvests");
+}
+
+/** Open (and upgrade) the database once; later calls reuse the same handle. */
+export function openDB(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (ev) => upgrade(req.result, req.transaction!, ev.oldVersion);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  // Allow a later retry if the open itself failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+export function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Resolves when a readwrite transaction commits. */
+export function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function idbGet<T>(store: string, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openDB();
+  return done(db.transaction(store, "readonly").objectStore(store).get(key));
+}
+
+export async function idbGetAll<T>(store: string): Promise<T[]> {
+  const db = await openDB();
+  return done(db.transaction(store, "readonly").objectStore(store).getAll());
+}
+
+export async function idbPut<T>(store: string, value: T): Promise<void> {
+  const db = await openDB();
+  await done(db.transaction(store, "readwrite").objectStore(store).put(value));
+}
+
+export async function idbDelete(store: string, key: IDBValidKey): Promise<void> {
+  const db = await openDB();
+  await done(db.transaction(store, "readwrite").objectStore(store).delete(key));
+}
@@ -0,0 +1,23 @@
+// src/lib/ids.ts
+
+/**
+ * Record id: an RFC 4122 v4 UUID made on the client, so a record has its id
+ * before it is saved anywhere. The same id is the Firestore document ID and
+ * keys the record's outbox entry. Uses crypto.randomUUID when the browser
+ * provides it.
+ */
+export function newRecordId(): string {
+  const c: Crypto | undefined = typeof crypto !== "undefined" ? crypto : undefined;
+  if (c && typeof (c as any).randomUUID === "function") return (c as any).randomUUID();
+
+  const bytes = new Uint8Array(16);
+  if (c && typeof c.getRandomValues === "function") {
+    c.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40; // version 4
+  bytes[8] = (bytes[8] & 0x3f) | 0x80; // variant 10xx
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
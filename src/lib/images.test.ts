@@ -0,0 +1,77 @@
+import { dataUrlToBlob, extensionFor, fitWithin, reencodeImage, renameFor } from "./images";
+
+test("photos are fitted inside the max edge without upscaling", () => {
+  expect(fitWithin(4032, 3024, 1600)).toEqual({ width: 1600, height: 1200 });
+  expect(fitWithin(3024, 4032, 1600)).toEqual({ width: 1200, height: 1600 });
+  expect(fitWithin(800, 600, 1600)).toEqual({ width: 800, height: 600 });
+});
+
+test("file names follow the MIME type", () => {
+  expect(extensionFor("image/jpeg")).toBe("jpg");
+  expect(extensionFor("image/PNG")).toBe("png");
+  expect(extensionFor("application/pdf")).toBe("bin");
+  expect(renameFor("IMG_0001.HEIC", "image/jpeg")).toBe("IMG_0001.jpg");
+  expect(renameFor("photo_1", "image/png")).toBe("photo_1.png");
+});
+
+test("data URLs become typed blobs", () => {
+  const blob = dataUrlToBlob("data:image/png;base64,AAAA");
+  expect(blob.type).toBe("image/png");
+  expect(blob.size).toBe(3);
+});
+
+/** Minimal JPEG header: SOI + APP1 Exif with one IFD0 entry (Orientation). */
+function jpegWithOrientation(orientation: number, little: boolean): ArrayBuffer {
+  const buf = new ArrayBuffer(2 + 2 + 2 + 6 + 8 + 2 + 12 + 4);
+  const v = new DataView(buf);
+  v.setUint16(0, 0xffd8);
+  v.setUint16(2, 0xffe1);
+  v.setUint16(4, buf.byteLength - 4);
+  [0x45, 0x78, 0x69, 0x66, 0, 0].forEach((b, i) => v.setUint8(6 + i, b)); // "Exif\0\0"
+  const tiff = 12;
+  v.setUint16(tiff, little ? 0x4949 : 0x4d4d);
+  v.setUint16(tiff + 2, 42, little);
+  v.setUint32(tiff + 4, 8, little);
+  v.setUint16(tiff + 8, 1, little);
+  v.setUint16(tiff + 10, 0x0112, little);
+  v.setUint16(tiff + 12, 3, little);
+  v.setUint32(tiff + 14, 1, little);
+  v.setUint16(tiff + 18, orientation, little);
+  return buf;
+}
+
+test("the decoder turns a photo upright and the canvas draws it as decoded", async () => {
+  // A portrait phone photo: stored 400×300 with orientation 6, decoded upright as 300×400
+  const close = jest.fn();
+  const decode = jest.fn(async () => ({ width: 300, height: 400, close }));
+  const ctx = { fillRect: jest.fn(), drawImage: jest.fn(), setTransform: jest.fn(), transform: jest.fn(), rotate: jest.fn() };
+  const canvases: Array<{ width: number; height: number }> = [];
+  const createElement = document.createElement.bind(document);
+  (globalThis as any).createImageBitmap = decode;
+  const spy = jest.spyOn(document, "createElement").mockImplementation(((tag: string) => {
+    if (tag !== "canvas") return createElement(tag);
+    const canvas = {
+      width: 0,
+      height: 0,
+      getContext: () => ctx,
+      toBlob: (done: (b: Blob) => void) => done(new Blob(["jpeg"], { type: "image/jpeg" })),
+    };
+    canvases.push(canvas);
+    return canvas;
+  }) as any);
+  try {
+    const photo = new Blob([jpegWithOrientation(6, false)], { type: "image/jpeg" });
+    await reencodeImage(photo, [{ maxEdge: 200, quality: 0.8 }]);
+    expect(decode).toHaveBeenCalledWith(photo, { imageOrientation: "from-image" });
+    expect(canvases).toEqual([expect.objectContaining({ width: 150, height: 200 })]);
+    expect(ctx.drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 150, 200);
+    // Rotating again would turn the photo sideways
+    expect(ctx.setTransform).not.toHaveBeenCalled();
+    expect(ctx.transform).not.toHaveBeenCalled();
+    expect(ctx.rotate).not.toHaveBeenCalled();
+    expect(close).toHaveBeenCalled();
+  } finally {
+    spy.mockRestore();
+    delete (globalThis as any).createImageBitmap;
+  }
+});
@@ -0,0 +1,174 @@
+// src/lib/images.ts
+// Browser-side photo helpers: fitting a photo inside a max edge, re-encoding
+// through a canvas (which drops all metadata, GPS included) and naming files
+// after their actual MIME type. The browser applies the EXIF orientation
+// while decoding, so the canvas never rotates a photo itself.
+
+/** Largest size with the same aspect ratio whose longest edge is at most maxEdge (never upscales). */
+export function fitWithin(width: number, height: number, maxEdge: number): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (!(maxEdge > 0) || longest <= maxEdge) return { width, height };
+  const scale = maxEdge / longest;
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "image/heic": "heic",
+  "image/heif": "heif",
+};
+
+/** File extension for a MIME type ("image/jpeg" -> "jpg"); "bin" when unknown. */
+export const extensionFor = (mime: string) => EXTENSIONS[mime.split(";")[0].trim().toLowerCase()] || "bin";
+
+/** `name` with its extension replaced by the one matching `mime`. */
+export function renameFor(name: string, mime: string): string {
+  const base = name.replace(/\.[^./\\]+$/, "") || "photo";
+  return `${base}.${extensionFor(mime)}`;
+}
+
+/** "data:image/png;base64,XXXX" -> Blob of the right type. */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [head, data = ""] = dataUrl.includes(",") ? dataUrl.split(",", 2) : ["", dataUrl];
+  const mime = /^data:([^;,]+)/.exec(head)?.[1] || "application/octet-stream";
+  const bin = atob(data);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result || ""));
+    r.onerror = () => reject(r.error);
+    r.readAsDataURL(blob);
+  });
+}
+
+/** Blob -> base64 (without the data URL prefix). */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const dataUrl = await blobToDataUrl(blob);
+  return dataUrl.includes(",") ? dataUrl.split(",")[1] : dataUrl;
+}
+
+type Decoded = { source: CanvasImageSource; width: number; height: number; close: () => void };
+
+// lib.dom in TypeScript 4.9 predates the spec's "from-image" value (which replaced "none")
+const UPRIGHT = { imageOrientation: "from-image" } as unknown as ImageBitmapOptions;
+
+/** Decode a photo upright: both decoders apply its EXIF orientation, exactly once. */
+async function decodeImage(blob: Blob): Promise<Decoded> {
+  if (typeof createImageBitmap === "function") {
+    const bmp = await createImageBitmap(blob, UPRIGHT);
+    return { source: bmp, width: bmp.width, height: bmp.height, close: () => bmp.close() };
+  }
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("Could not read the image"));
+      img.src = url;
+    });
+    // <img> decoding honors EXIF orientation (CSS image-orientation: from-image)
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => {} };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * A photo (data URL or HTTPS URL) as a JPEG / PNG data URL with its size,
+ * for embedding in PDFs. Rejects when it cannot be fetched (offline, CORS)
+ * or decoded.
+ */
+export async function loadImageData(src: string): Promise<{ dataUrl: string; width: number; height: number }> {
+  const blob = src.startsWith("data:") ? dataUrlToBlob(src) : await (await fetch(src)).blob();
+  const img = await decodeImage(blob);
+  try {
+    const usable = blob.type === "image/jpeg" || blob.type === "image/png";
+    const data = usable ? blob : await encodeJpeg(img, Math.max(img.width, img.height), 0.85);
+    return { dataUrl: await blobToDataUrl(data), width: img.width, height: img.height };
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Downscale a photo to maxEdge and re-encode it as JPEG at `quality` (0–1).
+ * A JPEG already within maxEdge is returned as is. Transparent areas are
+ * flattened onto white. Rejects when the browser cannot decode the image.
+ */
+export async function downscaleImage(blob: Blob, maxEdge: number, quality: number): Promise<Blob> {
+  const img = await decodeImage(blob);
+  try {
+    const size = fitWithin(img.width, img.height, maxEdge);
+    if (blob.type === "image/jpeg" && size.width === img.width && size.height === img.height) return blob;
+    return await encodeJpeg(img, maxEdge, quality);
+  } finally {
+    img.close();
+  }
+}
+
+/** Draw the decoded image fitted inside maxEdge and encode it as JPEG. */
+function encodeJpeg(img: Decoded, maxEdge: number, quality: number): Promise<Blob> {
+  const out = fitWithin(img.width, img.height, maxEdge);
+  const canvas = document.createElement("canvas");
+  canvas.width = out.width;
+  canvas.height = out.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas is not available"));
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, out.width, out.height);
+  ctx.drawImage(img.source, 0, 0, out.width, out.height);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the image"))), "image/jpeg", quality)
+  );
+}
+
+/**
+ * Draw over a photo at its full size (e.g. annotations) and encode the
+ * result as JPEG at `quality`.
+ */
+export async function drawOnImage(
+  blob: Blob,
+  draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void,
+  quality: number
+): Promise<Blob> {
+  const img = await decodeImage(blob);
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not available");
+    ctx.drawImage(img.source, 0, 0);
+    draw(ctx, img.width, img.height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not encode the image"))), "image/jpeg", quality)
+    );
+  } finally {
+    img.close();
+  }
+}
+
+/**
+ * Re-encode a photo once per variant (e.g. full size and thumbnail), upright
+ * per its EXIF orientation. Always re-encodes, so the output carries no EXIF
+ * metadata (GPS position, camera serial …). Rejects when the browser cannot
+ * decode the image.
+ */
+export async function reencodeImage(blob: Blob, variants: Array<{ maxEdge: number; quality: number }>): Promise<Blob[]> {
+  const img = await decodeImage(blob);
+  try {
+    const out: Blob[] = [];
+    for (const v of variants) out.push(await encodeJpeg(img, v.maxEdge, v.quality));
+    return out;
+  } finally {
+    img.close();
+  }
+}
@@ -0,0 +1,91 @@
+import { StockMove } from "./domain";
+import {
+  PARTS_CATALOG,
+  PartsCatalog,
+  catalogCsvRows,
+  consumeMoves,
+  importCatalogRows,
+  lowStock,
+  onHandByPart,
+  partsFor,
+  stockLevels,
+} from "./inventory";
+import { parseCSV } from "./csv";
+
+const by = { uid: "u1", name: "Lead" };
+
+const catalog: PartsCatalog = PARTS_CATALOG.decode({
+  parts: [
+    { partNumber: "psu-55a", description: "Power board 55in", families: ["Abilene"], reorderPoint: 2 },
+    { partNumber: "TCON-1", description: "T-CON", models: ["55R6A5R"], reorderPoint: "1" },
+    { partNumber: "OLD-1", status: "retired" },
+    { partNumber: "PSU-55A", description: "duplicate" },
+    { description: "no part number" },
+  ],
+});
+
+let n = 0;
+const move = (partNumber: string, delta: number, reason: StockMove["reason"] = "receive"): StockMove => ({
+  id: `m${++n}`,
+  partNumber,
+  delta,
+  reason,
+  createdAt: "2025-03-01T00:00:00.000Z",
+  createdBy: by,
+});
+
+test("decode normalizes part numbers and drops duplicates", () => {
+  expect(catalog.parts.map((p) => p.partNumber)).toEqual(["PSU-55A", "TCON-1", "OLD-1"]);
+  expect(catalog.parts[1].reorderPoint).toBe(1);
+  expect(PARTS_CATALOG.decode(undefined)).toEqual({ parts: [] });
+});
+
+test("parts are offered by family and model", () => {
+  expect(partsFor(catalog, "abilene", "55R6A5R").map((p) => p.partNumber)).toEqual(["PSU-55A", "TCON-1"]);
+  expect(partsFor(catalog, "Other", "43R4").map((p) => p.partNumber)).toEqual([]);
+  expect(partsFor(catalog).map((p) => p.partNumber)).toEqual(["PSU-55A", "TCON-1"]);
+});
+
+test("on hand is the sum of moves and low stock is at or below the reorder point", () => {
+  const moves = [move("PSU-55A", 5), move("PSU-55A", -3, "consume"), move("TCON-1", 4), move("TCON-1", -1, "adjust")];
+  expect(onHandByPart(moves).get("PSU-55A")).toBe(2);
+  const levels = stockLevels(catalog, moves);
+  expect(levels.map((l) => [l.part.partNumber, l.onHand, l.low])).toEqual([
+    ["PSU-55A", 2, true],
+    ["TCON-1", 3, false],
+  ]);
+  expect(lowStock(levels)).toHaveLength(1);
+});
+
+test("a repair consumes each part it fitted", () => {
+  const ids = ["a", "b"];
+  const moves = consumeMoves(
+    {
+      id: "r1",
+      serial: "X1",
+      parts: [
+        { partNumber: "PSU-55A", description: "", qty: 1, source: "New" },
+        { partNumber: "FFC-1", description: "", qty: 2, source: "Harvested" },
+      ],
+    },
+    "2025-03-02T00:00:00.000Z",
+    by,
+    () => ids.shift()!
+  );
+  expect(moves.map((m) => [m.id, m.partNumber, m.delta, m.reason, m.repairId])).toEqual([
+    ["a", "PSU-55A", -1, "consume", "r1"],
+    ["b", "FFC-1", -2, "consume", "r1"],
+  ]);
+});
+
+test("catalog CSV round-trips and import merges by part number", () => {
+  const csv = [
+    "partNumber,description,families,models,reorderPoint,status",
+    ...catalogCsvRows(catalog).map((r) => Object.values(r).map((v) => `"${v}"`).join(",")),
+  ].join("\n");
+  expect(importCatalogRows({ parts: [] }, parseCSV(csv)).catalog).toEqual(catalog);
+
+  const res = importCatalogRows(catalog, parseCSV('partNumber,description,reorderPoint\nTCON-1,"T-CON, 55in",3\nLED-9,Strip,\n,missing,1'));
+  expect([res.added, res.updated, res.skipped]).toEqual([1, 1, 1]);
+  expect(res.catalog.parts.find((p) => p.partNumber === "TCON-1")).toMatchObject({ description: "T-CON, 55in", reorderPoint: 3 });
+});
@@ -0,0 +1,144 @@
+// src/lib/inventory.ts
+// Parts inventory. The catalog (Firestore settings/parts) lists stocked part
+// numbers per family/model with a reorder point; stock itself is the
+// append-only StockMove ledger (Firestore `stockMoves`), so on hand is always
+// the sum of a part's moves. Saving a repair appends one consume move per
+// part fitted.
+
+import { Actor, PartUsage, StockMove } from "./domain";
+import { CodeStatus } from "./codes";
+import { normalizePartNumber } from "./parts";
+import { SettingDef } from "./settings";
+
+export type CatalogPart = {
+  partNumber: string;
+  description: string;
+  families: string[];            // empty = fits every family
+  models: string[];              // empty = fits every model of those families
+  reorderPoint: number;          // low stock at or below this count
+  status: CodeStatus;
+};
+
+export type PartsCatalog = { parts: CatalogPart[] };
+
+const toList = (v: unknown): string[] => {
+  const list = Array.isArray(v) ? v : typeof v === "string" ? v.split(/[|,]/) : [];
+  return list.map((x) => String(x).trim()).filter(Boolean);
+};
+
+function decodePart(raw: unknown): CatalogPart | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, unknown>;
+  const partNumber = normalizePartNumber(String(r.partNumber || ""));
+  if (!partNumber) return null;
+  const reorder = Number(r.reorderPoint);
+  return {
+    partNumber,
+    description: String(r.description || "").trim(),
+    families: toList(r.families),
+    models: toList(r.models),
+    reorderPoint: Number.isInteger(reorder) && reorder > 0 ? reorder : 0,
+    status: r.status === "retired" ? "retired" : "active",
+  };
+}
+
+export const PARTS_CATALOG: SettingDef<PartsCatalog> = {
+  name: "parts",
+  defaults: { parts: [] },
+  decode(raw) {
+    const list = raw && typeof raw === "object" ? (raw as any).parts : undefined;
+    const parts: CatalogPart[] = [];
+    (Array.isArray(list) ? list : []).forEach((row) => {
+      const part = decodePart(row);
+      if (part && !parts.some((p) => p.partNumber === part.partNumber)) parts.push(part);
+    });
+    return { parts };
+  },
+};
+
+const matches = (list: string[], value: string | undefined) =>
+  list.length === 0 || !value || list.some((x) => x.toLowerCase() === value.trim().toLowerCase());
+
+/** Active parts that fit a unit (family / model match is case-insensitive). */
+export const partsFor = (catalog: PartsCatalog, family?: string, model?: string): CatalogPart[] =>
+  catalog.parts.filter((p) => p.status === "active" && matches(p.families, family) && matches(p.models, model));
+
+export function onHandByPart(moves: StockMove[]): Map<string, number> {
+  const out = new Map<string, number>();
+  moves.forEach((m) => out.set(m.partNumber, (out.get(m.partNumber) || 0) + m.delta));
+  return out;
+}
+
+export type StockLevel = { part: CatalogPart; onHand: number; low: boolean };
+
+/** Stock per active catalog part, low-stock ones first. */
+export function stockLevels(catalog: PartsCatalog, moves: StockMove[]): StockLevel[] {
+  const onHand = onHandByPart(moves);
+  return catalog.parts
+    .filter((p) => p.status === "active")
+    .map((part) => {
+      const n = onHand.get(part.partNumber) || 0;
+      return { part, onHand: n, low: n <= part.reorderPoint };
+    })
+    .sort((a, b) => Number(b.low) - Number(a.low) || a.part.partNumber.localeCompare(b.part.partNumber));
+}
+
+export const lowStock = (levels: StockLevel[]) => levels.filter((l) => l.low);
+
+/** Consume moves for the parts fitted on a repair (one per part row). */
+export function consumeMoves(
+  repair: { id: string; serial: string; parts: PartUsage[] },
+  at: string,
+  by: Actor,
+  newId: () => string
+): StockMove[] {
+  return repair.parts.map((p) => ({
+    id: newId(),
+    partNumber: p.partNumber,
+    delta: -p.qty,
+    reason: "consume",
+    repairId: repair.id,
+    serial: repair.serial,
+    createdAt: at,
+    createdBy: by,
+  }));
+}
+
+/****************************************************
+ * Catalog CSV (one row per part; lists are "|" separated)
+ ****************************************************/
+export const catalogCsvRows = (catalog: PartsCatalog) =>
+  catalog.parts.map((p) => ({
+    partNumber: p.partNumber,
+    description: p.description,
+    families: p.families.join("|"),
+    models: p.models.join("|"),
+    reorderPoint: p.reorderPoint,
+    status: p.status,
+  }));
+
+export type CatalogImport = { catalog: PartsCatalog; added: number; updated: number; skipped: number };
+
+/** Merge imported rows into the catalog: matching part numbers are replaced, new ones appended. */
+export function importCatalogRows(catalog: PartsCatalog, rows: Array<Record<string, string>>): CatalogImport {
+  const parts = [...catalog.parts];
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+  rows.forEach((row) => {
+    const part = decodePart(row);
+    if (!part) {
+      skipped++;
+      return;
+    }
+    const idx = parts.findIndex((p) => p.partNumber === part.partNumber);
+    if (idx >= 0) {
+      parts[idx] = part;
+      updated++;
+    } else {
+      parts.push(part);
+      added++;
+    }
+  });
+  return { catalog: { parts }, added, updated, skipped };
+}
@@ -0,0 +1,92 @@
+import "fake-indexeddb/auto";
+import { Repair, SCHEMA_VERSION } from "./domain";
+import { idbPut } from "./idb";
+import {
+  averageLabor,
+  formatMinutes,
+  keepBenchTimer,
+  loadBenchTimer,
+  pauseTimer,
+  repairLabor,
+  resumeTimer,
+  startTimer,
+  stopTimer,
+  timerMs,
+  timerPauses,
+  timerState,
+} from "./labor";
+
+const at = (min: number) => new Date(Date.UTC(2025, 2, 1, 8, min)).toISOString();
+
+const repair = (id: string, failureCode: string, technician: string, minutes: number, pauses: Repair["pauses"] = []): Repair => ({
+  id,
+  schemaVersion: SCHEMA_VERSION,
+  serial: `S-${id}`,
+  startAt: at(0),
+  endAt: at(minutes),
+  technician,
+  failureCode,
+  actions: [],
+  disposition: "Repaired",
+  parts: [],
+  pauses,
+  photos: [],
+});
+
+test("the bench timer excludes paused time from touch time", () => {
+  let t = startTimer(at(0));
+  t = pauseTimer(t, at(20));
+  expect(timerState(t)).toBe("paused");
+  expect(pauseTimer(t, at(25))).toBe(t);
+  t = resumeTimer(t, at(30));
+  expect(timerMs(t, new Date(at(40)).getTime())).toEqual({ wall: 40 * 60000, touch: 30 * 60000 });
+
+  t = stopTimer(pauseTimer(t, at(50)), at(55));
+  expect(timerState(t)).toBe("stopped");
+  expect(timerPauses(t)).toEqual([
+    { at: at(20), resumedAt: at(30) },
+    { at: at(50), resumedAt: at(55) },
+  ]);
+  expect(timerMs(t, new Date(at(90)).getTime()).touch).toBe(40 * 60000);
+});
+
+test("repair labor needs an end time and clips pauses to the repair", () => {
+  expect(repairLabor({ startAt: at(0), pauses: [] })).toBeNull();
+  expect(repairLabor({ startAt: at(10), endAt: at(0), pauses: [] })).toBeNull();
+  expect(repairLabor(repair("1", "PSU", "Ana", 60, [{ at: at(50), resumedAt: at(75) }]))).toEqual({
+    wallMinutes: 60,
+    touchMinutes: 50,
+  });
+});
+
+test("labor is averaged per group over finished repairs", () => {
+  const rows = averageLabor(
+    [
+      repair("1", "PSU", "Ana", 60, [{ at: at(10), resumedAt: at(30) }]),
+      repair("2", "PSU", "Ben", 30),
+      repair("3", "TCON", "Ana", 90),
+      { ...repair("4", "TCON", "Ana", 0), endAt: undefined },
+    ],
+    (r) => r.failureCode
+  );
+  expect(rows).toEqual([
+    { key: "TCON", repairs: 1, avgTouchMinutes: 90, avgWallMinutes: 90 },
+    { key: "PSU", repairs: 2, avgTouchMinutes: 35, avgWallMinutes: 45 },
+  ]);
+  expect(formatMinutes(42)).toBe("42m");
+  expect(formatMinutes(65)).toBe("1h 05m");
+});
+
+test("a running bench timer is kept with its unit until the repair is saved", async () => {
+  expect(await loadBenchTimer()).toBeNull();
+  const timer = pauseTimer(startTimer(at(0)), at(10));
+  await keepBenchTimer({ serial: "X001", timer });
+  // What the repair form finds when it mounts again
+  expect(await loadBenchTimer()).toEqual({ serial: "X001", timer });
+
+  await keepBenchTimer(null);
+  expect(await loadBenchTimer()).toBeNull();
+
+  await idbPut("data", { key: "benchTimer", value: { serial: "X001", timer: { startedAt: "soon" } } });
+  expect(await loadBenchTimer()).toBeNull();
+});
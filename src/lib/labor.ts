@@ -0,0 +1,140 @@
+// src/lib/labor.ts
+// Repair labor. Wall time runs from a repair's startAt to its endAt; touch
+// time is the wall time minus the pauses taken on the bench timer
+// (RepairForm). The Dashboard averages both per failure code, family and
+// technician.
+
+import { Repair, RepairPause } from "./domain";
+import { hasIndexedDB, idbDelete, idbGet, idbPut } from "./idb";
+
+/** Bench timer while a repair is being worked on; becomes startAt / endAt / pauses on save. */
+export type RepairTimer = {
+  startedAt: string;              // ISO
+  pauses: Array<{ at: string; resumedAt?: string }>;
+  stoppedAt?: string;             // ISO
+};
+
+export type TimerState = "running" | "paused" | "stopped";
+
+export function timerState(t: RepairTimer): TimerState {
+  if (t.stoppedAt) return "stopped";
+  return t.pauses.some((p) => !p.resumedAt) ? "paused" : "running";
+}
+
+export const startTimer = (at: string): RepairTimer => ({ startedAt: at, pauses: [] });
+
+/** Each change returns the timer unchanged when it does not apply to the current state. */
+export const pauseTimer = (t: RepairTimer, at: string): RepairTimer =>
+  timerState(t) === "running" ? { ...t, pauses: [...t.pauses, { at }] } : t;
+
+export const resumeTimer = (t: RepairTimer, at: string): RepairTimer =>
+  timerState(t) === "paused" ? { ...t, pauses: t.pauses.map((p) => (p.resumedAt ? p : { ...p, resumedAt: at })) } : t;
+
+/** Stopping while paused ends the open pause at the stop time. */
+export const stopTimer = (t: RepairTimer, at: string): RepairTimer =>
+  timerState(t) === "stopped" ? t : { ...resumeTimer(t, at), stoppedAt: at };
+
+/** Closed pauses, as stored on the repair. */
+export const timerPauses = (t: RepairTimer): RepairPause[] =>
+  t.pauses.filter((p): p is RepairPause => !!p.resumedAt);
+
+/****************************************************
+ * The repair form's running timer, kept with its serial in the IndexedDB
+ * `data` store so leaving the Repair tab or reloading does not lose it.
+ ****************************************************/
+export type BenchTimer = { serial: string; timer: RepairTimer };
+
+const BENCH_TIMER_KEY = "benchTimer";
+
+const isoOrNull = (v: unknown) => (typeof v === "string" && !isNaN(Date.parse(v)) ? v : null);
+
+function decodeBenchTimer(raw: unknown): BenchTimer | null {
+  if (!raw || typeof raw !== "object") return null;
+  const r = raw as Record<string, any>;
+  const t = r.timer && typeof r.timer === "object" ? r.timer : {};
+  const startedAt = isoOrNull(t.startedAt);
+  if (typeof r.serial !== "string" || !startedAt) return null;
+  const pauses: RepairTimer["pauses"] = [];
+  (Array.isArray(t.pauses) ? t.pauses : []).forEach((p: any) => {
+    const at = isoOrNull(p?.at);
+    const resumedAt = isoOrNull(p?.resumedAt);
+    if (at) pauses.push(resumedAt ? { at, resumedAt } : { at });
+  });
+  const stoppedAt = isoOrNull(t.stoppedAt);
+  return { serial: r.serial, timer: { startedAt, pauses, ...(stoppedAt ? { stoppedAt } : {}) } };
+}
+
+export async function loadBenchTimer(): Promise<BenchTimer | null> {
+  if (!hasIndexedDB()) return null;
+  const row = await idbGet<{ key: string; value: unknown }>("data", BENCH_TIMER_KEY);
+  return row ? decodeBenchTimer(row.value) : null;
+}
+
+/** Keep the form's timer, or forget it (`null`) once the repair is saved or the timer cleared. */
+export async function keepBenchTimer(bench: BenchTimer | null): Promise<void> {
+  if (!hasIndexedDB()) return;
+  if (bench) await idbPut("data", { key: BENCH_TIMER_KEY, value: bench });
+  else await idbDelete("data", BENCH_TIMER_KEY);
+}
+
+const ms = (iso: string) => new Date(iso).getTime();
+
+function spanMs(start: number, end: number, pauses: Array<{ at: string; resumedAt?: string }>) {
+  const wall = Math.max(0, end - start);
+  let paused = 0;
+  pauses.forEach((p) => {
+    const from = Math.max(ms(p.at), start);
+    const until = Math.min(p.resumedAt ? ms(p.resumedAt) : end, end);
+    paused += Math.max(0, until - from);
+  });
+  return { wall, touch: Math.max(0, wall - paused) };
+}
+
+/** Elapsed wall and touch milliseconds of a timer (up to now while it runs). */
+export const timerMs = (t: RepairTimer, now: number = Date.now()) =>
+  spanMs(ms(t.startedAt), t.stoppedAt ? ms(t.stoppedAt) : now, t.pauses);
+
+export type Labor = { wallMinutes: number; touchMinutes: number };
+
+/** Labor of a finished repair; null without an end time (or one before the start). */
+export function repairLabor(r: Pick<Repair, "startAt" | "endAt" | "pauses">): Labor | null {
+  if (!r.endAt || ms(r.endAt) < ms(r.startAt)) return null;
+  const { wall, touch } = spanMs(ms(r.startAt), ms(r.endAt), r.pauses);
+  return { wallMinutes: Math.round(wall / 60000), touchMinutes: Math.round(touch / 60000) };
+}
+
+export type LaborRow = {
+  key: string;
+  repairs: number;               // finished repairs counted
+  avgTouchMinutes: number;
+  avgWallMinutes: number;
+};
+
+/** Average labor per group over finished repairs, longest average touch time first. */
+export function averageLabor(repairs: Repair[], keyOf: (r: Repair) => string): LaborRow[] {
+  const sums = new Map<string, { n: number; touch: number; wall: number }>();
+  repairs.forEach((r) => {
+    const labor = repairLabor(r);
+    if (!labor) return;
+    const key = keyOf(r);
+    const sum = sums.get(key) || { n: 0, touch: 0, wall: 0 };
+    sum.n += 1;
+    sum.touch += labor.touchMinutes;
+    sum.wall += labor.wallMinutes;
+    sums.set(key, sum);
+  });
+  return Array.from(sums.entries())
+    .map(([key, s]) => ({
+      key,
+      repairs: s.n,
+      avgTouchMinutes: Math.round(s.touch / s.n),
+      avgWallMinutes: Math.round(s.wall / s.n),
+    }))
+    .sort((a, b) => b.avgTouchMinutes - a.avgTouchMinutes || a.key.localeCompare(b.key));
+}
+
+/** "1h 05m" / "42m". */
+export function formatMinutes(minutes: number): string {
+  const m = Math.max(0, Math.round(minutes));
+  return m >= 60 ? `${Math.floor(m / 60)}h ${String(m % 60).padStart(2, "0")}m` : `${m}m`;
+}
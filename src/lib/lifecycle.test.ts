@@ -0,0 +1,109 @@
+import { Repair, UnitEvent } from "./domain";
+import {
+  EventBase,
+  canTransition,
+  currentStatus,
+  eventsBySerial,
+  inferStatus,
+  intakeRefusal,
+  intakeTargets,
+  planTransitions,
+  qcTargets,
+  repairRefusal,
+  repairTargets,
+  reviewTargets,
+} from "./lifecycle";
+
+const actor = { uid: "u1", name: "Tech" };
+const base = (cause: EventBase["cause"] = "intake"): EventBase => ({
+  serial: "X1",
+  cause,
+  createdAt: "2025-03-01T10:00:00.000Z",
+  createdBy: actor,
+});
+let n = 0;
+const newId = () => `e${++n}`;
+
+const repair = (disposition: Repair["disposition"], startAt = "2025-03-02T00:00:00Z"): Repair => ({
+  id: `r-${disposition}`,
+  schemaVersion: 5,
+  serial: "X1",
+  startAt,
+  failureCode: "OTHER",
+  actions: [],
+  disposition,
+  parts: [],
+  pauses: [],
+  photos: [],
+});
+
+const planned = (res: ReturnType<typeof planTransitions>): UnitEvent[] => {
+  if (!res.ok) throw new Error(res.error);
+  return res.events;
+};
+
+test("a held intake walks Received → Hold with ordered timestamps", () => {
+  const events = planned(planTransitions(null, intakeTargets(true), base(), newId));
+  expect(events.map((e) => [e.from, e.to])).toEqual([
+    [null, "Received"],
+    ["Received", "Hold"],
+  ]);
+  expect(events[1].createdAt > events[0].createdAt).toBe(true);
+  expect(events[0].createdBy).toEqual(actor);
+});
+
+test("repairs go through In Repair; Repaired needs QC first", () => {
+  expect(planned(planTransitions("Received", repairTargets(repair("Repaired")), base("repair"), newId)).map((e) => e.to)).toEqual([
+    "In Repair",
+    "QC",
+  ]);
+  expect(planned(planTransitions("In Repair", repairTargets(repair("BER")), base("repair"), newId)).map((e) => e.to)).toEqual(["BER"]);
+});
+
+test("QE decisions release to repair or reject to scrap", () => {
+  expect(planned(planTransitions("Hold", reviewTargets("released"), base("holdReview"), newId))[0].to).toBe("In Repair");
+  expect(planned(planTransitions("Hold", reviewTargets("rejected"), base("holdReview"), newId))[0].to).toBe("Scrap");
+});
+
+test("QC pass finalizes Repaired, a failure sends the unit back to the bench", () => {
+  const qc = (result: "Pass" | "Fail") => ({ result } as any);
+  expect(planned(planTransitions("QC", qcTargets(qc("Pass")), base("manual"), newId))[0].to).toBe("Repaired");
+  expect(planned(planTransitions("QC", qcTargets(qc("Fail")), base("manual"), newId))[0].to).toBe("In Repair");
+  expect(planTransitions("In Repair", ["Repaired"], base("manual"), newId).ok).toBe(false);
+});
+
+test("disallowed transitions produce no events", () => {
+  expect(planTransitions("Scrap", ["In Repair"], base("repair"), newId)).toEqual({
+    ok: false,
+    error: "X1: cannot go from Scrap to In Repair",
+  });
+  expect(canTransition("QC", "Shipped")).toBe(false);
+  expect(canTransition("Repaired", "Shipped")).toBe(true);
+});
+
+test("refuses repairs and intakes in the wrong state", () => {
+  expect(repairRefusal(null)).toBeNull();
+  expect(repairRefusal("QC")).toBeNull();
+  expect(repairRefusal("Hold")).toMatch(/QE release/);
+  expect(repairRefusal("Scrap")).toBe("Unit is Scrap");
+  expect(repairRefusal("Shipped")).toMatch(/new intake/);
+  expect(intakeRefusal("Shipped")).toBeNull();
+  expect(intakeRefusal("In Repair")).toMatch(/not been shipped/);
+});
+
+test("current status is the newest event per serial", () => {
+  const [a, b] = planned(planTransitions(null, intakeTargets(true), base(), newId));
+  const history = eventsBySerial([b, a]).get("X1")!;
+  expect(history.map((e) => e.to)).toEqual(["Received", "Hold"]);
+  expect(currentStatus(history)).toBe("Hold");
+  expect(currentStatus([])).toBeNull();
+});
+
+test("infers a status for serials recorded before lifecycle events", () => {
+  const intake: any = { createdAt: "2025-03-01T00:00:00Z" };
+  expect(inferStatus(undefined, [])).toBeNull();
+  expect(inferStatus(intake, [])).toBe("Received");
+  expect(inferStatus(intake, [], "held")).toBe("Hold");
+  expect(inferStatus(intake, [repair("NTF")])).toBe("NTF");
+  expect(inferStatus(intake, [repair("Repaired", "2025-02-01T00:00:00Z")])).toBe("Received");
+});
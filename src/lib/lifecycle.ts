@@ -0,0 +1,121 @@
+// src/lib/lifecycle.ts
+// Unit lifecycle per serial: Received → Hold → In Repair → QC →
+// Repaired / Scrap / NTF / BER → Shipped. Saving an intake, a QE decision or
+// a repair appends UnitEvents (Firestore `unitEvents`); the current status is
+// the newest event. Serials recorded before events existed get an inferred
+// status from their intake / repairs.
+
+import { Actor, HoldDecision, Intake, QcCheck, Repair, UnitEvent, UnitEventCause, UnitStatus } from "./domain";
+import { HoldStatus } from "./holds";
+
+export const TRANSITIONS: Record<UnitStatus, UnitStatus[]> = {
+  Received: ["Hold", "In Repair"],
+  Hold: ["In Repair", "Scrap"],                    // QE release / reject
+  "In Repair": ["QC", "Scrap", "NTF", "BER"],
+  QC: ["Repaired", "In Repair"],                   // pass / fail back to the bench
+  Repaired: ["Shipped", "In Repair"],
+  NTF: ["Shipped", "In Repair"],
+  BER: ["Scrap"],
+  Scrap: [],
+  Shipped: ["Received"],                           // returned again
+};
+
+/**
+ * Transitions a user triggers directly; the rest follow from saved records
+ * (QC → Repaired / In Repair only through a QC check).
+ */
+export const MANUAL_TRANSITIONS: Partial<Record<UnitStatus, UnitStatus[]>> = {
+  Repaired: ["Shipped"],
+  NTF: ["Shipped"],
+  BER: ["Scrap"],
+};
+
+export function canTransition(from: UnitStatus | null, to: UnitStatus): boolean {
+  return from === null ? to === "Received" : TRANSITIONS[from].includes(to);
+}
+
+const byTime = (a: UnitEvent, b: UnitEvent) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0);
+
+/** Events per serial, oldest first. */
+export function eventsBySerial(events: UnitEvent[]): Map<string, UnitEvent[]> {
+  const out = new Map<string, UnitEvent[]>();
+  events.forEach((e) => out.set(e.serial, [...(out.get(e.serial) || []), e]));
+  out.forEach((list) => list.sort(byTime));
+  return out;
+}
+
+export const currentStatus = (history: UnitEvent[]): UnitStatus | null =>
+  history.length ? history[history.length - 1].to : null;
+
+export const repairOutcome = (r: Repair): UnitStatus => (r.disposition === "Repaired" ? "QC" : r.disposition);
+
+/** Best guess for serials that predate lifecycle events. */
+export function inferStatus(intake: Intake | undefined, repairs: Repair[], hold?: HoldStatus): UnitStatus | null {
+  const last = repairs.reduce<Repair | undefined>((a, r) => (!a || r.startAt > a.startAt ? r : a), undefined);
+  if (last && (!intake || last.startAt >= intake.createdAt)) {
+    return last.disposition;
+  }
+  if (!intake) return null;
+  if (hold === "held") return "Hold";
+  if (hold === "rejected") return "Scrap";
+  return "Received";
+}
+
+export type Planned = { ok: true; events: UnitEvent[] } | { ok: false; error: string };
+
+export type EventBase = {
+  serial: string;
+  cause: UnitEventCause;
+  recordId?: string;
+  note?: string;
+  createdAt: string;
+  createdBy: Actor;
+};
+
+/**
+ * Events that walk a serial from `from` through `targets` in order, skipping
+ * targets it is already in. Fails without events if any step is not allowed.
+ */
+export function planTransitions(
+  from: UnitStatus | null,
+  targets: UnitStatus[],
+  base: EventBase,
+  newId: () => string
+): Planned {
+  const events: UnitEvent[] = [];
+  let at = from;
+  const t0 = new Date(base.createdAt).getTime();
+  for (const to of targets) {
+    if (to === at) continue;
+    if (!canTransition(at, to)) {
+      return { ok: false, error: `${base.serial}: cannot go from ${at || "(new)"} to ${to}` };
+    }
+    // Millisecond steps keep same-action events in order
+    const createdAt = new Date(t0 + events.length).toISOString();
+    events.push({ ...base, id: newId(), from: at, to, createdAt });
+    at = to;
+  }
+  return { ok: true, events };
+}
+
+export const intakeTargets = (held: boolean): UnitStatus[] => (held ? ["Received", "Hold"] : ["Received"]);
+
+export const reviewTargets = (decision: HoldDecision): UnitStatus[] =>
+  decision === "released" ? ["In Repair"] : ["Scrap"];
+
+export const repairTargets = (r: Repair): UnitStatus[] => ["In Repair", repairOutcome(r)];
+
+export const qcTargets = (c: QcCheck): UnitStatus[] => [c.result === "Pass" ? "Repaired" : "In Repair"];
+
+/** Why a repair may not be recorded for a unit in this status, or null. */
+export function repairRefusal(status: UnitStatus | null): string | null {
+  if (status === null || status === "In Repair") return null;
+  if (status === "Hold") return "On hold – awaiting QE release";
+  if (status === "Shipped") return "Unit was shipped – record a new intake first";
+  return canTransition(status, "In Repair") ? null : `Unit is ${status}`;
+}
+
+/** Why a new intake may not be recorded for a unit in this status, or null. */
+export function intakeRefusal(status: UnitStatus | null): string | null {
+  return canTransition(status, "Received") ? null : `Unit is ${status} and has not been shipped`;
+}
@@ -0,0 +1,47 @@
+import { mergeSnapshot } from "./merge";
+
+type Row = { id?: string; serial: string; photos?: string[] };
+
+const never = () => false;
+
+test("keeps unsynced local records that are not in the snapshot", () => {
+  const local: Row[] = [{ id: "a", serial: "S1" }, { id: "b", serial: "S2" }];
+  const remote: Row[] = [{ id: "a", serial: "S1" }];
+  const merged = mergeSnapshot(local, remote, (r) => r.id === "b");
+  expect(merged.map((r) => r.id)).toEqual(["a", "b"]);
+});
+
+test("prefers the cloud copy once a record round-trips", () => {
+  const local: Row[] = [{ id: "a", serial: "S1", photos: ["data:image/png;base64,AAA"] }];
+  const remote: Row[] = [{ id: "a", serial: "S1", photos: ["https://cdn/x.jpg"] }];
+  const merged = mergeSnapshot(local, remote, never);
+  expect(merged).toHaveLength(1);
+  expect(merged[0].photos).toEqual(["https://cdn/x.jpg"]);
+});
+
+test("keeps a pending local edit of a record the cloud already has", () => {
+  const local: Row[] = [{ id: "a", serial: "S1-edited" }, { id: "b", serial: "S2" }];
+  const remote: Row[] = [{ id: "b", serial: "S2" }, { id: "a", serial: "S1" }];
+  const merged = mergeSnapshot(local, remote, (r) => r.id === "a");
+  expect(merged).toEqual([{ id: "a", serial: "S1-edited" }, { id: "b", serial: "S2" }]);
+});
+
+test("drops synced local records that were removed in the cloud", () => {
+  const local: Row[] = [{ id: "a", serial: "S1" }, { id: "gone", serial: "S2" }];
+  const remote: Row[] = [{ id: "a", serial: "S1" }];
+  expect(mergeSnapshot(local, remote, never).map((r) => r.id)).toEqual(["a"]);
+});
+
+test("keeps legacy local records without an id", () => {
+  const local: Row[] = [{ serial: "OLD" }];
+  expect(mergeSnapshot(local, [], never)).toEqual([{ serial: "OLD" }]);
+});
+
+test("collapses duplicate snapshot rows and orders oldest first", () => {
+  const remote: Row[] = [
+    { id: "new", serial: "S2" },
+    { id: "old", serial: "S1" },
+    { id: "old", serial: "S1" },
+  ];
+  expect(mergeSnapshot([], remote, never).map((r) => r.id)).toEqual(["old", "new"]);
+});
@@ -0,0 +1,47 @@
+// src/lib/merge.ts
+// Reconcile the locally stored records with a Firestore snapshot instead of
+// replacing the local array wholesale.
+
+export type Identified = { id?: string };
+
+/**
+ * Merge a snapshot into the local list.
+ *  • Rows are matched by their client-generated `id`; the cloud copy wins
+ *    (it carries uploaded photo URLs and the server timestamp) unless the
+ *    local row is still unsynced, i.e. holds edits the cloud has not seen.
+ *  • Local rows missing from the snapshot are kept while they are still
+ *    unsynced, or when they predate record IDs and cannot be matched.
+ *  • Local rows that did sync but are no longer in the snapshot were removed
+ *    in the cloud and are dropped.
+ *  • Duplicate snapshot rows with the same id collapse to one.
+ * The snapshot arrives newest-first; the result is oldest-first like the
+ * local list, with still-local records at the end.
+ */
+export function mergeSnapshot<T extends Identified>(
+  local: T[],
+  remote: T[],
+  isUnsynced: (rec: T) => boolean
+): T[] {
+  const pending = new Map<string, T>();
+  local.forEach((rec) => {
+    if (rec.id && isUnsynced(rec)) pending.set(rec.id, rec);
+  });
+  const seen = new Set<string>();
+  const fromCloud: T[] = [];
+  for (const row of remote) {
+    if (row.id) {
+      if (seen.has(row.id)) continue;
+      seen.add(row.id);
+    }
+    fromCloud.push((row.id && pending.get(row.id)) || row);
+  }
+  fromCloud.reverse();
+
+  const localOnly = local.filter((rec) => {
+    if (!rec.id) return true;
+    if (seen.has(rec.id)) return false;
+    return pending.has(rec.id);
+  });
+
+  return [...fromCloud, ...localOnly];
+}
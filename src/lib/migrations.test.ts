@@ -0,0 +1,124 @@
+import { SCHEMA_VERSION, decodeIntake, decodeRepair } from "./domain";
+import { MIGRATIONS, migrateIntake, migrateRepair, schemaVersionOf } from "./migrations";
+
+// Shapes as stored by the 2025-11-05 initial release
+const v1Intake = {
+  serial: "X001",
+  family: "Abilene",
+  model: "55R6A5R",
+  sizeIn: 55,
+  mac: "",
+  returnSource: "Amazon",
+  returnReason: "No power",
+  conditionIn: "OK",
+  notes: "",
+  checklist: {
+    labels_match: "Pass",
+    safety_ok: "Pass",
+    ports_intact: "Pass",
+    power_symptom: "Pass",
+    esd_ok: "Pass",
+    cosmetic_backcover: "Pass",
+    cosmetic_screen: "Pass",
+    cosmetic_bezel: "Pass",
+    cosmetic_base: "Pass",
+    accessory_remote: "Pass",
+    accessory_stand: "Pass",
+    accessory_powercord: "Pass",
+    accessory_screws: "Pass",
+  },
+  photos: [],
+  createdAt: "2025-11-05T10:00:00.000Z",
+};
+
+const v1Repair = {
+  serial: "X001",
+  startAt: "2025-11-05T11:00:00.000Z",
+  failureCode: "PSU_NO_POWER",
+  actions: ["REPLACE_PSU"],
+  disposition: "Repaired",
+  photos: [],
+};
+
+test("steps are ordered and end at the current version", () => {
+  const targets = MIGRATIONS.map((m) => m.to);
+  expect(targets).toEqual([...targets].sort((a, b) => a - b));
+  expect(targets[targets.length - 1]).toBe(SCHEMA_VERSION);
+});
+
+test("infers the version of unversioned records", () => {
+  expect(schemaVersionOf(v1Intake)).toBe(1);
+  expect(schemaVersionOf({ ...v1Intake, id: "abc" })).toBe(2);
+  expect(schemaVersionOf({ schemaVersion: 7 })).toBe(7);
+});
+
+describe("v1 → v2: add client record ID", () => {
+  test("local initial-release intake gets a UUID and decodes", () => {
+    const migrated: any = migrateIntake(v1Intake);
+    expect(migrated.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(decodeIntake(migrated).ok).toBe(true);
+  });
+
+  test("cloud docs keep their document ID", () => {
+    const migrated: any = migrateRepair(v1Repair, { docId: "firestore-doc" });
+    expect(migrated.id).toBe("firestore-doc");
+    expect(decodeRepair(migrated).ok).toBe(true);
+  });
+
+  test("existing ids are preserved", () => {
+    const migrated: any = migrateRepair({ ...v1Repair, id: "keep-me" }, { docId: "other" });
+    expect(migrated.id).toBe("keep-me");
+  });
+});
+
+describe("v2 → v3: record checklist template version", () => {
+  test("intakes default to the built-in template version 1", () => {
+    const migrated: any = migrateIntake({ ...v1Intake, id: "i-2", schemaVersion: 2 });
+    expect(migrated.checklistVersion).toBe(1);
+    expect(migrated.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(decodeIntake(migrated).ok).toBe(true);
+  });
+
+  test("repairs are unchanged by this step", () => {
+    const v2 = { ...v1Repair, id: "r-2", schemaVersion: 2 };
+    const step = MIGRATIONS.find((m) => m.to === 3)!;
+    expect(step.repair(v2, {})).toEqual(v2);
+  });
+});
+
+describe("v3 → v4: record parts consumed on repairs", () => {
+  test("older repairs get an empty parts list and decode", () => {
+    const v3 = { ...v1Repair, id: "r-3", schemaVersion: 3 };
+    const step = MIGRATIONS.find((m) => m.to === 4)!;
+    expect(step.repair(v3, {})).toEqual({ ...v3, parts: [] });
+    expect(decodeRepair(migrateRepair(v3)).ok).toBe(true);
+  });
+
+  test("intakes are only stamped", () => {
+    const v3 = { ...v1Intake, id: "i-3", checklistVersion: 1, schemaVersion: 3 };
+    expect(migrateIntake(v3)).toEqual({ ...v3, schemaVersion: SCHEMA_VERSION });
+  });
+});
+
+describe("v4 → v5: record repair timer pauses", () => {
+  test("older repairs get no pauses, so touch time equals wall time", () => {
+    const v4 = { ...v1Repair, id: "r-4", parts: [], schemaVersion: 4 };
+    const migrated: any = migrateRepair(v4);
+    expect(migrated).toEqual({ ...v4, pauses: [], schemaVersion: SCHEMA_VERSION });
+    expect(decodeRepair(migrated).ok).toBe(true);
+  });
+
+  test("intakes are only stamped", () => {
+    const v4 = { ...v1Intake, id: "i-4", checklistVersion: 1, schemaVersion: 4 };
+    expect(migrateIntake(v4)).toEqual({ ...v4, schemaVersion: SCHEMA_VERSION });
+  });
+});
+
+test("current records are only stamped, newer ones left for the decoder to reject", () => {
+  const current = { ...v1Intake, id: "i-1", checklistVersion: 1, schemaVersion: SCHEMA_VERSION };
+  expect(migrateIntake(current)).toEqual(current);
+  const future = { ...current, schemaVersion: SCHEMA_VERSION + 1 };
+  expect(migrateIntake(future)).toBe(future);
+  expect(decodeIntake(migrateIntake(future)).ok).toBe(false);
+});
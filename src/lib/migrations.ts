@@ -0,0 +1,84 @@
+// src/lib/migrations.ts
+// Upgrades stored intake/repair records (IndexedDB arrays, Firestore docs,
+// queued outbox payloads) to the current SCHEMA_VERSION before decoding.
+//
+// Version history
+//   1 – initial release (2025-11-05): no record id, no schemaVersion field
+//   2 – client-generated record `id` (UUID; Firestore document ID)
+//   3 – intakes record `checklistVersion` (editable checklist templates)
+//   4 – repairs record consumed `parts`
+//   5 – repairs record bench-timer `pauses` (touch time vs wall time)
+
+import { SCHEMA_VERSION } from "./domain";
+import { newRecordId } from "./ids";
+
+export type RawRecord = Record<string, any>;
+export type RecordKind = "intake" | "repair";
+
+export type MigrationContext = {
+  /** Firestore document ID when migrating a cloud doc. */
+  docId?: string;
+};
+
+export type Migration = {
+  to: number;
+  description: string;
+  intake: (rec: RawRecord, ctx: MigrationContext) => RawRecord;
+  repair: (rec: RawRecord, ctx: MigrationContext) => RawRecord;
+};
+
+/** v1 → v2: every record gets a stable id (cloud docs keep their document ID). */
+function addRecordId(rec: RawRecord, ctx: MigrationContext): RawRecord {
+  return { ...rec, id: rec.id || ctx.docId || newRecordId() };
+}
+
+/** v2 → v3: intakes before templates were filled against built-in template version 1. */
+function addChecklistVersion(rec: RawRecord): RawRecord {
+  return { ...rec, checklistVersion: rec.checklistVersion || 1 };
+}
+
+/** v3 → v4: repairs before parts tracking consumed nothing on record. */
+function addParts(rec: RawRecord): RawRecord {
+  return { ...rec, parts: Array.isArray(rec.parts) ? rec.parts : [] };
+}
+
+/** v4 → v5: repairs before the bench timer were never paused. */
+function addPauses(rec: RawRecord): RawRecord {
+  return { ...rec, pauses: Array.isArray(rec.pauses) ? rec.pauses : [] };
+}
+
+const unchanged = (rec: RawRecord) => rec;
+
+export const MIGRATIONS: Migration[] = [
+  { to: 2, description: "Add client record ID", intake: addRecordId, repair: addRecordId },
+  { to: 3, description: "Record checklist template version", intake: addChecklistVersion, repair: unchanged },
+  { to: 4, description: "Record parts consumed on repairs", intake: unchanged, repair: addParts },
+  { to: 5, description: "Record repair timer pauses", intake: unchanged, repair: addPauses },
+];
+
+/** Records written before versioning carry no schemaVersion; an `id` marks v2. */
+export function schemaVersionOf(rec: RawRecord): number {
+  if (typeof rec.schemaVersion === "number") return rec.schemaVersion;
+  return rec.id ? 2 : 1;
+}
+
+/**
+ * Run every step newer than the record's version, in order, and stamp the
+ * result. Records from a newer app version are returned untouched so the
+ * decoder can reject them instead of silently downgrading.
+ */
+export function migrateRecord(kind: RecordKind, raw: unknown, ctx: MigrationContext = {}): unknown {
+  if (!raw || typeof raw !== "object") return raw;
+  let rec = raw as RawRecord;
+  const from = schemaVersionOf(rec);
+  if (from >= SCHEMA_VERSION) return from === SCHEMA_VERSION ? { ...rec, schemaVersion: from } : rec;
+
+  for (const step of MIGRATIONS) {
+    if (step.to <= from || step.to > SCHEMA_VERSION) continue;
+    rec = step[kind](rec, ctx);
+  }
+  return { ...rec, schemaVersion: SCHEMA_VERSION };
+}
+
+export const migrateIntake = (raw: unknown, ctx?: MigrationContext) => migrateRecord("intake", raw, ctx);
+export const migrateRepair = (raw: unknown, ctx?: MigrationContext) => migrateRecord("repair", raw, ctx);
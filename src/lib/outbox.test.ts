@@ -0,0 +1,145 @@
+import "fake-indexeddb/auto";
+import { MAX_ATTEMPTS, OutboxEntry, backoffDelay, enqueue, flushOutbox, listOutbox, recordKey } from "./outbox";
+import { idbDelete } from "./idb";
+
+beforeEach(async () => {
+  for (const e of await listOutbox()) await idbDelete("outbox", e.key);
+});
+
+const intake = (id: string, serial = "X1") => ({ id, serial, createdAt: "2025-03-01T08:00:00.000Z" });
+
+test("re-queueing a record replaces its pending entry", async () => {
+  await enqueue("intake", intake("i-1"));
+  await enqueue("intake", { ...intake("i-1"), serial: "X2" });
+  await enqueue("repair", { id: "i-1", serial: "X1" });
+  const entries = await listOutbox();
+  expect(entries.map((e) => e.key).sort()).toEqual(["intake:i-1", "repair:i-1"]);
+  expect(entries.find((e) => e.kind === "intake")!.payload.serial).toBe("X2");
+  expect(recordKey("intake", { serial: "X1", createdAt: "t0" })).toBe("intake:X1:t0");
+  expect(recordKey("repair", { serial: "X1", startAt: "t1" })).toBe("repair:X1:t1");
+});
+
+test("failed sends back off exponentially and are not retried before they are due", async () => {
+  expect([1, 2, 3, 20].map(backoffDelay)).toEqual([2000, 4000, 8000, 5 * 60 * 1000]);
+  await enqueue("intake", intake("i-1"));
+  const sent: string[] = [];
+  const failing = async (e: OutboxEntry) => {
+    sent.push(e.key);
+    throw new Error("offline");
+  };
+  const before = Date.now();
+  await flushOutbox(failing);
+  const [entry] = await listOutbox();
+  expect(entry).toMatchObject({ attempts: 1, status: "pending", lastError: "offline" });
+  expect(entry.nextAttemptAt).toBeGreaterThanOrEqual(before + 2000);
+
+  await flushOutbox(failing);
+  expect(sent).toHaveLength(1);
+});
+
+test("send errors can mark an entry failed, delay it or replace its payload", async () => {
+  await enqueue("intake", intake("i-1"));
+  await enqueue("intake", intake("i-2"));
+  await enqueue("flowSubmission", intake("f-1"));
+  const before = Date.now();
+  await flushOutbox(async (e) => {
+    if (e.key === "intake:i-1") throw Object.assign(new Error("denied"), { retryable: false });
+    if (e.key === "intake:i-2") throw Object.assign(new Error("throttled"), { retryAfterMs: 60000 });
+  });
+  const byKey = Object.fromEntries((await listOutbox()).map((e) => [e.key, e]));
+  expect(byKey["intake:i-1"].status).toBe("failed");
+  expect(byKey["intake:i-2"].nextAttemptAt).toBeGreaterThanOrEqual(before + 60000);
+  expect(byKey).not.toHaveProperty(["flowSubmission:f-1"]);
+
+  await enqueue("flowSubmission", intake("f-2"));
+  await flushOutbox(async () => {
+    throw Object.assign(new Error("part-way"), { payload: { ...intake("f-2"), photosSent: 1 } });
+  });
+  expect((await listOutbox()).find((e) => e.key === "flowSubmission:f-2")!.payload.photosSent).toBe(1);
+});
+
+test("an entry that keeps failing is marked failed after the last attempt", async () => {
+  await enqueue("intake", intake("i-1"));
+  for (let i = 0; i < MAX_ATTEMPTS; i++) {
+    await flushOutbox(async () => {
+      throw new Error("offline");
+    }, true);
+  }
+  expect((await listOutbox())[0]).toMatchObject({ attempts: MAX_ATTEMPTS, status: "failed" });
+});
+
+test("a forced flush asked for during a running one gets its own pass", async () => {
+  await enqueue("intake", intake("i-1"));
+  await flushOutbox(async () => {
+    throw Object.assign(new Error("denied"), { retryable: false });
+  });
+  await enqueue("intake", intake("i-2"));
+
+  let release = () => {};
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const sent: string[] = [];
+  const first = flushOutbox(async (e) => {
+    sent.push(e.key);
+    await gate;
+  });
+  // Let the first pass pick up its entries before asking for the forced one
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  const forced = flushOutbox(async (e) => {
+    sent.push(`forced ${e.key}`);
+  }, true);
+  release();
+  await Promise.all([first, forced]);
+  expect(sent).toEqual(["intake:i-2", "forced intake:i-1"]);
+  expect(await listOutbox()).toEqual([]);
+});
+
+test("entries saved by another user wait for that user", async () => {
+  const by = (uid: string) => ({ uid, name: uid });
+  await enqueue("intake", { ...intake("i-1"), createdBy: by("ana") });
+  await enqueue("intake", { ...intake("i-2"), createdBy: by("ben") });
+  await enqueue("flowSubmission", intake("f-1"));
+  const sent: string[] = [];
+  const send = async (e: OutboxEntry) => {
+    sent.push(e.key);
+  };
+  await flushOutbox(send, true, by("ben"));
+  expect(sent).toEqual(["flowSubmission:f-1", "intake:i-2"]);
+  expect((await listOutbox())[0]).toMatchObject({ key: "intake:i-1", attempts: 0, status: "pending" });
+  await flushOutbox(send, false, undefined);
+  expect(sent).toHaveLength(2);
+});
+
+test("ownerless intakes and repairs are sent as the signed-in user's", async () => {
+  const tech = { uid: "tech", name: "Tech" };
+  await enqueue("intake", intake("i-1"));
+  await enqueue("repair", { id: "r-1", serial: "X1", startAt: "t1" });
+  await enqueue("flowSubmission", intake("f-1"));
+  const sent: OutboxEntry[] = [];
+  await flushOutbox(async (e) => {
+    sent.push(e);
+    if (e.kind === "repair") throw new Error("offline");
+  }, true, tech);
+  expect(sent.map((e) => [e.key, e.payload.createdBy])).toEqual([
+    ["flowSubmission:f-1", undefined],
+    ["intake:i-1", tech],
+    ["repair:r-1", tech],
+  ]);
+  // The claim sticks, so the retry belongs to the same user
+  expect((await listOutbox())[0]).toMatchObject({ key: "repair:r-1", attempts: 1, payload: { createdBy: tech } });
+});
+
+test("a record queued again while it is being sent keeps its newer entry", async () => {
+  await enqueue("burnInSession", { id: "b-1", serial: "X1", status: "running" });
+  await enqueue("burnInSession", { id: "b-2", serial: "X2", status: "running" });
+  const requeue = async (e: OutboxEntry) => {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await enqueue("burnInSession", { ...e.payload, status: "ended" });
+    if (e.key === "burnInSession:b-2") throw new Error("offline");
+  };
+  await flushOutbox(requeue);
+  const entries = await listOutbox();
+  expect(entries.map((e) => [e.key, e.payload.status, e.attempts])).toEqual([
+    ["burnInSession:b-1", "ended", 0],
+    ["burnInSession:b-2", "ended", 0],
+  ]);
+});
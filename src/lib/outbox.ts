@@ -0,0 +1,161 @@
+// src/lib/outbox.ts
+// Durable write queue for cloud saves. Every record (intake, repair, hold
+// review, unit event, QC check, burn-in session, stock move, harvest) is
+// written here first and only removed once Firestore accepted it, so a save
+// made while the bench is offline survives reloads and is retried later. Re-queueing a
+// record replaces its pending entry. Repair submissions the Power Automate
+// flow did not take (submitRepair.ts) wait here too.
+
+import type { Actor } from "./domain";
+import { committed, done, hasIndexedDB, idbGetAll, idbPut, openDB } from "./idb";
+
+export type OutboxKind =
+  | "intake"
+  | "repair"
+  | "holdReview"
+  | "unitEvent"
+  | "qcCheck"
+  | "burnInSession"
+  | "stockMove"
+  | "harvest"
+  | "flowSubmission";
+export type SyncStatus = "pending" | "synced" | "failed";
+
+export type OutboxEntry = {
+  key: string;
+  kind: OutboxKind;
+  payload: any;
+  attempts: number;
+  nextAttemptAt: number;         // epoch ms; entry is not retried before this
+  status: "pending" | "failed";
+  lastError?: string;
+  queuedAt: string;
+};
+
+const STORE = "outbox";
+
+/** After this many failed attempts an entry is marked failed and waits for connectivity to return. */
+export const MAX_ATTEMPTS = 6;
+
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** Queue key of a record: kind + record id (or serial + timestamp for records without one). */
+export function recordKey(kind: OutboxKind, rec: { id?: string; serial?: string; [k: string]: any }): string {
+  if (rec.id) return `${kind}:${rec.id}`;
+  const when = kind === "intake" ? rec.createdAt : rec.startAt;
+  return `${kind}:${rec.serial || ""}:${when || ""}`;
+}
+
+/** Exponential backoff: 2s, 4s, 8s … capped at 5 minutes. */
+export function backoffDelay(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_DELAY_MS);
+}
+
+/** User a queued record was saved by; the security rules only let that user write it. */
+export const ownerOf = (entry: OutboxEntry): string | undefined => entry.payload?.createdBy?.uid;
+
+/** Intakes and repairs saved before sign-in (or before the v3 upgrade) have no creator. */
+const CLAIMABLE: OutboxKind[] = ["intake", "repair"];
+
+/** The entry as `actor` sends it: an ownerless intake or repair becomes theirs, as the rules require. */
+export function claimEntry(entry: OutboxEntry, actor?: Actor): OutboxEntry {
+  if (!actor || ownerOf(entry) || !CLAIMABLE.includes(entry.kind)) return entry;
+  return { ...entry, payload: { ...entry.payload, createdBy: actor } };
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  if (!hasIndexedDB()) return [];
+  return idbGetAll<OutboxEntry>(STORE);
+}
+
+/** A fresh entry, due at once. */
+export function outboxEntry(kind: OutboxKind, payload: any): OutboxEntry {
+  return {
+    key: recordKey(kind, payload),
+    kind,
+    payload,
+    attempts: 0,
+    nextAttemptAt: 0,
+    status: "pending",
+    queuedAt: new Date().toISOString(),
+  };
+}
+
+export async function enqueue(kind: OutboxKind, payload: any): Promise<OutboxEntry> {
+  const entry = outboxEntry(kind, payload);
+  await idbPut(STORE, entry);
+  return entry;
+}
+
+/**
+ * Remove a sent entry (`next` null) or store its retry state, in one
+ * transaction, unless the record was queued again while it was being sent.
+ */
+async function settle(sent: OutboxEntry, next: OutboxEntry | null): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE, "readwrite");
+  const store = tx.objectStore(STORE);
+  const current = await done<OutboxEntry | undefined>(store.get(sent.key));
+  if (current?.queuedAt === sent.queuedAt) {
+    if (next) store.put(next);
+    else store.delete(sent.key);
+  }
+  await committed(tx);
+}
+
+let flushing: Promise<void> | null = null;
+let forcedPass: Promise<void> | null = null;
+
+/**
+ * Send every due entry, or all of them with `force`; failed sends back off
+ * (see `retryable`, `retryAfterMs` and `payload` on the thrown error).
+ * Entries saved by someone other than `actor` wait until that user signs in.
+ */
+export function flushOutbox(
+  send: (entry: OutboxEntry) => Promise<unknown>,
+  force = false,
+  actor?: Actor
+): Promise<void> {
+  if (flushing) {
+    if (!force) return flushing;
+    // A forced retry asked for mid-run gets its own pass once the current one ends
+    forcedPass =
+      forcedPass ||
+      flushing.then(() => {
+        forcedPass = null;
+        return flushOutbox(send, true, actor);
+      });
+    return forcedPass;
+  }
+  flushing = (async () => {
+    try {
+      const entries = await listOutbox();
+      const now = Date.now();
+      for (const entry of entries) {
+        if (!force && (entry.status === "failed" || entry.nextAttemptAt > now)) continue;
+        const owner = ownerOf(entry);
+        if (owner && owner !== actor?.uid) continue;
+        const sending = claimEntry(entry, actor);
+        try {
+          await send(sending);
+          await settle(sending, null);
+        } catch (err: any) {
+          const attempts = entry.attempts + 1;
+          const retryAfterMs = Number(err?.retryAfterMs) || 0;
+          await settle(sending, {
+            ...sending,
+            payload: err?.payload ?? sending.payload,
+            attempts,
+            nextAttemptAt: Date.now() + Math.max(backoffDelay(attempts), retryAfterMs),
+            status: err?.retryable === false || attempts >= MAX_ATTEMPTS ? "failed" : "pending",
+            lastError: String(err?.message || err),
+          });
+        }
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
@@ -0,0 +1,63 @@
+import { PartUsage, Repair } from "./domain";
+import { normalizePartNumber, partsCsvRows, partsUsageByFailure, partText } from "./parts";
+
+const repair = (id: string, failureCode: string, parts: PartUsage[]): Repair => ({
+  id,
+  schemaVersion: 5,
+  serial: `S-${id}`,
+  startAt: "2025-03-01T00:00:00.000Z",
+  failureCode,
+  actions: [],
+  disposition: "Repaired",
+  parts,
+  pauses: [],
+  photos: [],
+});
+
+const psu = (qty: number, source: PartUsage["source"] = "New"): PartUsage => ({
+  partNumber: "PSU-55A",
+  description: "Power board 55in",
+  qty,
+  source,
+});
+
+test("part text names the source and the removed board", () => {
+  expect(partText({ ...psu(1), removedSerial: "PB123" })).toBe("PSU-55A Power board 55in ×1 (New, removed PB123)");
+  expect(partText({ partNumber: "FFC-1", description: "", qty: 2, source: "Harvested" })).toBe("FFC-1 ×2 (Harvested)");
+  expect(partText({ ...psu(1, "Harvested"), harvestTag: "D100-PSU", donorSerial: "D100" })).toBe(
+    "PSU-55A Power board 55in ×1 (Harvested D100-PSU from D100)"
+  );
+  expect(normalizePartNumber("  psu-55a ")).toBe("PSU-55A");
+});
+
+test("usage is summed per failure code and part", () => {
+  const rows = partsUsageByFailure([
+    repair("1", "PSU_NO_POWER", [psu(1), psu(1, "Harvested")]),
+    repair("2", "PSU_NO_POWER", [psu(1)]),
+    repair("3", "NO_BACKLIGHT", [{ partNumber: "LED-STRIP", description: "", qty: 4, source: "New" }, psu(1)]),
+  ]);
+  expect(rows).toEqual([
+    { failureCode: "NO_BACKLIGHT", partNumber: "LED-STRIP", description: "", qty: 4, harvested: 0, repairs: 1 },
+    { failureCode: "PSU_NO_POWER", partNumber: "PSU-55A", description: "Power board 55in", qty: 3, harvested: 1, repairs: 2 },
+    { failureCode: "NO_BACKLIGHT", partNumber: "PSU-55A", description: "Power board 55in", qty: 1, harvested: 0, repairs: 1 },
+  ]);
+});
+
+test("CSV has one row per part and skips repairs without parts", () => {
+  const rows = partsCsvRows([repair("1", "PSU_NO_POWER", [psu(2)]), repair("2", "OTHER", [])]);
+  expect(rows).toEqual([
+    {
+      repairId: "1",
+      serial: "S-1",
+      failure: "PSU_NO_POWER",
+      startAt: "2025-03-01T00:00:00.000Z",
+      partNumber: "PSU-55A",
+      description: "Power board 55in",
+      qty: 2,
+      source: "New",
+      removedSerial: "",
+      harvestTag: "",
+      donorSerial: "",
+    },
+  ]);
+});
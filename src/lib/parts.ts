@@ -0,0 +1,77 @@
+// src/lib/parts.ts
+// Parts consumed on repairs: display text for viewers / PDFs, flat CSV rows
+// and the Dashboard's usage-per-failure-code summary.
+
+import { PartUsage, Repair } from "./domain";
+
+/** Part numbers are compared and stored upper-case without surrounding spaces. */
+export const normalizePartNumber = (pn: string) => pn.trim().toUpperCase();
+
+export function partText(p: PartUsage): string {
+  const what = p.description ? `${p.partNumber} ${p.description}` : p.partNumber;
+  const donor = p.harvestTag ? ` ${p.harvestTag}${p.donorSerial ? ` from ${p.donorSerial}` : ""}` : "";
+  const removed = p.removedSerial ? `, removed ${p.removedSerial}` : "";
+  return `${what} ×${p.qty} (${p.source}${donor}${removed})`;
+}
+
+/** One CSV row per part fitted. */
+export function partsCsvRows(repairs: Repair[]): Array<Record<string, string | number>> {
+  const rows: Array<Record<string, string | number>> = [];
+  repairs.forEach((r) =>
+    r.parts.forEach((p) =>
+      rows.push({
+        repairId: r.id,
+        serial: r.serial,
+        failure: r.failureCode,
+        startAt: r.startAt,
+        partNumber: p.partNumber,
+        description: p.description,
+        qty: p.qty,
+        source: p.source,
+        removedSerial: p.removedSerial || "",
+        harvestTag: p.harvestTag || "",
+        donorSerial: p.donorSerial || "",
+      })
+    )
+  );
+  return rows;
+}
+
+export type PartsUsageRow = {
+  failureCode: string;
+  partNumber: string;
+  description: string;
+  qty: number;                   // total fitted
+  harvested: number;             // of which harvested
+  repairs: number;               // repairs that used the part
+};
+
+/** Parts fitted per failure code, most-used first. */
+export function partsUsageByFailure(repairs: Repair[]): PartsUsageRow[] {
+  const byKey = new Map<string, PartsUsageRow>();
+  repairs.forEach((r) => {
+    const counted = new Set<string>();
+    r.parts.forEach((p) => {
+      const key = `${r.failureCode}\u0000${p.partNumber}`;
+      const row = byKey.get(key) || {
+        failureCode: r.failureCode,
+        partNumber: p.partNumber,
+        description: p.description,
+        qty: 0,
+        harvested: 0,
+        repairs: 0,
+      };
+      row.qty += p.qty;
+      if (p.source === "Harvested") row.harvested += p.qty;
+      if (!row.description) row.description = p.description;
+      if (!counted.has(key)) {
+        counted.add(key);
+        row.repairs += 1;
+      }
+      byKey.set(key, row);
+    });
+  });
+  return Array.from(byKey.values()).sort(
+    (a, b) => b.qty - a.qty || a.failureCode.localeCompare(b.failureCode) || a.partNumber.localeCompare(b.partNumber)
+  );
+}
@@ -0,0 +1,82 @@
+import {
+  DEFAULT_PHOTO_SETTINGS,
+  PHOTO_SETTINGS,
+  addPhoto,
+  isAnnotated,
+  photoIndexesFor,
+  removePhotoAt,
+  setAnnotated,
+  shownOf,
+  thumbOf,
+  withoutPhotoData,
+} from "./photos";
+
+test("photo settings fall back to defaults field by field", () => {
+  expect(PHOTO_SETTINGS.decode(undefined)).toEqual(DEFAULT_PHOTO_SETTINGS);
+  expect(PHOTO_SETTINGS.decode({ maxEdge: "2048", quality: 0.6, thumbEdge: 10 })).toEqual({
+    maxEdge: 2048,
+    quality: 0.6,
+    thumbEdge: DEFAULT_PHOTO_SETTINGS.thumbEdge,
+  });
+  expect(PHOTO_SETTINGS.decode({ maxEdge: 100, quality: 5 })).toEqual(DEFAULT_PHOTO_SETTINGS);
+});
+
+test("thumbnails stay aligned with photos", () => {
+  // Older record: photos without thumbnails
+  let r = { photos: ["https://x/1.jpg"] } as { photos: string[]; thumbs?: string[] };
+  expect(thumbOf(r, 0)).toBe("https://x/1.jpg");
+  r = addPhoto(r, { photo: "data:image/jpeg;base64,P2", thumb: "data:image/jpeg;base64,T2" });
+  expect(r.thumbs).toEqual(["", "data:image/jpeg;base64,T2"]);
+  expect(thumbOf(r, 1)).toBe("data:image/jpeg;base64,T2");
+  r = removePhotoAt(r, 0);
+  expect(r).toEqual({ photos: ["data:image/jpeg;base64,P2"], thumbs: ["data:image/jpeg;base64,T2"] });
+});
+
+test("evidence photos keep their checklist item key", () => {
+  const p = (n: number) => ({ photo: `data:image/jpeg;base64,P${n}`, thumb: `data:image/jpeg;base64,T${n}` });
+  let r: { photos: string[]; thumbs?: string[]; photoItems?: string[] } = addPhoto({ photos: [] }, p(1));
+  expect(r).not.toHaveProperty("photoItems");
+  r = addPhoto(r, p(2), "cosmetic_bezel");
+  r = addPhoto(r, p(3), "cosmetic_bezel");
+  expect(r.photoItems).toEqual(["", "cosmetic_bezel", "cosmetic_bezel"]);
+  expect(photoIndexesFor(r, "cosmetic_bezel")).toEqual([1, 2]);
+  expect(photoIndexesFor(r, "")).toEqual([0]);
+  r = removePhotoAt(r, 1);
+  expect(r.photoItems).toEqual(["", "cosmetic_bezel"]);
+  expect(r.photos[1]).toBe("data:image/jpeg;base64,P3");
+});
+
+test("an annotated copy is shown instead of the photo and can be cleared", () => {
+  const p = (n: number) => ({ photo: `data:image/jpeg;base64,P${n}`, thumb: `data:image/jpeg;base64,T${n}` });
+  let r: { photos: string[]; thumbs?: string[]; annotated?: string[] } = addPhoto(addPhoto({ photos: [] }, p(1)), p(2));
+  r = setAnnotated(r, 1, { photo: "data:image/jpeg;base64,A2", thumb: "data:image/jpeg;base64,AT2" });
+  expect(r.annotated).toEqual(["", "data:image/jpeg;base64,A2"]);
+  expect(r.photos[1]).toBe("data:image/jpeg;base64,P2");
+  expect([shownOf(r, 0), shownOf(r, 1), thumbOf(r, 1)]).toEqual([
+    "data:image/jpeg;base64,P1",
+    "data:image/jpeg;base64,A2",
+    "data:image/jpeg;base64,AT2",
+  ]);
+  r = addPhoto(r, p(3));
+  expect(r.annotated).toEqual(["", "data:image/jpeg;base64,A2", ""]);
+  r = removePhotoAt(r, 0);
+  expect(isAnnotated(r, 0)).toBe(true);
+  r = setAnnotated(r, 0, null, "data:image/jpeg;base64,T2");
+  expect(r).toMatchObject({ annotated: ["", ""], thumbs: ["data:image/jpeg;base64,T2", "data:image/jpeg;base64,T3"] });
+  expect(isAnnotated(r, 0)).toBe(false);
+});
+
+test("in-memory copies swap full-size photo data for thumbnails", () => {
+  const r = {
+    photos: ["https://x/1.jpg", "data:image/jpeg;base64,P2"],
+    thumbs: ["https://x/1_thumb.jpg", "data:image/jpeg;base64,T2"],
+    annotated: ["", "data:image/jpeg;base64,A2"],
+  };
+  expect(withoutPhotoData(r)).toEqual({
+    photos: ["https://x/1.jpg", "data:image/jpeg;base64,T2"],
+    thumbs: r.thumbs,
+    annotated: ["", "data:image/jpeg;base64,T2"],
+  });
+  const uploaded = { photos: ["https://x/1.jpg"] };
+  expect(withoutPhotoData(uploaded)).toBe(uploaded);
+});
@@ -0,0 +1,123 @@
+// src/lib/photos.ts
+// Photos taken in IntakeForm / RepairForm. PhotoPicker runs each one through
+// preparePhoto before it reaches form state (and IndexedDB): turned upright
+// per EXIF, downscaled to the configured max edge (Firestore settings/photos)
+// and re-encoded, which drops the metadata including GPS position. A small
+// thumbnail is made alongside; records keep them in `thumbs`, index-aligned
+// with `photos`, for list views. Intake photos taken as evidence for a
+// checklist item carry its key in `photoItems`, aligned the same way, and a
+// photo marked up in the annotation editor keeps its flattened copy in
+// `annotated` (the thumbnail then shows the marks).
+
+import { SettingDef } from "./settings";
+import { blobToDataUrl, reencodeImage } from "./images";
+
+export type PhotoSettings = {
+  maxEdge: number;               // px, longest edge of the stored photo
+  quality: number;               // JPEG quality 0–1
+  thumbEdge: number;             // px, longest edge of the thumbnail
+};
+
+export const DEFAULT_PHOTO_SETTINGS: PhotoSettings = { maxEdge: 1600, quality: 0.82, thumbEdge: 240 };
+
+const THUMB_QUALITY = 0.7;
+
+const toPixels = (v: unknown, min: number): number | null => {
+  const n = Number(v);
+  return isFinite(n) && n >= min ? Math.round(n) : null;
+};
+
+export const PHOTO_SETTINGS: SettingDef<PhotoSettings> = {
+  name: "photos",
+  defaults: DEFAULT_PHOTO_SETTINGS,
+  decode(raw) {
+    const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, any>;
+    const quality = Number(r.quality);
+    return {
+      maxEdge: toPixels(r.maxEdge, 320) || DEFAULT_PHOTO_SETTINGS.maxEdge,
+      quality: isFinite(quality) && quality > 0 && quality <= 1 ? quality : DEFAULT_PHOTO_SETTINGS.quality,
+      thumbEdge: toPixels(r.thumbEdge, 32) || DEFAULT_PHOTO_SETTINGS.thumbEdge,
+    };
+  },
+};
+
+/** A picked photo and its thumbnail, both data URLs. */
+export type PreparedPhoto = { photo: string; thumb: string };
+
+/**
+ * Resize, orient and strip a picked photo. Files the browser cannot decode
+ * (e.g. HEIC outside Safari) are rejected: they could not be shown either.
+ */
+export async function preparePhoto(file: Blob, settings: PhotoSettings): Promise<PreparedPhoto> {
+  const [photo, thumb] = await reencodeImage(file, [
+    { maxEdge: settings.maxEdge, quality: settings.quality },
+    { maxEdge: Math.min(settings.thumbEdge, settings.maxEdge), quality: THUMB_QUALITY },
+  ]);
+  return { photo: await blobToDataUrl(photo), thumb: await blobToDataUrl(thumb) };
+}
+
+/** Thumbnail (data URL) of a photo that is already prepared, e.g. an annotated copy. */
+export async function thumbnailOf(photo: Blob, settings: PhotoSettings): Promise<string> {
+  const [thumb] = await reencodeImage(photo, [{ maxEdge: Math.min(settings.thumbEdge, settings.maxEdge), quality: THUMB_QUALITY }]);
+  return blobToDataUrl(thumb);
+}
+
+type WithPhotos = { photos: string[]; thumbs?: string[]; photoItems?: string[]; annotated?: string[] };
+
+/** Thumbnail of photo `idx`, falling back to the photo itself (older records have none). */
+export const thumbOf = (r: WithPhotos, idx: number): string => r.thumbs?.[idx] || r.photos[idx];
+
+/** Photo `idx` as it should be shown: the annotated copy when there is one. */
+export const shownOf = (r: WithPhotos, idx: number): string => r.annotated?.[idx] || r.photos[idx];
+
+export const isAnnotated = (r: WithPhotos, idx: number) => !!r.annotated?.[idx];
+
+/** One slot per photo ("" where there is none). */
+const aligned = (r: WithPhotos, list: string[] | undefined): string[] => r.photos.map((_, i) => list?.[i] || "");
+
+export const alignedThumbs = (r: WithPhotos): string[] => aligned(r, r.thumbs);
+
+/** Add a prepared photo (evidence for checklist item `itemKey`, if given), keeping the per-photo lists aligned. */
+export function addPhoto<T extends WithPhotos>(r: T, p: PreparedPhoto, itemKey = ""): T {
+  const next: T = { ...r, photos: [...r.photos, p.photo], thumbs: [...alignedThumbs(r), p.thumb] };
+  if (itemKey || r.photoItems) next.photoItems = [...aligned(r, r.photoItems), itemKey];
+  if (r.annotated) next.annotated = [...aligned(r, r.annotated), ""];
+  return next;
+}
+
+export function removePhotoAt<T extends WithPhotos>(r: T, idx: number): T {
+  const keep = (_: string, i: number) => i !== idx;
+  const next: T = { ...r, photos: r.photos.filter(keep), thumbs: alignedThumbs(r).filter(keep) };
+  if (r.photoItems) next.photoItems = aligned(r, r.photoItems).filter(keep);
+  if (r.annotated) next.annotated = aligned(r, r.annotated).filter(keep);
+  return next;
+}
+
+/**
+ * Keep `copy` as the annotated version of photo `idx` (its thumbnail becomes
+ * the photo's), or clear the annotation with `copy` null and the original's
+ * thumbnail.
+ */
+export function setAnnotated<T extends WithPhotos>(r: T, idx: number, copy: PreparedPhoto | null, originalThumb = ""): T {
+  const set = (list: string[], value: string) => list.map((x, i) => (i === idx ? value : x));
+  return {
+    ...r,
+    annotated: set(aligned(r, r.annotated), copy ? copy.photo : ""),
+    thumbs: set(alignedThumbs(r), copy ? copy.thumb : originalThumb),
+  };
+}
+
+/**
+ * The record with its full-size data-URL photos swapped for their thumbnails,
+ * for in-memory lists; the full copy stays in IndexedDB and the outbox.
+ */
+export function withoutPhotoData<T extends WithPhotos>(r: T): T {
+  const isData = (p: string) => p.startsWith("data:");
+  if (!r.photos.some(isData) && !r.annotated?.some(isData)) return r;
+  const light = (list: string[]) => list.map((p, i) => (isData(p) ? r.thumbs?.[i] || p : p));
+  return { ...r, photos: light(r.photos), ...(r.annotated ? { annotated: light(r.annotated) } : {}) };
+}
+
+/** Indexes of the photos taken as evidence for a checklist item ("" = general photos). */
+export const photoIndexesFor = (r: WithPhotos, itemKey: string): number[] =>
+  r.photos.flatMap((_, i) => ((r.photoItems?.[i] || "") === itemKey ? [i] : []));
@@ -0,0 +1,19 @@
+import { QcCheck } from "./domain";
+import { latestQcBySerial, qcStepLabel } from "./qc";
+
+const check = (id: string, serial: string, createdAt: string, result: QcCheck["result"]) =>
+  ({ id, serial, createdAt, result } as QcCheck);
+
+test("keeps the newest QC check per serial", () => {
+  const latest = latestQcBySerial([
+    check("a", "X1", "2025-03-01T00:00:00Z", "Fail"),
+    check("b", "X1", "2025-03-02T00:00:00Z", "Pass"),
+    check("c", "X2", "2025-03-01T00:00:00Z", "Fail"),
+  ]);
+  expect(latest.get("X1")?.id).toBe("b");
+  expect(latest.get("X2")?.result).toBe("Fail");
+});
+
+test("labels QC steps", () => {
+  expect(qcStepLabel("remote_pairing")).toBe("Remote pairing");
+});
@@ -0,0 +1,28 @@
+// src/lib/qc.ts
+// Post-repair QC / functional test steps. Repairs with a Repaired disposition
+// leave the unit in QC; only a passing QcCheck finalizes it as Repaired.
+
+import { QcCheck, QcStepKey } from "./domain";
+
+export const QC_STEPS: { key: QcStepKey; label: string; hint: string }[] = [
+  { key: "power_on", label: "Power-on", hint: "Standby LED, powers on from remote and button." },
+  { key: "boot_home", label: "Boot to home", hint: "Reaches the home screen without reboot loops." },
+  { key: "panel_uniformity", label: "Panel uniformity", hint: "Full-white / grey / black patterns: no lines, mura or dead zones." },
+  { key: "hdmi_ports", label: "HDMI ports", hint: "Picture and sound on every HDMI input." },
+  { key: "wifi", label: "Wi-Fi", hint: "Joins the bench network; signal at least 3 bars." },
+  { key: "audio", label: "Audio", hint: "Both speakers clear at low and high volume." },
+  { key: "remote_pairing", label: "Remote pairing", hint: "Remote pairs and all keys respond." },
+  { key: "burn_in", label: "Burn-in", hint: "Ran the full soak without shutdown or artifacts." },
+];
+
+/** Newest QC check per serial. */
+export function latestQcBySerial(checks: QcCheck[]): Map<string, QcCheck> {
+  const out = new Map<string, QcCheck>();
+  checks.forEach((c) => {
+    const prev = out.get(c.serial);
+    if (!prev || c.createdAt > prev.createdAt) out.set(c.serial, c);
+  });
+  return out;
+}
+
+export const qcStepLabel = (key: QcStepKey) => QC_STEPS.find((s) => s.key === key)?.label || key;
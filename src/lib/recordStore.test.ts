@@ -0,0 +1,39 @@
+import "fake-indexeddb/auto";
+import { SCHEMA_VERSION, decodeAll, decodeRepair } from "./domain";
+import { migrateRepair } from "./migrations";
+import { putRecords, readPage } from "./recordStore";
+
+const loadRepairs = (rows: unknown[]) => decodeAll(rows.map((r) => migrateRepair(r)), (r) => decodeRepair(r), "repair");
+
+test("paged rows stored under an older schema come back in the current shape", async () => {
+  // Schema v3: no parts, no bench-timer pauses
+  const v3 = {
+    id: "r-old",
+    schemaVersion: 3,
+    serial: "X001",
+    startAt: "2025-11-05T11:00:00.000Z",
+    failureCode: "PSU_NO_POWER",
+    actions: [],
+    disposition: "Repaired",
+    photos: [],
+  };
+  await putRecords("repair", [v3]);
+  const current = { ...v3, id: "r-new", schemaVersion: SCHEMA_VERSION, startAt: "2025-12-01T09:00:00.000Z", parts: [], pauses: [] };
+  await putRecords("repair", [current]);
+
+  const page = await readPage("repair", { index: "startAt", direction: "prev", limit: 10 }, loadRepairs);
+  expect(page.total).toBe(2);
+  expect(page.rows.map((r) => [r.id, r.schemaVersion, r.parts, r.pauses])).toEqual([
+    ["r-new", SCHEMA_VERSION, [], []],
+    ["r-old", SCHEMA_VERSION, [], []],
+  ]);
+});
+
+test("a page can count a range or read all of it", async () => {
+  // The two repairs stored by the previous test
+  const since = "2025-12-01T00:00:00.000Z";
+  const count = await readPage("repair", { index: "startAt", from: since, limit: 0 }, loadRepairs);
+  expect(count).toEqual({ rows: [], total: 1 });
+  const all = await readPage("repair", { index: "startAt", limit: Infinity }, loadRepairs);
+  expect(all.rows.map((r) => r.id)).toEqual(["r-old", "r-new"]);
+});
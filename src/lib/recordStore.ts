@@ -0,0 +1,137 @@
+// src/lib/recordStore.ts
+// Per-record access to the object stores keyed by record id: incremental
+// writes plus index-backed, paged reads.
+
+import { committed, done, openDB, RECORD_STORES } from "./idb";
+
+export type RecordKind =
+  | "intake"
+  | "repair"
+  | "holdReview"
+  | "unitEvent"
+  | "qcCheck"
+  | "burnInSession"
+  | "stockMove"
+  | "harvest";
+export type RecordIndex =
+  | "serial"
+  | "createdAt"
+  | "startAt"
+  | "startedAt"
+  | "technician"
+  | "failureCode"
+  | "intakeId"
+  | "repairId"
+  | "partNumber"
+  | "donorSerial";
+
+const STORE: Record<RecordKind, keyof typeof RECORD_STORES> = {
+  intake: "intakes",
+  repair: "repairs",
+  holdReview: "holdReviews",
+  unitEvent: "unitEvents",
+  qcCheck: "qcChecks",
+  burnInSession: "burnInSessions",
+  stockMove: "stockMoves",
+  harvest: "harvests",
+};
+
+/**
+ * Changes whenever a stored record does: local edits stamp `updatedAt`, and
+ * the cloud copy (photo URLs instead of data) carries `syncedAt`.
+ */
+export const revisionOf = (r: { updatedAt?: string; syncedAt?: string }) => `${r.updatedAt || ""}|${r.syncedAt || ""}`;
+
+export async function getAllRecords(kind: RecordKind): Promise<unknown[]> {
+  const db = await openDB();
+  return done(db.transaction(STORE[kind], "readonly").objectStore(STORE[kind]).getAll());
+}
+
+/** Upsert many records in a single transaction. */
+export async function putRecords<T extends { id: string }>(kind: RecordKind, rows: T[]): Promise<void> {
+  if (!rows.length) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE[kind], "readwrite");
+  const store = tx.objectStore(STORE[kind]);
+  rows.forEach((r) => store.put(r));
+  await committed(tx);
+}
+
+export async function deleteRecords(kind: RecordKind, ids: string[]): Promise<void> {
+  if (!ids.length) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE[kind], "readwrite");
+  const store = tx.objectStore(STORE[kind]);
+  ids.forEach((id) => store.delete(id));
+  await committed(tx);
+}
+
+export type PageQuery = {
+  index: RecordIndex;
+  equals?: string;               // exact index value (e.g. one serial)
+  from?: string;                 // inclusive lower bound (e.g. ISO date)
+  direction?: "next" | "prev";
+  offset?: number;
+  limit: number;                 // 0 counts only; Infinity reads the whole range
+};
+
+function toRange(q: PageQuery): IDBKeyRange | undefined {
+  if (q.equals !== undefined) return IDBKeyRange.only(q.equals);
+  if (q.from !== undefined) return IDBKeyRange.lowerBound(q.from);
+  return undefined;
+}
+
+export type Page<T> = { rows: T[]; total: number };
+
+/**
+ * Read one page through an index, e.g. newest repairs first via `startAt` +
+ * "prev". Stored rows may predate the current schema: `load` upgrades and
+ * decodes them, as the full loads do.
+ */
+export async function readPage<T>(kind: RecordKind, q: PageQuery, load: (rows: unknown[]) => T[]): Promise<Page<T>> {
+  const db = await openDB();
+  const index = db.transaction(STORE[kind], "readonly").objectStore(STORE[kind]).index(q.index);
+  const range = toRange(q);
+  const total = await done(index.count(range));
+  const rows: unknown[] = [];
+  const offset = q.offset || 0;
+
+  // limit 0: just the count
+  if (q.limit > 0) await new Promise<void>((resolve, reject) => {
+    const req = index.openCursor(range, q.direction || "next");
+    let skipped = offset === 0;
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve();
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      rows.push(cursor.value);
+      if (rows.length >= q.limit) return resolve();
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+  return { rows: load(rows), total };
+}
+
+/** Same contract as readPage over an in-memory list (no IndexedDB available). */
+export function pageArray<T>(
+  list: T[],
+  q: PageQuery,
+  field: (row: T) => string | undefined
+): Page<T> {
+  const key = (row: T) => field(row) || "";
+  const filtered = list.filter((r) => {
+    if (q.equals !== undefined) return key(r) === q.equals;
+    if (q.from !== undefined) return key(r) >= q.from;
+    return true;
+  });
+  filtered.sort((a, b) => (key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0));
+  if (q.direction === "prev") filtered.reverse();
+  const offset = q.offset || 0;
+  return { rows: filtered.slice(offset, offset + q.limit), total: filtered.length };
+}
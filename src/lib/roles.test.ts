@@ -0,0 +1,28 @@
+import { can, normalizeRoles } from "./roles";
+
+test("admin can do everything, technicians only create records", () => {
+  expect(can(["admin"], "admin.settings")).toBe(true);
+  expect(can(["admin"], "qe.review")).toBe(true);
+  expect(can(["technician"], "record.create")).toBe(true);
+  expect(can(["technician"], "qe.review")).toBe(false);
+  expect(can(["lead"], "admin.settings")).toBe(false);
+});
+
+test("QE actions need the QE (or admin) role", () => {
+  expect(can(["qe"], "qe.review")).toBe(true);
+  expect(can([], "qe.review")).toBe(false);
+  expect(can(undefined, "record.create")).toBe(false);
+  expect(can(["qe"], "checklist.edit")).toBe(true);
+  expect(can(["lead"], "checklist.edit")).toBe(false);
+});
+
+test("leads and admins manage parts stock", () => {
+  expect(can(["lead"], "inventory.manage")).toBe(true);
+  expect(can(["admin"], "inventory.manage")).toBe(true);
+  expect(can(["technician", "qe"], "inventory.manage")).toBe(false);
+});
+
+test("drops unknown role names from stored profiles", () => {
+  expect(normalizeRoles(["qe", "superuser", "admin"])).toEqual(["qe", "admin"]);
+  expect(normalizeRoles("admin")).toEqual([]);
+});
@@ -0,0 +1,47 @@
+// src/lib/roles.ts
+// Per-user roles (stored in Firestore `users/{uid}.roles`) and what they allow.
+// Keep PERMISSIONS in step with firestore.rules.
+
+export type Role = "technician" | "lead" | "qe" | "admin";
+
+export const ROLES: Role[] = ["technician", "lead", "qe", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  technician: "Technician",
+  lead: "Lead",
+  qe: "QE",
+  admin: "Admin",
+};
+
+/** Role given to a user's profile the first time they sign in. */
+export const DEFAULT_ROLES: Role[] = ["technician"];
+
+export type Permission =
+  | "record.create"     // save intakes / repairs
+  | "qe.review"         // QE-only actions (hold release / reject)
+  | "checklist.edit"    // publish intake checklist templates
+  | "inventory.manage"  // receive / adjust parts stock
+  | "admin.settings";   // Admin tab: lists, catalogs, user roles
+
+const PERMISSIONS: Record<Permission, Role[]> = {
+  "record.create": ["technician", "lead", "qe", "admin"],
+  "qe.review": ["qe", "admin"],
+  "checklist.edit": ["qe", "admin"],
+  "inventory.manage": ["lead", "admin"],
+  "admin.settings": ["admin"],
+};
+
+export type UserProfile = {
+  uid: string;
+  name: string;
+  email?: string;
+  roles: Role[];
+};
+
+export function normalizeRoles(v: unknown): Role[] {
+  return Array.isArray(v) ? ROLES.filter((r) => v.includes(r)) : [];
+}
+
+export function can(roles: Role[] | undefined, permission: Permission): boolean {
+  return !!roles && roles.some((r) => PERMISSIONS[permission].includes(r));
+}
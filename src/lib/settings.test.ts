@@ -0,0 +1,14 @@
+import { ADMIN_LISTS, DEFAULT_TV_SIZES } from "./settings";
+
+test("normalizes stored admin lists", () => {
+  const lists = ADMIN_LISTS.decode({ sizes: ["55", 43, 43, -1, "x"], sources: [" Amazon ", "", "Amazon"], reasons: ["No power"] });
+  expect(lists.sizes).toEqual([43, 55]);
+  expect(lists.sources).toEqual(["Amazon"]);
+  expect(lists.reasons).toEqual(["No power"]);
+});
+
+test("falls back to defaults for missing or empty lists", () => {
+  const lists = ADMIN_LISTS.decode({ sizes: [], reasons: "nope" });
+  expect(lists).toEqual(ADMIN_LISTS.defaults);
+  expect(ADMIN_LISTS.decode(null).sizes).toBe(DEFAULT_TV_SIZES);
+});
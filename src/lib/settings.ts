@@ -0,0 +1,96 @@
+// src/lib/settings.ts
+// Admin-managed settings. Each setting is one Firestore doc `settings/{name}`
+// cached in the IndexedDB `data` store under `settings:{name}`, so the app
+// starts with the last known values even offline.
+
+import { hasIndexedDB, idbGet, idbPut } from "./idb";
+
+export type SettingDef<T> = {
+  name: string;
+  defaults: T;
+  /** Normalize an untrusted stored value; fall back to defaults field by field. */
+  decode: (raw: unknown) => T;
+};
+
+const cacheKey = (name: string) => `settings:${name}`;
+
+export async function loadCachedSetting<T>(def: SettingDef<T>): Promise<T | undefined> {
+  if (!hasIndexedDB()) return undefined;
+  const row = await idbGet<{ key: string; value: unknown }>("data", cacheKey(def.name));
+  return row ? def.decode(row.value) : undefined;
+}
+
+export async function cacheSetting<T>(def: SettingDef<T>, value: T): Promise<void> {
+  if (!hasIndexedDB()) return;
+  await idbPut("data", { key: cacheKey(def.name), value });
+}
+
+/****************************************************
+ * Intake dropdown lists
+ ****************************************************/
+export type AdminLists = {
+  sizes: number[];
+  sources: string[];
+  reasons: string[];
+};
+
+export const DEFAULT_TV_SIZES: number[] = [
+  24, 28, 32, 39, 40, 42, 43, 48, 49, 50, 55, 58, 60, 65, 70, 75, 77, 82, 83, 85, 86, 98,
+];
+export const DEFAULT_RETURN_SOURCE_SUGGESTIONS = [
+  "Retail Return – Best Buy",
+  "Retail Return – Costco",
+  "Retail Return – Walmart",
+  "Amazon",
+  "Direct RMA",
+  "Rev-Log",
+  "TPV Service",
+  "Other",
+];
+export const DEFAULT_RETURN_REASON_SUGGESTIONS = [
+  "No power",
+  "Boot loop",
+  "No image",
+  "No backlight",
+  "Lines on screen",
+  "Damaged screen",
+  "No sound",
+  "HDMI not working",
+  "Wi-Fi weak",
+  "Cosmetic damage",
+  "Remote missing",
+  "Stand missing",
+  "Other",
+];
+
+function stringList(v: unknown): string[] | null {
+  if (!Array.isArray(v)) return null;
+  const out = v.filter((x): x is string => typeof x === "string").map((x) => x.trim()).filter(Boolean);
+  return Array.from(new Set(out));
+}
+
+function sizeList(v: unknown): number[] | null {
+  if (!Array.isArray(v)) return null;
+  const out = v.map(Number).filter((n) => isFinite(n) && n > 0);
+  return Array.from(new Set(out)).sort((a, b) => a - b);
+}
+
+export const ADMIN_LISTS: SettingDef<AdminLists> = {
+  name: "lists",
+  defaults: {
+    sizes: DEFAULT_TV_SIZES,
+    sources: DEFAULT_RETURN_SOURCE_SUGGESTIONS,
+    reasons: DEFAULT_RETURN_REASON_SUGGESTIONS,
+  },
+  decode(raw) {
+    const r = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const sizes = sizeList(r.sizes);
+    const sources = stringList(r.sources);
+    const reasons = stringList(r.reasons);
+    return {
+      sizes: sizes && sizes.length ? sizes : DEFAULT_TV_SIZES,
+      sources: sources && sources.length ? sources : DEFAULT_RETURN_SOURCE_SUGGESTIONS,
+      reasons: reasons && reasons.length ? reasons : DEFAULT_RETURN_REASON_SUGGESTIONS,
+    };
+  },
+};
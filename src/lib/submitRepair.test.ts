@@ -0,0 +1,194 @@
+import { FlowOptions, FlowResult, RepairPayloadForFlow, parseRetryAfter, resubmitRepairViaFlow, submitRepairViaFlow } from "./submitRepair";
+
+const payload: RepairPayloadForFlow = {
+  id: "r-1",
+  serial: "X001",
+  model: "55R6A5R",
+  family: "Abilene",
+  sizeIn: 55,
+  failureCode: "PSU_NO_POWER",
+  disposition: "Repaired",
+  technician: "Ana",
+  photosDataUrls: ["data:image/jpeg;base64,AAAA"],
+};
+
+type Reply = { status: number; body?: string; headers?: Record<string, string> } | Error;
+
+/** Fetch double answering with the given replies in order; records calls and sleeps. */
+function flow(replies: Reply[], extra: Partial<FlowOptions> = {}) {
+  const calls: any[] = [];
+  const sleeps: number[] = [];
+  const options: Partial<FlowOptions> = {
+    url: "https://flow.test/run",
+    fetch: async (_url, init) => {
+      calls.push(JSON.parse(String(init.body)));
+      const reply = replies.shift()!;
+      if (reply instanceof Error) throw reply;
+      return {
+        status: reply.status,
+        headers: new Headers(reply.headers || {}),
+        text: async () => reply.body || "",
+      } as unknown as Response;
+    },
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    resizePhoto: async (photo) => photo,
+    ...extra,
+  };
+  return { options, calls, sleeps };
+}
+
+function failure(res: FlowResult) {
+  if (res.ok) throw new Error("expected a failed submission");
+  return res.error;
+}
+
+test("a successful post returns the parsed response", async () => {
+  const { options, calls } = flow([{ status: 202, body: '{"recordId":"sp-9"}' }]);
+  const res = await submitRepairViaFlow(payload, options);
+  expect(res).toEqual({ ok: true, status: 202, attempts: 1, data: { recordId: "sp-9" } });
+  expect(calls[0]).toMatchObject({ recordId: "r-1", serial: "X001", failurecode: "PSU_NO_POWER" });
+  expect(calls[0].photos).toEqual([{ name: "photo_1.jpg", contentBytes: "AAAA" }]);
+});
+
+test("server errors and network failures are retried with exponential backoff", async () => {
+  const { options, sleeps } = flow([{ status: 502 }, new TypeError("Failed to fetch"), { status: 200 }]);
+  const res = await submitRepairViaFlow(payload, { ...options, baseDelayMs: 100 });
+  expect(res).toMatchObject({ ok: true, attempts: 3 });
+  expect(sleeps).toEqual([100, 200]);
+});
+
+test("throttling honors Retry-After and gives up when asked to wait too long", async () => {
+  const short = flow([{ status: 429, headers: { "Retry-After": "2" } }, { status: 200 }]);
+  expect(await submitRepairViaFlow(payload, short.options)).toMatchObject({ ok: true, attempts: 2 });
+  expect(short.sleeps).toEqual([2000]);
+
+  const long = flow([{ status: 503, headers: { "Retry-After": "120" } }]);
+  const err = failure(await submitRepairViaFlow(payload, long.options));
+  expect(err).toMatchObject({ kind: "throttled", status: 503, retryAfterMs: 120000, retryable: true, attempts: 1 });
+  expect(long.sleeps).toEqual([]);
+});
+
+test("rejections and oversized payloads are not retried", async () => {
+  const rejected = flow([{ status: 400, body: "serial is required" }]);
+  expect(failure(await submitRepairViaFlow(payload, rejected.options))).toEqual({
+    kind: "rejected",
+    message: "Flow answered 400: serial is required",
+    status: 400,
+    retryable: false,
+    attempts: 1,
+  });
+
+  const tooLarge = flow([{ status: 413 }]);
+  expect(failure(await submitRepairViaFlow(payload, tooLarge.options))).toMatchObject({ kind: "payload-too-large", retryable: false });
+
+  const local = flow([]);
+  const err = failure(await submitRepairViaFlow(payload, { ...local.options, maxBodyBytes: 100 }));
+  expect(err).toMatchObject({ kind: "payload-too-large", attempts: 0 });
+  expect(local.calls).toHaveLength(0);
+});
+
+test("an attempt that outlives the timeout is a retryable network error", async () => {
+  const hang: Partial<FlowOptions> = {
+    url: "https://flow.test/run",
+    timeoutMs: 5,
+    maxAttempts: 1,
+    fetch: (_url, init) =>
+      new Promise((_, reject) => init.signal!.addEventListener("abort", () => reject(new Error("aborted")))),
+  };
+  expect(failure(await submitRepairViaFlow(payload, hang))).toMatchObject({
+    kind: "network",
+    message: expect.stringContaining("did not answer"),
+    retryable: true,
+  });
+});
+
+test("missing configuration and queued resubmission errors are typed", async () => {
+  expect(failure(await submitRepairViaFlow(payload, { url: "" }))).toMatchObject({ kind: "config", retryable: false });
+
+  const { options, calls } = flow([{ status: 429, headers: { "Retry-After": "1" } }, { status: 200 }]);
+  await expect(resubmitRepairViaFlow(payload, options)).rejects.toMatchObject({ kind: "throttled", retryable: true, retryAfterMs: 1000 });
+  expect(calls).toHaveLength(1);
+});
+
+test("Retry-After accepts seconds and HTTP dates", () => {
+  const now = Date.parse("2025-03-01T08:00:00Z");
+  expect(parseRetryAfter("5", now)).toBe(5000);
+  expect(parseRetryAfter("Sat, 01 Mar 2025 08:00:30 GMT", now)).toBe(30000);
+  expect(parseRetryAfter("soon", now)).toBeUndefined();
+  expect(parseRetryAfter(null, now)).toBeUndefined();
+});
+
+test("photos are downscaled until they fit the per-photo limit", async () => {
+  const passes: Array<[number, number]> = [];
+  const { options, calls } = flow([{ status: 200 }], {
+    maxPhotoDimension: 1600,
+    photoQuality: 0.8,
+    maxPhotoBytes: 1000,
+    // Fake encoder: the output size is the max edge in bytes
+    resizePhoto: async (_photo, edge, quality) => {
+      passes.push([edge, quality]);
+      return new Blob([new Uint8Array(edge)], { type: "image/jpeg" });
+    },
+  });
+  const png = { ...payload, photosDataUrls: ["data:image/png;base64,AAAA"] };
+  expect(await submitRepairViaFlow(png, options)).toMatchObject({ ok: true });
+  expect(passes.map(([edge]) => edge)).toEqual([1600, 1200, 900]);
+  expect(passes[2][1]).toBeCloseTo(0.6);
+  expect(calls[0].photos[0].name).toBe("photo_1.jpg");
+  expect(atob(calls[0].photos[0].contentBytes)).toHaveLength(900);
+
+  const stubborn = flow([], { maxPhotoBytes: 10, resizePhoto: async () => new Blob([new Uint8Array(50)], { type: "image/jpeg" }) });
+  expect(failure(await submitRepairViaFlow(png, stubborn.options))).toMatchObject({
+    kind: "payload-too-large",
+    message: expect.stringContaining("photo_1"),
+    retryable: false,
+  });
+  expect(stubborn.calls).toHaveLength(0);
+});
+
+test("split mode sends the record first and each photo keyed by the returned record ID", async () => {
+  const two = { ...payload, photosDataUrls: ["data:image/jpeg;base64,AAAA", "data:image/jpeg;base64,BBBB"] };
+  const { options, calls } = flow([{ status: 201, body: '{"recordId":"sp-9"}' }, { status: 200 }, { status: 200 }], { splitPhotos: "always" });
+  expect(await submitRepairViaFlow(two, options)).toMatchObject({ ok: true, attempts: 3, data: { recordId: "sp-9" } });
+  expect(calls[0]).toMatchObject({ part: "record", recordId: "r-1", photoCount: 2, photos: [] });
+  expect(calls.slice(1).map((c) => [c.part, c.flowRecordId, c.index, c.photo.contentBytes])).toEqual([
+    ["photo", "sp-9", 1, "AAAA"],
+    ["photo", "sp-9", 2, "BBBB"],
+  ]);
+
+  const noId = flow([{ status: 200, body: "ok" }], { splitPhotos: "always" });
+  expect(failure(await submitRepairViaFlow(two, noId.options))).toMatchObject({ kind: "rejected", retryable: false });
+  expect(noId.calls).toHaveLength(1);
+});
+
+test("auto mode splits only bodies over the request limit", async () => {
+  const small = flow([{ status: 200 }], { splitPhotos: "auto" });
+  await submitRepairViaFlow(payload, small.options);
+  expect(small.calls[0].photos).toHaveLength(1);
+
+  const big = { ...payload, photosDataUrls: [`data:image/jpeg;base64,${"A".repeat(800)}`] };
+  const large = flow([{ status: 200, body: '{"id":7}' }, { status: 200 }], { splitPhotos: "auto", maxBodyBytes: 1000 });
+  expect(await submitRepairViaFlow(big, large.options)).toMatchObject({ ok: true });
+  expect(large.calls.map((c) => [c.part, c.flowRecordId])).toEqual([
+    ["record", undefined],
+    ["photo", "7"],
+  ]);
+});
+
+test("a split submission that stops part-way resumes after the photos already sent", async () => {
+  const two = { ...payload, photosDataUrls: ["data:image/jpeg;base64,AAAA", "data:image/jpeg;base64,BBBB"] };
+  const first = flow([{ status: 200, body: '{"recordId":"sp-9"}' }, { status: 200 }, { status: 503 }], {
+    splitPhotos: "always",
+    maxAttempts: 1,
+  });
+  const err = failure(await submitRepairViaFlow(two, first.options));
+  expect(err).toMatchObject({ kind: "throttled", attempts: 3, progress: { flowRecordId: "sp-9", photosSent: 1 } });
+
+  const queued = flow([{ status: 503 }], { splitPhotos: "always" });
+  await expect(resubmitRepairViaFlow({ ...two, ...err.progress }, queued.options)).rejects.toMatchObject({
+    payload: { ...two, flowRecordId: "sp-9", photosSent: 1 },
+  });
+  expect(queued.calls.map((c) => [c.part, c.index])).toEqual([["photo", 2]]);
+});
@@ -1,6 +1,19 @@
 // src/lib/submitRepair.ts
+// Posts saved repairs to the Power Automate flow (REACT_APP_FLOW_URL). Each
+// attempt has a timeout; throttling (429 / 503) and server errors are retried
+// with exponential backoff, honoring Retry-After. The caller gets a typed
+// result and queues submissions that may still succeed in the outbox.
+//
+// Photos are downscaled / re-encoded before they are base64'd into the body
+// (max edge and JPEG quality configurable). When the body is still too large
+// (or always, if configured) the submission is split: the record goes first
+// and each photo follows in its own request keyed by the record ID the flow
+// returned.
+
+import { blobToBase64, dataUrlToBlob, downscaleImage, renameFor } from "./images";
 
 export type RepairPayloadForFlow = {
+  id?: string;                 // repair record ID; keys the queued resubmission
   serial: string;
   model: string;
   family: string;
@@ -12,54 +25,214 @@ export type RepairPayloadForFlow = {
   // Use ONE of these:
   photosFiles?: File[];        // when you have File objects
   photosDataUrls?: string[];   // when you have data URLs (e.g., "data:image/png;base64,....")
+  // Progress of a split submission that stopped part-way (kept when it is queued):
+  flowRecordId?: string;       // record ID the flow returned
+  photosSent?: number;         // photos the flow already accepted
 };
 
 const FLOW_URL = (process.env.REACT_APP_FLOW_URL as string) || "";
 
-/** Convert File[] -> [{ name, contentBytes }] */
-async function filesToFlowArray(files: File[]) {
-  const items = await Promise.all(
-    files.map(
-      (f) =>
-        new Promise<{ name: string; contentBytes: string }>((resolve, reject) => {
-          const r = new FileReader();
-          r.onload = () => {
-            const dataUrl = String(r.result || "");
-            const base64 = dataUrl.includes(",") ? dataUrl.split(",")[1] : dataUrl;
-            resolve({ name: f.name || "photo.png", contentBytes: base64 });
-          };
-          r.onerror = reject;
-          r.readAsDataURL(f);
-        })
-    )
-  );
-  return items;
+const envNumber = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && isFinite(n) && n > 0 ? n : fallback;
+};
+
+/** "auto" splits only when the single request would exceed maxBodyBytes. */
+export type SplitMode = "never" | "auto" | "always";
+
+const SPLIT_MODES: SplitMode[] = ["never", "auto", "always"];
+const envSplit = process.env.REACT_APP_FLOW_SPLIT_PHOTOS as SplitMode;
+
+export const isFlowConfigured = () => !!FLOW_URL;
+
+export type FlowOptions = {
+  url: string;
+  timeoutMs: number;           // per attempt
+  maxAttempts: number;         // including the first one
+  baseDelayMs: number;         // backoff: base, 2×base, 4×base …
+  maxDelayMs: number;          // longest wait between attempts (backoff or Retry-After)
+  maxBodyBytes: number;        // HTTP trigger request limit, with margin (REACT_APP_FLOW_MAX_BODY_MB)
+  maxPhotoDimension: number;   // longest photo edge after downscaling, px
+  photoQuality: number;        // JPEG quality (0–1) of re-encoded photos
+  maxPhotoBytes: number;       // per photo, after downscaling
+  splitPhotos: SplitMode;
+  resizePhoto: (photo: Blob, maxEdge: number, quality: number) => Promise<Blob>;
+  fetch: (url: string, init: RequestInit) => Promise<Pick<Response, "status" | "headers" | "text">>;
+  sleep: (ms: number) => Promise<void>;
+};
+
+export const DEFAULT_FLOW_OPTIONS: FlowOptions = {
+  url: FLOW_URL,
+  timeoutMs: 30000,
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxBodyBytes: envNumber(process.env.REACT_APP_FLOW_MAX_BODY_MB, 20) * 1024 * 1024,
+  maxPhotoDimension: envNumber(process.env.REACT_APP_FLOW_PHOTO_MAX_DIMENSION, 1600),
+  photoQuality: Math.min(1, envNumber(process.env.REACT_APP_FLOW_PHOTO_QUALITY, 0.8)),
+  maxPhotoBytes: 5 * 1024 * 1024,
+  splitPhotos: SPLIT_MODES.includes(envSplit) ? envSplit : "auto",
+  resizePhoto: downscaleImage,
+  fetch: (url, init) => fetch(url, init),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+};
+
+export type FlowErrorKind =
+  | "config"                   // no flow URL
+  | "network"                  // offline, DNS, CORS or timed out
+  | "throttled"                // 429 / 503
+  | "server"                   // other 5xx
+  | "rejected"                 // other 4xx: the flow refused the payload
+  | "payload-too-large";       // 413, or over maxBodyBytes / maxPhotoBytes before sending
+
+export type FlowError = {
+  kind: FlowErrorKind;
+  message: string;
+  status?: number;
+  retryAfterMs?: number;       // server-requested wait (Retry-After)
+  retryable: boolean;          // worth resubmitting later unchanged
+  attempts: number;
+  progress?: { flowRecordId: string; photosSent: number }; // split submission stopped after the record was created
+};
+
+export type FlowResult =
+  | { ok: true; status: number; attempts: number; data: unknown }
+  | { ok: false; error: FlowError };
+
+/** Retry-After as delta-seconds or an HTTP date; undefined when missing or unreadable. */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (value.trim() !== "" && isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(value);
+  return isNaN(at) ? undefined : Math.max(0, at - now);
 }
 
-/** Convert ["data:image/...;base64,XXXX", ...] -> [{ name, contentBytes }] */
-function dataUrlsToFlowArray(urls: string[]) {
-  return urls
-    .filter(Boolean)
-    .map((u, i) => {
-      const base64 = u.includes(",") ? u.split(",")[1] : u;
-      return { name: `photo_${i + 1}.png`, contentBytes: base64 };
+export const flowBackoffDelay = (attempt: number, opts: Pick<FlowOptions, "baseDelayMs" | "maxDelayMs">) =>
+  Math.min(opts.baseDelayMs * 2 ** Math.max(0, attempt - 1), opts.maxDelayMs);
+
+type Attempt = { ok: true; status: number; data: unknown } | { ok: false; error: Omit<FlowError, "attempts"> };
+
+function readBody(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function attemptOnce(body: string, opts: FlowOptions): Promise<Attempt> {
+  const abort = new AbortController();
+  const timer = setTimeout(() => abort.abort(), opts.timeoutMs);
+  try {
+    const resp = await opts.fetch(opts.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      signal: abort.signal,
     });
+    const text = await resp.text().catch(() => "");
+    const { status } = resp;
+    if (status >= 200 && status < 300) return { ok: true, status, data: readBody(text) };
+    const detail = text.trim().slice(0, 200);
+    const message = `Flow answered ${status}${detail ? `: ${detail}` : ""}`;
+    if (status === 413) return { ok: false, error: { kind: "payload-too-large", message, status, retryable: false } };
+    if (status === 429 || status === 503) {
+      const retryAfterMs = parseRetryAfter(resp.headers.get("Retry-After"));
+      return { ok: false, error: { kind: "throttled", message, status, retryAfterMs, retryable: true } };
+    }
+    if (status >= 500) return { ok: false, error: { kind: "server", message, status, retryable: true } };
+    return { ok: false, error: { kind: "rejected", message, status, retryable: false } };
+  } catch (err: any) {
+    const message = abort.signal.aborted
+      ? `Flow did not answer within ${Math.round(opts.timeoutMs / 1000)}s`
+      : `Could not reach Flow: ${err?.message || err}`;
+    return { ok: false, error: { kind: "network", message, retryable: true } };
+  } finally {
+    clearTimeout(timer);
+  }
 }
 
-/** Send to Flow */
-export async function submitRepairViaFlow(input: RepairPayloadForFlow) {
-  if (!FLOW_URL) throw new Error("Missing REACT_APP_FLOW_URL in .env.local");
+/**
+ * Post with retries. Gives up early when the error is not retryable or the
+ * server asks for a longer wait than maxDelayMs (the caller then queues it).
+ */
+async function postWithRetry(body: string, opts: FlowOptions): Promise<FlowResult> {
+  for (let attempt = 1; ; attempt++) {
+    const res = await attemptOnce(body, opts);
+    if (res.ok) return { ...res, attempts: attempt };
+    const error = { ...res.error, attempts: attempt };
+    if (!error.retryable || attempt >= opts.maxAttempts) return { ok: false, error };
+    const wait = error.retryAfterMs ?? flowBackoffDelay(attempt, opts);
+    if (wait > opts.maxDelayMs) return { ok: false, error };
+    await opts.sleep(wait);
+  }
+}
 
-  let photos: { name: string; contentBytes: string }[] = [];
+export type FlowPhoto = { name: string; contentBytes: string };
 
+type PhotoSource = { name: string; blob: Blob };
+
+function photoSources(input: RepairPayloadForFlow): PhotoSource[] {
   if (input.photosFiles && input.photosFiles.length) {
-    photos = await filesToFlowArray(input.photosFiles);
-  } else if (input.photosDataUrls && input.photosDataUrls.length) {
-    photos = dataUrlsToFlowArray(input.photosDataUrls);
+    return input.photosFiles.map((f, i) => ({ name: f.name || `photo_${i + 1}`, blob: f }));
+  }
+  if (input.photosDataUrls && input.photosDataUrls.length) {
+    return input.photosDataUrls.filter(Boolean).map((u, i) => ({ name: `photo_${i + 1}`, blob: dataUrlToBlob(u) }));
   }
+  return [];
+}
+
+const mb = (n: number) => `${(n / 1024 / 1024).toFixed(1)} MB`;
+
+const byteSize = (json: string) => new Blob([json]).size;
 
-  const body = {
+const RESIZE_PASSES = 3;
+
+/**
+ * Downscale / re-encode a photo, shrinking edge and quality on each pass
+ * until it fits maxPhotoBytes. Photos the browser cannot decode (e.g. HEIC)
+ * are sent as they are.
+ */
+async function shrinkPhoto(blob: Blob, opts: FlowOptions): Promise<Blob> {
+  if (!blob.type.startsWith("image/")) return blob;
+  let edge = opts.maxPhotoDimension;
+  let quality = opts.photoQuality;
+  let out = blob;
+  for (let pass = 0; pass < RESIZE_PASSES; pass++) {
+    try {
+      out = await opts.resizePhoto(blob, edge, quality);
+    } catch {
+      return out;
+    }
+    if (out.size <= opts.maxPhotoBytes) break;
+    edge = Math.round(edge * 0.75);
+    quality = Math.max(0.5, quality - 0.1);
+  }
+  return out;
+}
+
+/** Photos -> [{ name, contentBytes }], one at a time (phone photos decode to large bitmaps). */
+async function preparePhotos(
+  sources: PhotoSource[],
+  opts: FlowOptions
+): Promise<{ ok: true; photos: FlowPhoto[] } | { ok: false; error: FlowError }> {
+  const photos: FlowPhoto[] = [];
+  for (const source of sources) {
+    const blob = await shrinkPhoto(source.blob, opts);
+    if (blob.size > opts.maxPhotoBytes) {
+      const message = `${source.name} is ${mb(blob.size)} after downscaling; Flow photos may be at most ${mb(opts.maxPhotoBytes)}`;
+      return { ok: false, error: { kind: "payload-too-large", message, retryable: false, attempts: 0 } };
+    }
+    photos.push({ name: renameFor(source.name, blob.type), contentBytes: await blobToBase64(blob) });
+  }
+  return { ok: true, photos };
+}
+
+function recordBody(input: RepairPayloadForFlow, photos: FlowPhoto[]) {
+  return {
     timestamp: new Date().toISOString(),
+    recordId: input.id,
     serial: input.serial,
     model: input.model,
     family: input.family,
@@ -70,14 +243,104 @@ export async function submitRepairViaFlow(input: RepairPayloadForFlow) {
     notes: input.notes || "",
     photos, // array for Flow's "Apply to each"
   };
+}
 
-  const resp = await fetch(FLOW_URL, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+/** Post one JSON body, refusing it locally when it is over maxBodyBytes. */
+function postJson(body: unknown, opts: FlowOptions): Promise<FlowResult> {
+  const json = JSON.stringify(body);
+  const bytes = byteSize(json);
+  if (bytes > opts.maxBodyBytes) {
+    const message = `Submission is ${mb(bytes)}; Flow accepts at most ${mb(opts.maxBodyBytes)}`;
+    return Promise.resolve({ ok: false, error: { kind: "payload-too-large", message, retryable: false, attempts: 0 } });
+  }
+  return postWithRetry(json, opts);
+}
 
-  return resp; // caller can check resp.ok
+/** Record ID the flow answered a split record post with (`recordId` or `id`). */
+function flowRecordIdOf(data: unknown): string | undefined {
+  if (!data || typeof data !== "object") return undefined;
+  const id = (data as any).recordId ?? (data as any).id;
+  return typeof id === "string" || typeof id === "number" ? String(id) : undefined;
+}
+
+/** Split mode: each photo from `from` on, keyed by the flow's record ID. */
+async function sendPhotos(
+  input: RepairPayloadForFlow,
+  flowRecordId: string,
+  photos: FlowPhoto[],
+  from: number,
+  record: { status: number; attempts: number; data: unknown },
+  opts: FlowOptions
+): Promise<FlowResult> {
+  let { status, attempts } = record;
+  for (let i = from; i < photos.length; i++) {
+    const res = await postJson(
+      { part: "photo", flowRecordId, recordId: input.id, serial: input.serial, index: i + 1, photoCount: photos.length, photo: photos[i] },
+      opts
+    );
+    if (!res.ok) {
+      const error = { ...res.error, attempts: attempts + res.error.attempts, progress: { flowRecordId, photosSent: i } };
+      return { ok: false, error };
+    }
+    attempts += res.attempts;
+    status = res.status;
+  }
+  return { ok: true, status, attempts, data: record.data };
+}
+
+/** Send to Flow */
+export async function submitRepairViaFlow(
+  input: RepairPayloadForFlow,
+  options: Partial<FlowOptions> = {}
+): Promise<FlowResult> {
+  const opts = { ...DEFAULT_FLOW_OPTIONS, ...options };
+  if (!opts.url) {
+    return { ok: false, error: { kind: "config", message: "Missing REACT_APP_FLOW_URL in .env.local", retryable: false, attempts: 0 } };
+  }
+
+  const prepared = await preparePhotos(photoSources(input), opts);
+  if (!prepared.ok) return prepared;
+  const { photos } = prepared;
+
+  // Resuming a split submission whose record the flow already has
+  if (input.flowRecordId) {
+    const record = { status: 200, attempts: 0, data: { recordId: input.flowRecordId } };
+    return sendPhotos(input, input.flowRecordId, photos, input.photosSent || 0, record, opts);
+  }
+
+  const single = recordBody(input, photos);
+  const split =
+    photos.length > 0 &&
+    (opts.splitPhotos === "always" || (opts.splitPhotos === "auto" && byteSize(JSON.stringify(single)) > opts.maxBodyBytes));
+  if (!split) return postJson(single, opts);
+
+  const record = await postJson({ ...recordBody(input, []), part: "record", photoCount: photos.length }, opts);
+  if (!record.ok) return record;
+  const flowRecordId = flowRecordIdOf(record.data);
+  if (!flowRecordId) {
+    const message = "Flow did not answer the record with a record ID, so its photos could not be sent";
+    return { ok: false, error: { kind: "rejected", message, status: record.status, retryable: false, attempts: record.attempts } };
+  }
+  return sendPhotos(input, flowRecordId, photos, 0, record, opts);
+}
+
+/**
+ * Outbox sender for queued submissions: one attempt per flush, throwing an
+ * Error that carries `retryable` / `retryAfterMs` so the outbox can schedule
+ * (or give up on) the next try, and the payload updated with the progress
+ * of a split submission so photos already sent are not sent again.
+ */
+export async function resubmitRepairViaFlow(input: RepairPayloadForFlow, options: Partial<FlowOptions> = {}) {
+  const res = await submitRepairViaFlow(input, { ...options, maxAttempts: 1 });
+  if (!res.ok) {
+    throw Object.assign(new Error(res.error.message), {
+      kind: res.error.kind,
+      retryable: res.error.retryable,
+      retryAfterMs: res.error.retryAfterMs,
+      payload: res.error.progress ? { ...input, ...res.error.progress } : undefined,
+    });
+  }
+  return res;
 }
 
 